@@ -0,0 +1,83 @@
+// ============================================================
+// Service Worker
+// アプリ本体（HTML・JS・CSS・アイコン）をキャッシュし、オフラインでも起動できるようにする
+// 時刻表などのデータは IndexedDB に保存する（src/offlineCache.ts）
+// ============================================================
+
+// 次の2つはビルド時に vite.config.ts の serviceWorkerBuildInfo プラグインが書き換える
+/** ビルドの版（出力したファイル名から求めたハッシュ） */
+const BUILD_VERSION = "dev";
+/** ビルドで出力したファイル（ファイル名にハッシュを含む JS・CSS など） */
+const BUILD_ASSETS = [];
+
+// ビルドごとに別のキャッシュを使い、新しい版を有効にしたときに古いキャッシュを削除する
+const CACHE_NAME = `sendai-bus-map-${BUILD_VERSION}`;
+const APP_SHELL = ["/", "/index.html", "/bus.svg", "/manifest.webmanifest"];
+
+// 初回からオフラインで起動できるよう、アプリ本体を事前にキャッシュする
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll([...APP_SHELL, ...BUILD_ASSETS]))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+// 古いバージョンのキャッシュを削除
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key !== CACHE_NAME)
+            .map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+/** 正常なレスポンスをキャッシュに保存する */
+function putCache(key, response) {
+  if (!response.ok) return;
+  const copy = response.clone();
+  caches.open(CACHE_NAME).then((cache) => cache.put(key, copy));
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  // API・地図タイルなど別オリジンのものと、IndexedDB で扱う /data は対象外
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/data/")) return;
+
+  // ページは通信を優先し、オフライン時は保存した index.html を返す（?stop= などの URL でも起動できる）
+  if (request.mode === "navigate") {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          putCache("/index.html", response);
+          return response;
+        })
+        .catch(() => caches.match("/index.html")),
+    );
+    return;
+  }
+
+  // ビルド済みのファイル（ファイル名にハッシュを含む）などはキャッシュを優先
+  event.respondWith(
+    caches.match(request).then(
+      (cached) =>
+        cached ||
+        fetch(request).then((response) => {
+          putCache(request, response);
+          return response;
+        }),
+    ),
+  );
+});
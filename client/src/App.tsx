@@ -5,15 +5,40 @@ import {
   loadEssentialData,
   fetchTripDetails,
   fetchStopTimetable,
+  fetchStopInfo,
+  fetchRouteDetails,
+  setDataSource,
 } from "./dataLoader";
-import type { AppData, PanelTrip, TripDetailResponse } from "./types";
+import { createMemoryDataSource } from "./dataSources";
+import type {
+  AppData,
+  Itinerary,
+  PanelTrip,
+  RouteDetailResponse,
+  TripDetailResponse,
+} from "./types";
+import type { MapView, UrlState } from "./urlState";
+import type { UserLocation } from "./geolocation";
+import type { IsochroneResult } from "./isochrone";
+import { readUrlState, writeMapView, writeSelection } from "./urlState";
+import { getHiddenAgencyIds, saveHiddenAgencyIds } from "./utils";
+import { registerServiceWorker } from "./serviceWorker";
+import { setNameTranslations, t } from "./i18n";
 import "./App.css";
 
 // コンポーネント
 import MapContainer from "./components/MapContainer";
 import SearchBox from "./components/SearchBox";
+import JourneyPlanner from "./components/JourneyPlanner";
+import RouteBrowser from "./components/RouteBrowser";
+import NearbyStops from "./components/NearbyStops";
+import Isochrone from "./components/Isochrone";
 import BusPanel from "./components/BusPanel";
 import LayerControl from "./components/LayerControl";
+import TimeTravelControl from "./components/TimeTravelControl";
+import DataValidityBanner from "./components/DataValidityBanner";
+import OfflineIndicator from "./components/OfflineIndicator";
+import GtfsImport from "./components/GtfsImport";
 
 function App() {
   // --- データ ---
@@ -33,18 +58,79 @@ function App() {
   const mapRef = useRef<maplibregl.Map | null>(null);
 
   // --- 状態管理 ---
+  // 起動時の URL（?stop=, ?trip=, #zoom/lat/lng）から選択状態と表示位置を復元
+  const [initialUrlState] = useState<UrlState>(readUrlState);
   const [activeLayer, setActiveLayer] = useState<"pale" | "ortho">("pale");
-  const [selectedStopId, setSelectedStopId] = useState<string | null>(null);
-  const [selectedTrip, setSelectedTrip] = useState<PanelTrip | null>(null);
+  const [selectedStopId, setSelectedStopId] = useState<string | null>(
+    initialUrlState.stopId,
+  );
+  const [selectedTrip, setSelectedTrip] = useState<PanelTrip | null>(
+    initialUrlState.trip,
+  );
   const [isSearching, setIsSearching] = useState(false);
-  const [zoom, setZoom] = useState(15);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isBrowsingRoutes, setIsBrowsingRoutes] = useState(false);
+  const [isShowingNearby, setIsShowingNearby] = useState(false);
+  const [isShowingIsochrone, setIsShowingIsochrone] = useState(false);
+  const [isochrone, setIsochrone] = useState<IsochroneResult | null>(null);
+  // 現在地（取得済みなら地図に表示）
+  const [userLocation, setUserLocation] = useState<UserLocation | null>(null);
+  const [selectedRouteId, setSelectedRouteId] = useState<string | null>(null);
+  // 路線詳細データ（selectedRouteIdが選択されたときにサーバーから取得）
+  const [routeDetail, setRouteDetail] = useState<RouteDetailResponse | null>(
+    null,
+  );
+  const [selectedJourney, setSelectedJourney] = useState<Itinerary | null>(
+    null,
+  );
+  const [zoom, setZoom] = useState(initialUrlState.view?.zoom ?? 15);
+  // タイムトラベル: 表示する日時と実時刻との差 (ms)。0 なら現在時刻
+  const [timeOffset, setTimeOffset] = useState(0);
+  // 地図・路線一覧に表示しない事業者
+  const [hiddenAgencyIds, setHiddenAgencyIds] =
+    useState<string[]>(getHiddenAgencyIds);
+  // GTFS zip を読み込むたびに増やし、全バス停を保持するコンポーネントを作り直す
+  const [datasetRevision, setDatasetRevision] = useState(0);
+
+  // 検索から開いた路線。詳細を読み込んだら全経路が見える位置へ移動する
+  const fitRouteIdRef = useRef<string | null>(null);
+
+  // ==================== 地図の表示範囲 ====================
+
+  // 座標全体が見える位置へ移動（パネルに隠れないよう余白をとる）
+  const fitMapToCoordinates = useCallback((coords: [number, number][]) => {
+    if (coords.length === 0 || !mapRef.current) return;
+    const bounds = coords.reduce<[[number, number], [number, number]]>(
+      (b, [lng, lat]) => [
+        [Math.min(b[0][0], lng), Math.min(b[0][1], lat)],
+        [Math.max(b[1][0], lng), Math.max(b[1][1], lat)],
+      ],
+      [
+        [Infinity, Infinity],
+        [-Infinity, -Infinity],
+      ],
+    );
+    const isMobile = window.innerWidth < 768;
+    mapRef.current.fitBounds(bounds, {
+      padding: isMobile
+        ? { top: 40, bottom: 40, left: 20, right: 20 }
+        : { top: 40, bottom: 40, left: 400, right: 40 },
+      maxZoom: 15,
+    });
+  }, []);
 
   // ==================== データ読み込み ====================
+  // オフラインでも起動できるよう Service Worker を登録
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   // 初期化時に必須データ（calendar, routes, extra）のみを取得
   useEffect(() => {
     const initData = async () => {
       try {
         const essentialData = await loadEssentialData();
+        setNameTranslations(essentialData.extra.translations);
         setData((prev) => ({
           ...prev,
           calendar: essentialData.calendar,
@@ -101,6 +187,42 @@ function App() {
     loadTripDetail();
   }, [selectedTrip]);
 
+  // selectedRouteId が変更されたら、サーバーから路線詳細（全便+全経路）を取得
+  useEffect(() => {
+    if (!selectedRouteId) return;
+
+    const loadRouteDetail = async () => {
+      try {
+        const detail = await fetchRouteDetails(selectedRouteId);
+        setRouteDetail(detail);
+        if (fitRouteIdRef.current === detail.route_id) {
+          fitRouteIdRef.current = null;
+          fitMapToCoordinates(
+            Object.values(detail.shapes).flatMap((shape) => shape.coordinates),
+          );
+        }
+
+        // 地図に全経路と停車バス停を描画できるよう data にマージ
+        setData((prev) => ({
+          ...prev,
+          stops: { ...prev.stops, ...detail.stops },
+          timetables: {
+            ...prev.timetables,
+            [detail.route_id]: {
+              ...(prev.timetables[detail.route_id] || {}),
+              ...detail.trips,
+            },
+          },
+          shapes: { ...prev.shapes, ...detail.shapes },
+        }));
+      } catch (e) {
+        console.error("failed to load route details", e);
+        setRouteDetail(null);
+      }
+    };
+    loadRouteDetail();
+  }, [selectedRouteId, fitMapToCoordinates]);
+
   // selectedStopId が変更されたら、サーバーからそのバス停の時刻表を取得
   useEffect(() => {
     if (!selectedStopId) {
@@ -125,6 +247,85 @@ function App() {
     loadStopTimetable();
   }, [selectedStopId]);
 
+  // ==================== URL との同期 ====================
+
+  /**
+   * URL から復元した選択のバス停情報を読み込み、表示位置の指定がなければそこへ移動する
+   * バス停は時刻表 → 便詳細、便は便詳細から位置を取得する
+   */
+  const restoreSelection = useCallback(async (state: UrlState) => {
+    try {
+      let target: { lng: number; lat: number } | null = null;
+      if (state.stopId) {
+        const stopId = state.stopId;
+        const stop = await fetchStopInfo(stopId);
+        if (!stop) return;
+        // 表示範囲外でもパネルに表示できるようにバス停情報を追加
+        setData((prev) => ({
+          ...prev,
+          stops: { ...prev.stops, [stopId]: stop },
+        }));
+        target = stop;
+      } else if (state.trip) {
+        const detail = await fetchTripDetails(
+          state.trip.routeId,
+          state.trip.tripId,
+        );
+        const stopId =
+          state.trip.highlightId || detail.trip.stops[0]?.stop_id || "";
+        target = detail.stops[stopId] || null;
+      }
+
+      if (target && !state.view && mapRef.current) {
+        mapRef.current.jumpTo({ center: [target.lng, target.lat], zoom: 15 });
+        setZoom(15);
+      }
+    } catch (e) {
+      console.error("URL からの選択状態の復元に失敗しました:", e);
+    }
+  }, []);
+
+  // 起動時に URL の選択状態を復元
+  useEffect(() => {
+    if (!initialUrlState.stopId && !initialUrlState.trip) return;
+    const restoreInitialSelection = async () => {
+      await restoreSelection(initialUrlState);
+    };
+    restoreInitialSelection();
+  }, [initialUrlState, restoreSelection]);
+
+  // 選択状態を URL に反映（選択が変わるごとに履歴を追加）
+  // キオスク表示では ?board= の URL をそのまま保つ
+  useEffect(() => {
+    if (initialUrlState.kiosk) return;
+    writeSelection(selectedStopId, selectedTrip);
+  }, [initialUrlState, selectedStopId, selectedTrip]);
+
+  // ブラウザの戻る・進むで URL の状態に戻す
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = readUrlState();
+      setSelectedStopId(state.stopId);
+      setSelectedTrip(state.trip);
+      if (!state.trip) setTripDetail(null);
+      if (state.stopId || state.trip) setSelectedJourney(null);
+      if (state.view && mapRef.current) {
+        mapRef.current.jumpTo({
+          center: state.view.center,
+          zoom: state.view.zoom,
+        });
+        setZoom(state.view.zoom);
+      }
+      restoreSelection(state);
+    };
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [restoreSelection]);
+
+  const handleViewChange = useCallback((view: MapView) => {
+    writeMapView(view);
+  }, []);
+
   // 地図の移動に合わせて stops のみを fetchStopsByBounds で取得
   const handleBoundsChange = useCallback(
     async (minLat: number, maxLat: number, minLng: number, maxLng: number) => {
@@ -198,6 +399,106 @@ function App() {
     [],
   );
 
+  // ==================== 現在地周辺のバス停 ====================
+
+  // 現在地を取得したら地図に表示し、現在地へ移動
+  const handleLocate = useCallback((location: UserLocation) => {
+    setUserLocation(location);
+    mapRef.current?.flyTo({
+      center: [location.lng, location.lat],
+      zoom: 16,
+      essential: true,
+    });
+    setZoom(16);
+  }, []);
+
+  const handleSelectNearbyStop = useCallback(
+    (stopName: string, lat: number, lng: number) => {
+      setIsShowingNearby(false);
+      handleSelectSearchStop(stopName, lat, lng);
+    },
+    [handleSelectSearchStop],
+  );
+
+  // ==================== 到達圏 ====================
+
+  // 計算した到達圏を地図に表示し、到達できるバス停全体が見える位置へ移動
+  const handleShowIsochrone = useCallback(
+    (result: IsochroneResult | null) => {
+      setIsochrone(result);
+      fitMapToCoordinates(
+        (result?.features.features || []).flatMap(
+          (f) => f.geometry.coordinates[0] as [number, number][],
+        ),
+      );
+    },
+    [fitMapToCoordinates],
+  );
+
+  const handleCloseIsochrone = useCallback(() => {
+    setIsShowingIsochrone(false);
+    setIsochrone(null);
+  }, []);
+
+  // ==================== GTFS の読み込み ====================
+
+  // 読み込んだ GTFS をデータソースにし、選択を解除してデータ全体が見える位置へ移動
+  const handleImportGtfs = useCallback((imported: AppData) => {
+    setDataSource(createMemoryDataSource(imported));
+    setDatasetRevision((r) => r + 1);
+    setSelectedStopId(null);
+    setSelectedTrip(null);
+    setTripDetail(null);
+    setSelectedJourney(null);
+    setSelectedRouteId(null);
+    setRouteDetail(null);
+    setIsPlanning(false);
+    setIsBrowsingRoutes(false);
+    setIsShowingNearby(false);
+    setIsShowingIsochrone(false);
+    setIsochrone(null);
+    setNameTranslations(imported.extra.translations);
+    setData({
+      stops: {},
+      shapes: {},
+      timetables: {},
+      calendar: imported.calendar,
+      routes: imported.routes,
+      extra: imported.extra,
+    });
+
+    // 表示範囲が変わると moveend でバス停を取得し直す
+    const bounds = Object.values(imported.stops).reduce<
+      [[number, number], [number, number]] | null
+    >((b, s) => {
+      if (Number.isNaN(s.lat) || Number.isNaN(s.lng)) return b;
+      if (!b)
+        return [
+          [s.lng, s.lat],
+          [s.lng, s.lat],
+        ];
+      return [
+        [Math.min(b[0][0], s.lng), Math.min(b[0][1], s.lat)],
+        [Math.max(b[1][0], s.lng), Math.max(b[1][1], s.lat)],
+      ];
+    }, null);
+    if (bounds && mapRef.current) {
+      mapRef.current.fitBounds(bounds, { padding: 40, maxZoom: 15 });
+    }
+  }, []);
+
+  // ==================== 事業者の絞り込み ====================
+
+  const handleToggleAgency = useCallback((agencyId: string) => {
+    setHiddenAgencyIds((prev) => {
+      const next = prev.includes(agencyId)
+        ? prev.filter((id) => id !== agencyId)
+        : [...prev, agencyId];
+      saveHiddenAgencyIds(next);
+      return next;
+    });
+  }, []);
+
   // ==================== ハンドラ ====================
 
   const handleStopClick = useCallback((id: string, currentZoom?: number) => {
@@ -222,9 +523,49 @@ function App() {
     setSelectedStopId(null);
     setSelectedTrip(null);
     setTripDetail(null);
+    setSelectedJourney(null);
     setIsSearching(false);
   }, []);
 
+  // ==================== 経路検索 ====================
+
+  const handleSelectItinerary = useCallback((itinerary: Itinerary) => {
+    setSelectedJourney(itinerary);
+    setSelectedStopId(null);
+    setSelectedTrip(null);
+  }, []);
+
+  const handleCloseJourneyPlanner = useCallback(() => {
+    setIsPlanning(false);
+    setSelectedJourney(null);
+  }, []);
+
+  // ==================== 路線一覧 ====================
+
+  const handleSelectRoute = useCallback((routeId: string | null) => {
+    setSelectedRouteId(routeId);
+    setRouteDetail(null);
+    setSelectedStopId(null);
+    setSelectedTrip(null);
+    setTripDetail(null);
+  }, []);
+
+  // 検索で選んだ路線を路線一覧で開き、地図に全経路を表示する
+  const handleSearchRoute = useCallback(
+    (routeId: string) => {
+      fitRouteIdRef.current = routeId;
+      setIsBrowsingRoutes(true);
+      handleSelectRoute(routeId);
+    },
+    [handleSelectRoute],
+  );
+
+  const handleCloseRouteBrowser = useCallback(() => {
+    setIsBrowsingRoutes(false);
+    setSelectedRouteId(null);
+    setRouteDetail(null);
+  }, []);
+
   const handleFlyToStop = useCallback((lng: number, lat: number) => {
     const map = mapRef.current;
     if (!map) return;
@@ -253,28 +594,91 @@ function App() {
   // ==================== ローディング ====================
 
   if (!data) {
-    return <div className="loading-screen">読み込み中...</div>;
+    return <div className="loading-screen">{t("loading")}</div>;
   }
 
   // ==================== レンダリング ====================
 
   return (
     <>
-      <SearchBox
-        onSelectStop={handleSelectSearchStop}
-        onSearchStateChange={setIsSearching}
-        onFocus={handleClosePanel}
-        isOpen={isSearching}
+      {isPlanning ? (
+        <JourneyPlanner
+          data={data}
+          selectedItinerary={selectedJourney}
+          timeOffset={timeOffset}
+          onSelectItinerary={handleSelectItinerary}
+          onClose={handleCloseJourneyPlanner}
+        />
+      ) : isBrowsingRoutes ? (
+        <RouteBrowser
+          data={data}
+          selectedRouteId={selectedRouteId}
+          routeDetail={routeDetail}
+          timeOffset={timeOffset}
+          hiddenAgencyIds={hiddenAgencyIds}
+          onSelectRoute={handleSelectRoute}
+          onSelectTrip={handleBusClick}
+          onClose={handleCloseRouteBrowser}
+        />
+      ) : isShowingNearby ? (
+        <NearbyStops
+          data={data}
+          timeOffset={timeOffset}
+          onLocate={handleLocate}
+          onSelectStop={handleSelectNearbyStop}
+          onClose={() => setIsShowingNearby(false)}
+        />
+      ) : isShowingIsochrone ? (
+        <Isochrone
+          data={data}
+          timeOffset={timeOffset}
+          onShowIsochrone={handleShowIsochrone}
+          onSelectStop={handleSelectSearchStop}
+          onClose={handleCloseIsochrone}
+        />
+      ) : (
+        <SearchBox
+          key={datasetRevision}
+          data={data}
+          timeOffset={timeOffset}
+          hiddenAgencyIds={hiddenAgencyIds}
+          onSelectStop={handleSelectSearchStop}
+          onSelectRoute={handleSearchRoute}
+          onSearchStateChange={setIsSearching}
+          onFocus={handleClosePanel}
+          onOpenJourneyPlanner={() => setIsPlanning(true)}
+          onOpenRouteBrowser={() => setIsBrowsingRoutes(true)}
+          onOpenNearby={() => setIsShowingNearby(true)}
+          onOpenIsochrone={() => setIsShowingIsochrone(true)}
+          isOpen={isSearching}
+        />
+      )}
+
+      <LayerControl
+        activeLayer={activeLayer}
+        onLayerChange={setActiveLayer}
+        agencies={data.extra.agencies || {}}
+        hiddenAgencyIds={hiddenAgencyIds}
+        onToggleAgency={handleToggleAgency}
       />
 
-      <LayerControl activeLayer={activeLayer} onLayerChange={setActiveLayer} />
+      <TimeTravelControl timeOffset={timeOffset} onChange={setTimeOffset} />
+
+      <GtfsImport onImport={handleImportGtfs} />
+
+      <DataValidityBanner data={data} timeOffset={timeOffset} />
+
+      <OfflineIndicator data={data} />
 
       <BusPanel
         data={data}
         selectedStopId={selectedStopId}
         selectedTrip={selectedTrip}
         tripDetail={tripDetail}
+        selectedJourney={selectedJourney}
         zoom={zoom}
+        timeOffset={timeOffset}
+        kiosk={initialUrlState.kiosk}
         onClose={handleClosePanel}
         onSelectBus={handleBusClick}
         onFlyToStop={handleFlyToStop}
@@ -284,11 +688,18 @@ function App() {
         data={data}
         activeLayer={activeLayer}
         selectedTrip={selectedTrip}
+        selectedRouteId={selectedRouteId}
+        timeOffset={timeOffset}
+        initialView={initialUrlState.view}
+        userLocation={userLocation}
+        isochrone={isochrone?.features}
+        hiddenAgencyIds={hiddenAgencyIds}
         onStopClick={handleStopClick}
         onBusClick={handleBusClick}
         onMapClick={handleClosePanel}
         onMoveStart={() => setIsSearching(false)}
         onZoomChange={setZoom}
+        onViewChange={handleViewChange}
         setMapRef={(map) => (mapRef.current = map)}
         onBoundsChange={handleBoundsChange}
       />
@@ -0,0 +1,128 @@
+import type { ShapeData } from "./types";
+
+// ============================================================
+// バスマーカーのアニメーション
+// ポーリング間（前回位置 → 今回位置）を経路形状に沿って補間する
+// ============================================================
+
+type LngLat = [number, number];
+
+/** これ以上離れた移動は補間せずに瞬間移動させる (m) */
+const MAX_ANIMATION_METERS = 1500;
+
+/** 1台分のアニメーション状態 */
+export interface BusAnimation {
+  /** 補間に使う折れ線（始点 = 前回位置, 終点 = 今回位置） */
+  path: LngLat[];
+  /** path の各点までの累積距離 (m) */
+  cumulative: number[];
+  /** 開始時刻 (performance.now() 基準, ms) */
+  start: number;
+  /** 所要時間 (ms) */
+  duration: number;
+  /** 最後に求めた進行方向（北=0 の時計回り, 度） */
+  bearing: number | null;
+}
+
+/** 簡易的な平面近似での2点間距離 (m)。短距離の補間用 */
+function planarMeters(a: LngLat, b: LngLat): number {
+  const latRad = (((a[1] + b[1]) / 2) * Math.PI) / 180;
+  const dx = (b[0] - a[0]) * 111320 * Math.cos(latRad);
+  const dy = (b[1] - a[1]) * 110540;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/** 2点間の方位角（北=0 の時計回り, 度） */
+export function bearingDegrees(a: LngLat, b: LngLat): number {
+  const latRad = (((a[1] + b[1]) / 2) * Math.PI) / 180;
+  const dx = (b[0] - a[0]) * Math.cos(latRad);
+  const dy = b[1] - a[1];
+  return ((Math.atan2(dx, dy) * 180) / Math.PI + 360) % 360;
+}
+
+/** 経路形状の中で指定地点に最も近い座標のインデックス */
+function nearestIndex(coords: LngLat[], p: LngLat, from = 0): number {
+  let best = from;
+  let bestDist = Infinity;
+  for (let i = from; i < coords.length; i++) {
+    const d = (coords[i][0] - p[0]) ** 2 + (coords[i][1] - p[1]) ** 2;
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * 前回位置から今回位置へのアニメーションを作成する
+ * 便の経路形状が分かっている場合はその道なりに、分からない場合は直線で補間する
+ */
+export function createBusAnimation(
+  from: LngLat,
+  to: LngLat,
+  shape: ShapeData | null,
+  start: number,
+  duration: number,
+  prevBearing: number | null,
+): BusAnimation {
+  let path: LngLat[] = [from, to];
+
+  if (shape && shape.coordinates.length > 1) {
+    const i = nearestIndex(shape.coordinates, from);
+    const j = nearestIndex(shape.coordinates, to, i);
+    path = [from, ...shape.coordinates.slice(i + 1, j + 1), to];
+  }
+
+  const cumulative = [0];
+  for (let k = 1; k < path.length; k++) {
+    cumulative.push(cumulative[k - 1] + planarMeters(path[k - 1], path[k]));
+  }
+
+  // 遠すぎる移動（便の入れ替わりや長時間の停止後）は補間しない
+  if (cumulative[cumulative.length - 1] > MAX_ANIMATION_METERS) {
+    return {
+      path: [to],
+      cumulative: [0],
+      start,
+      duration: 0,
+      bearing: prevBearing,
+    };
+  }
+
+  return { path, cumulative, start, duration, bearing: prevBearing };
+}
+
+/**
+ * 指定時刻の補間位置と進行方向を求める
+ * 経過時間の割合を距離の割合として折れ線上の位置に変換する（calculateBusPos と同じ時間比の考え方）
+ */
+export function sampleBusAnimation(
+  anim: BusAnimation,
+  now: number,
+): { position: LngLat; bearing: number | null; done: boolean } {
+  const { path, cumulative } = anim;
+  const total = cumulative[cumulative.length - 1];
+  const ratio =
+    anim.duration > 0 ? Math.min(1, (now - anim.start) / anim.duration) : 1;
+  const done = ratio >= 1;
+
+  if (path.length < 2 || total === 0) {
+    return { position: path[path.length - 1], bearing: anim.bearing, done };
+  }
+
+  const target = total * ratio;
+  let k = 1;
+  while (k < cumulative.length - 1 && cumulative[k] < target) k++;
+
+  const segLen = cumulative[k] - cumulative[k - 1];
+  const t = segLen > 0 ? (target - cumulative[k - 1]) / segLen : 1;
+  const a = path[k - 1];
+  const b = path[k];
+  const position: LngLat = [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+
+  // ほぼ動いていない区間では方向を更新しない（停車中のちらつき防止）
+  if (segLen > 1) anim.bearing = bearingDegrees(a, b);
+
+  return { position, bearing: anim.bearing, done };
+}
@@ -0,0 +1,84 @@
+import type { AppData, BusPosition } from "./types";
+import { getActiveServiceDays, getServiceCalendar } from "./serviceCalendar";
+import { calculateBusPos, timeToSec } from "./utils";
+
+// ============================================================
+// クライアント側バス位置シミュレーション
+// バックエンドを使わず、メモリ上の時刻表データからバス位置を計算する
+// ============================================================
+
+/**
+ * 指定時刻に運行中のバス位置を全て計算する（サーバーの /api/buses と同じ処理）
+ * 範囲指定がある場合はその範囲内のバスのみを返す
+ */
+export function calculateAllBusPositions(
+  data: AppData,
+  now: Date,
+  minLat?: number,
+  maxLat?: number,
+  minLng?: number,
+  maxLng?: number,
+): BusPosition[] {
+  const days = getActiveServiceDays(now);
+  const calendar = getServiceCalendar(data.calendar, data.extra);
+  const hasBounds =
+    minLat !== undefined &&
+    maxLat !== undefined &&
+    minLng !== undefined &&
+    maxLng !== undefined;
+
+  // 運行日・サービスごとの運行判定は1回だけ行う
+  const runningServices = new Map<string, boolean>();
+  const isRunning = (serviceId: string, dayOffset: number, date: Date) => {
+    const key = `${dayOffset}|${serviceId}`;
+    if (!runningServices.has(key)) {
+      runningServices.set(key, calendar.isRunning(serviceId, date));
+    }
+    return runningServices.get(key)!;
+  };
+
+  const result: BusPosition[] = [];
+
+  Object.keys(data.timetables).forEach((routeId) => {
+    const trips = data.timetables[routeId];
+    Object.keys(trips).forEach((tripId) => {
+      const trip = trips[tripId];
+      const stops = trip.stops;
+      if (stops.length < 2) return;
+
+      // 運行時間内かチェック（前日の運行日の深夜便も含む）
+      const startSec = timeToSec(stops[0].time);
+      const endSec = timeToSec(stops[stops.length - 1].time);
+      const day = days.find(
+        (d) =>
+          d.nowSec >= startSec &&
+          d.nowSec <= endSec &&
+          isRunning(trip.service_id, d.dayOffset, d.date),
+      );
+      if (!day) return;
+
+      const pos = calculateBusPos(trip, day.nowSec, data.shapes);
+      if (!pos) return;
+
+      // 範囲内チェック
+      if (hasBounds) {
+        const [lng, lat] = pos;
+        if (lat < minLat || lat > maxLat || lng < minLng || lng > maxLng)
+          return;
+      }
+
+      const routeInfo = data.routes[routeId];
+      result.push({
+        trip_id: tripId,
+        route_id: routeId,
+        route_name: routeInfo?.short_name || "",
+        headsign: trip.headsign,
+        position: pos,
+        color: routeInfo?.color || "",
+        shape_key: stops.map((s) => s.stop_id).join("|"),
+      });
+    });
+  });
+
+  return result;
+}
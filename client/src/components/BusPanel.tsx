@@ -1,107 +1,295 @@
 import React, {
+  useCallback,
   useEffect,
   useState,
   useMemo,
   useLayoutEffect,
   useRef,
+  useSyncExternalStore,
 } from "react";
-import { X } from "lucide-react";
-import type { AppData, PanelTrip, Arrival, TripDetailResponse } from "../types";
-import { formatHeadsign, isServiceRunningToday } from "../utils";
+import { X, Footprints, Star, CalendarDays, MonitorPlay } from "lucide-react";
+import type {
+  AppData,
+  PanelTrip,
+  Arrival,
+  TripDetailResponse,
+  Itinerary,
+} from "../types";
+import type { Favorite, StopRouteFilter } from "../utils";
+import StopTimetableGrid from "./StopTimetableGrid";
+import DepartureBoard from "./DepartureBoard";
+import {
+  describeDelay,
+  formatDelay,
+  getRealtimeState,
+  getTripDelay,
+  subscribeRealtime,
+} from "../realtime";
+import {
+  DAY_SEC,
+  getActiveServiceDays,
+  getServiceCalendar,
+} from "../serviceCalendar";
+import {
+  formatHeadsign,
+  formatMonthDay,
+  formatServiceTime,
+  getDisplayNow,
+  getFavoriteKey,
+  getFavorites,
+  getStopRouteFilter,
+  getTripServiceDay,
+  saveStopRouteFilter,
+  shiftServiceTime,
+  timeToSec,
+  toggleFavorite,
+  toTimeString,
+} from "../utils";
+import { t, translateName, useLocale } from "../i18n";
 
 interface BusPanelProps {
   data: AppData;
   selectedStopId: string | null;
   selectedTrip: PanelTrip | null;
   tripDetail: TripDetailResponse | null;
+  selectedJourney: Itinerary | null;
   zoom: number;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  /** 発車案内板をキオスク表示する（?board= で開いた場合） */
+  kiosk?: boolean;
   onClose: () => void;
   onSelectBus: (tripId: string, routeId: string, highlightId?: string) => void;
   onFlyToStop: (lng: number, lat: number) => void;
 }
 
+/** 遅れの表示（リアルタイム情報で分かる場合のみ） */
+const DelayBadge: React.FC<{ delay: number | null }> = ({ delay }) =>
+  delay === null ? null : (
+    <span className={`item-delay ${delay >= 60 ? "late" : ""}`}>
+      {formatDelay(delay)}
+    </span>
+  );
+
+/** 読み上げ用のラベル（空の項目を除いて空白でつなぐ） */
+function joinLabel(parts: (string | false | null | undefined)[]): string {
+  return parts.filter((p) => !!p).join(" ");
+}
+
+/** 配列に値があれば取り除き、なければ追加する */
+function toggleValue(list: string[], value: string): string[] {
+  return list.includes(value)
+    ? list.filter((v) => v !== value)
+    : [...list, value];
+}
+
 const BusPanel: React.FC<BusPanelProps> = ({
   data,
   selectedStopId,
   selectedTrip,
   tripDetail,
+  selectedJourney,
   zoom,
+  timeOffset,
+  kiosk = false,
   onClose,
   onSelectBus,
   onFlyToStop,
 }) => {
   const [currentTime, setCurrentTime] = useState("");
   const contentRef = useRef<HTMLDivElement>(null);
+  // 表示言語を切り替えたときに再描画する（一覧は次の時刻更新で作り直す）
+  useLocale();
+
+  // リアルタイム情報（GTFS-RT）の遅れ。タイムトラベル中は使わない
+  const realtime = useSyncExternalStore(subscribeRealtime, getRealtimeState);
+  const getDelay = useCallback(
+    (tripId: string, stopId: string) =>
+      timeOffset ? null : getTripDelay(realtime, tripId, stopId),
+    [realtime, timeOffset],
+  );
 
-  // 時刻更新用タイマー
+  // 時刻更新用タイマー（タイムトラベル中は指定日時を基準に進める）
   useEffect(() => {
     const updateTime = () => {
-      setCurrentTime(new Date().toTimeString().split(" ")[0]);
+      setCurrentTime(toTimeString(getDisplayNow(timeOffset)));
     };
     updateTime();
     const interval = setInterval(updateTime, 2000);
     return () => clearInterval(interval);
-  }, []);
+  }, [timeOffset]);
+
+  // お気に入り（バス停モードではバス停、便詳細モードでは系統+行先を登録）
+  const [favorites, setFavorites] = useState<Favorite[]>(getFavorites);
+  const favoriteCandidate = useMemo((): Favorite | null => {
+    if (selectedTrip && tripDetail) {
+      const trip = tripDetail.trip;
+      const stopId = selectedTrip.highlightId || trip.stops[0]?.stop_id;
+      const stop = stopId ? tripDetail.stops[stopId] : undefined;
+      if (!stopId || !stop) return null;
+      return {
+        type: "route",
+        routeId: tripDetail.route_id,
+        headsign: trip.headsign,
+        stopId,
+        name: stop.name,
+      };
+    }
+    if (selectedStopId && !selectedTrip && data.stops[selectedStopId]) {
+      return {
+        type: "stop",
+        stopId: selectedStopId,
+        name: data.stops[selectedStopId].name,
+      };
+    }
+    return null;
+  }, [data.stops, selectedStopId, selectedTrip, tripDetail]);
+  const isFavorite =
+    !!favoriteCandidate &&
+    favorites.some(
+      (f) => getFavoriteKey(f) === getFavoriteKey(favoriteCandidate),
+    );
+
+  // 紙の時刻表形式で表示するバス停（開いたときの対象を固定する）
+  const [gridTarget, setGridTarget] = useState<{
+    stopIds: string[];
+    title: string;
+  } | null>(null);
+
+  // 発車案内板（同名バス停の全のりばをまとめて表示）
+  const [isBoardOpen, setIsBoardOpen] = useState(false);
+  const boardStop =
+    selectedStopId && !selectedTrip ? data.stops[selectedStopId] : undefined;
+  const boardStopIds = useMemo(
+    () =>
+      boardStop
+        ? Object.keys(data.stops).filter(
+            (id) => data.stops[id].name === boardStop.name,
+          )
+        : [],
+    [data.stops, boardStop],
+  );
 
+  // 系統・行先の絞り込み条件（同名バス停単位で localStorage に保存）
+  const filterStopKey =
+    selectedStopId && !selectedTrip
+      ? data.stops[selectedStopId]?.name || null
+      : null;
+  const [routeFilterState, setRouteFilterState] = useState<{
+    stopKey: string | null;
+    filter: StopRouteFilter;
+  }>({ stopKey: null, filter: { routeIds: [], headsigns: [] } });
+  const routeFilter = useMemo(
+    () =>
+      routeFilterState.stopKey === filterStopKey
+        ? routeFilterState.filter
+        : filterStopKey
+          ? getStopRouteFilter(filterStopKey)
+          : { routeIds: [], headsigns: [] },
+    [routeFilterState, filterStopKey],
+  );
+  const updateRouteFilter = useCallback(
+    (filter: StopRouteFilter) => {
+      if (!filterStopKey) return;
+      setRouteFilterState({ stopKey: filterStopKey, filter });
+      saveStopRouteFilter(filterStopKey, filter);
+    },
+    [filterStopKey],
+  );
+
+  // 絞り込みを変えた場合も次の便の位置へスクロールし直す
   const currentSelectionKey = selectedTrip
     ? `trip-${selectedTrip.tripId}`
-    : `stop-${selectedStopId}`;
+    : selectedStopId
+      ? `stop-${selectedStopId}-${routeFilter.routeIds.join(",")}-${routeFilter.headsigns.join(",")}`
+      : `journey-${selectedJourney?.departure}`;
 
   const panelData = useMemo(() => {
     let title = "";
     let via = "";
     let office = "";
     let items: React.ReactNode[] = [];
+    let filterBar: React.ReactNode = null;
+    let stopIds: string[] = [];
     let initialTargetId: string | null = null;
+    // スクリーンリーダーに知らせる次の発車・停車
+    let announcement = "";
 
     if (selectedTrip && tripDetail) {
       // 便詳細表示モード（サーバーから取得したデータを使用）
       const trip = tripDetail.trip;
       const routeName = tripDetail.route_name;
-      via = trip.via ? `${trip.via} 経由` : "";
+      via = trip.via ? t("via", { via: trip.via }) : "";
       title = `[${routeName}] ${formatHeadsign(trip.headsign)}`;
       office = tripDetail.office_name || "";
 
+      // 前日の運行日の深夜便なら、現在時刻を前日基準（24 時以降）に揃えて比較する
+      // GTFS の時刻は "8:15:00" のように桁がそろわないことがあるため秒数で比べる
+      const serviceDay = getTripServiceDay(
+        trip,
+        data.calendar,
+        data.extra,
+        getDisplayNow(timeOffset),
+      );
+      const tripSec = timeToSec(currentTime) - serviceDay.dayOffset * DAY_SEC;
+
+      const next = trip.stops.find((st) => timeToSec(st.time) > tripSec);
       let nextStopId = selectedTrip.highlightId;
-      if (!selectedTrip.highlightId) {
-        const next = trip.stops.find((st) => st.time > currentTime);
-        if (next) nextStopId = next.stop_id;
-      }
+      if (!selectedTrip.highlightId && next) nextStopId = next.stop_id;
       initialTargetId = nextStopId ? `stop-${nextStopId}` : null;
+      const nextStop = next && tripDetail.stops[next.stop_id];
+      if (next && nextStop) {
+        announcement = `${t("panel.nextStop")} ${formatServiceTime(next.time)} ${translateName(nextStop.name)}`;
+      }
 
       items = trip.stops.map((st, index) => {
         const s = tripDetail.stops[st.stop_id];
-        const isPast = st.time < currentTime;
+        const isPast = timeToSec(st.time) < tripSec;
         const isHighlight = st.stop_id === selectedTrip.highlightId;
         const isNextStop =
           !selectedTrip.highlightId && st.stop_id === nextStopId;
         const cls = `item-row ${isPast ? "past" : "future"} ${isHighlight ? "highlight" : ""} ${isNextStop ? "next-stop" : ""}`;
+        const delay = isPast ? null : getDelay(selectedTrip.tripId, st.stop_id);
 
         return (
-          <div
+          <button
             key={index}
+            type="button"
             id={`stop-${st.stop_id}`}
             className={cls}
+            aria-label={joinLabel([
+              formatServiceTime(st.time),
+              s ? translateName(s.name) : t("loading"),
+              s?.platform && t("platform", { platform: s.platform }),
+              delay !== null && describeDelay(delay),
+              isPast && t("panel.passed"),
+              isNextStop && t("panel.nextStop"),
+            ])}
             onClick={(e) => {
               e.stopPropagation();
               if (s) onFlyToStop(s.lng, s.lat);
             }}
           >
-            <div className="item-time">{st.time.substring(0, 5)}</div>
-            <div className="item-info">
-              {s ? s.name : "..."}
+            <span className="item-time">
+              {formatServiceTime(st.time)}
+              <DelayBadge delay={delay} />
+            </span>
+            <span className="item-info">
+              {s ? translateName(s.name) : "..."}
               {s?.platform && (
-                <div className="item-platform">{s.platform}番のりば</div>
+                <span className="item-platform">
+                  {t("platform", { platform: s.platform })}
+                </span>
               )}
-            </div>
-          </div>
+            </span>
+          </button>
         );
       });
     } else if (selectedTrip && !tripDetail) {
       // 便詳細読み込み中
       items = [
         <div key="loading" className="empty-message">
-          読み込み中...
+          {t("loading")}
         </div>,
       ];
     } else if (selectedStopId) {
@@ -116,88 +304,336 @@ const BusPanel: React.FC<BusPanelProps> = ({
             )
           : [selectedStopId];
 
+        stopIds = targetIds;
         via = "";
         title =
-          stop.name +
-          (!isGrouped && stop.platform ? ` (${stop.platform}番のりば)` : "");
-        office = "時刻表";
+          translateName(stop.name) +
+          (!isGrouped && stop.platform
+            ? ` (${t("platform", { platform: stop.platform })})`
+            : "");
+        office = t("panel.timetable");
 
+        const displayNow = getDisplayNow(timeOffset);
+        const nowSec = timeToSec(currentTime);
+        const calendar = getServiceCalendar(data.calendar, data.extra);
         const allArrivals: Arrival[] = [];
+        // このバス停に停車する便のサービス（運行がない日の次の運行日の表示用）
+        const stopServiceIds = new Set<string>();
         Object.keys(data.timetables).forEach((rid) => {
           Object.keys(data.timetables[rid]).forEach((tid) => {
             const trip = data.timetables[rid][tid];
-            if (
-              !isServiceRunningToday(trip.service_id, data.calendar, data.extra)
-            )
-              return;
             const st = trip.stops.find((s) => targetIds.includes(s.stop_id));
-            if (st) {
+            if (!st) return;
+            stopServiceIds.add(trip.service_id);
+            // 当日の運行日の便と、前日の運行日のうち 0 時以降に停車する深夜便
+            // 時刻は当日基準に揃える（当日の深夜便は 24 時以降のまま）
+            getActiveServiceDays(displayNow).forEach((day) => {
+              if (day.dayOffset < 0 && timeToSec(st.time) < DAY_SEC) return;
+              if (!calendar.isRunning(trip.service_id, day.date)) return;
+              const time = shiftServiceTime(st.time, day.dayOffset);
               const pole = data.stops[st.stop_id];
               allArrivals.push({
-                time: st.time,
+                time,
                 route_id: rid,
                 trip_id: tid,
                 headsign: trip.headsign,
                 via: trip.via,
                 platform: pole?.platform || "",
                 actual_stop_id: st.stop_id,
-                is_past: st.time < currentTime,
+                is_past: timeToSec(time) < nowSec,
               });
-            }
+            });
           });
         });
 
+        // 停車する系統（路線番号順）と、選択中の系統の行先
+        const routeIds = [...new Set(allArrivals.map((a) => a.route_id))].sort(
+          (a, b) =>
+            (data.routes[a]?.short_name || a).localeCompare(
+              data.routes[b]?.short_name || b,
+              "ja",
+              { numeric: true },
+            ),
+        );
+        const selectedRouteIds = routeFilter.routeIds.filter((rid) =>
+          routeIds.includes(rid),
+        );
+        const routeArrivals = allArrivals.filter(
+          (a) =>
+            selectedRouteIds.length === 0 ||
+            selectedRouteIds.includes(a.route_id),
+        );
+        const headsigns = [...new Set(routeArrivals.map((a) => a.headsign))];
+        const selectedHeadsigns = routeFilter.headsigns.filter((h) =>
+          headsigns.includes(h),
+        );
+        const arrivals = routeArrivals.filter(
+          (a) =>
+            selectedHeadsigns.length === 0 ||
+            selectedHeadsigns.includes(a.headsign),
+        );
+
+        if (routeIds.length > 1 || headsigns.length > 1) {
+          filterBar = (
+            <div className="route-filter">
+              <div className="route-filter-row">
+                {routeIds.map((rid) => {
+                  const isSelected = selectedRouteIds.includes(rid);
+                  const color = "#" + (data.routes[rid]?.color || "00703c");
+                  return (
+                    <button
+                      key={rid}
+                      type="button"
+                      className={`route-chip ${isSelected ? "selected" : ""}`}
+                      style={
+                        isSelected
+                          ? { background: color, borderColor: color }
+                          : { color, borderColor: color }
+                      }
+                      onClick={() =>
+                        updateRouteFilter({
+                          routeIds: toggleValue(selectedRouteIds, rid),
+                          headsigns: selectedHeadsigns,
+                        })
+                      }
+                    >
+                      {data.routes[rid]?.short_name || rid}
+                    </button>
+                  );
+                })}
+              </div>
+              {headsigns.length > 1 && (
+                <div className="route-filter-row">
+                  {headsigns.map((h) => (
+                    <button
+                      key={h}
+                      type="button"
+                      className={`headsign-chip ${selectedHeadsigns.includes(h) ? "selected" : ""}`}
+                      onClick={() =>
+                        updateRouteFilter({
+                          routeIds: selectedRouteIds,
+                          headsigns: toggleValue(selectedHeadsigns, h),
+                        })
+                      }
+                    >
+                      {formatHeadsign(h)}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        }
+
         if (allArrivals.length === 0) {
+          // 翌日以降で最も早い運行日
+          const tomorrow = new Date(displayNow.getTime() + 24 * 60 * 60 * 1000);
+          const nextDate = [...stopServiceIds]
+            .map((sid) => calendar.getNextServiceDate(sid, tomorrow, 60))
+            .filter((d) => d !== null)
+            .sort((a, b) => a.getTime() - b.getTime())[0];
+          items = [
+            <div key="empty" className="empty-message">
+              {t(timeOffset ? "panel.noServiceOnDate" : "panel.noServiceToday")}
+              {nextDate &&
+                t("panel.nextServiceDate", { date: formatMonthDay(nextDate) })}
+            </div>,
+          ];
+        } else if (arrivals.length === 0) {
           items = [
             <div key="empty" className="empty-message">
-              本日の運行はありません
+              {t("panel.noFilteredService")}
             </div>,
           ];
         } else {
-          allArrivals.sort((a, b) => a.time.localeCompare(b.time));
+          arrivals.sort((a, b) => timeToSec(a.time) - timeToSec(b.time));
           let firstFutureFound = false;
-          items = allArrivals.map((bus, idx) => {
+          items = arrivals.map((bus, idx) => {
             let isNext = false;
+            const routeName = t("route", {
+              route: data.routes[bus.route_id]?.short_name || bus.route_id,
+            });
+            // 発車済みの便には遅れを表示しない
+            const delay = bus.is_past
+              ? null
+              : getDelay(bus.trip_id, bus.actual_stop_id);
+            const label = joinLabel([
+              formatServiceTime(bus.time),
+              routeName,
+              formatHeadsign(bus.headsign),
+              bus.via && t("via", { via: bus.via }),
+              bus.platform && t("platform", { platform: bus.platform }),
+              delay !== null && describeDelay(delay),
+            ]);
             if (!bus.is_past && !firstFutureFound) {
               firstFutureFound = true;
               isNext = true;
               initialTargetId = `arrival-${idx}`;
+              announcement = `${t("panel.nextDeparture")} ${label}`;
             }
             const cls = `item-row ${bus.is_past ? "past" : "future"} ${isNext ? "next-stop" : ""}`;
             return (
-              <div
+              <button
                 key={idx}
+                type="button"
                 id={`arrival-${idx}`}
                 className={cls}
+                aria-label={joinLabel([
+                  label,
+                  bus.is_past && t("panel.departed"),
+                  isNext && t("panel.nextDeparture"),
+                ])}
                 onClick={() =>
                   onSelectBus(bus.trip_id, bus.route_id, bus.actual_stop_id)
                 }
               >
-                <div className="item-time">{bus.time.substring(0, 5)}</div>
-                <div className="item-info">
-                  {bus.via && <div className="item-via">{bus.via} 経由</div>}
-                  {(data.routes[bus.route_id]?.short_name || bus.route_id) +
-                    "系統 " +
-                    formatHeadsign(bus.headsign)}
+                <span className="item-time">
+                  {formatServiceTime(bus.time)}
+                  <DelayBadge delay={delay} />
+                </span>
+                <span className="item-info">
+                  {bus.via && (
+                    <span className="item-via">
+                      {t("via", { via: bus.via })}
+                    </span>
+                  )}
+                  {routeName + " " + formatHeadsign(bus.headsign)}
                   {bus.platform && (
-                    <div className="item-platform">{bus.platform}番のりば</div>
+                    <span className="item-platform">
+                      {t("platform", { platform: bus.platform })}
+                    </span>
                   )}
-                </div>
-              </div>
+                </span>
+              </button>
             );
           });
         }
       }
+    } else if (selectedJourney) {
+      // 経路検索結果の表示モード
+      const legs = selectedJourney.legs;
+      const stops = selectedJourney.stops;
+      const first = stops[legs[0].from_stop_id];
+      const last = stops[legs[legs.length - 1].to_stop_id];
+      title = `${first ? translateName(first.name) : "..."} → ${last ? translateName(last.name) : "..."}`;
+      via = t("journey.times", {
+        departure: formatServiceTime(selectedJourney.departure),
+        arrival: formatServiceTime(selectedJourney.arrival),
+      });
+      office =
+        selectedJourney.transfers === 0
+          ? t("journey.direct")
+          : t("journey.transfers", { count: selectedJourney.transfers });
+
+      legs.forEach((leg, idx) => {
+        const from = stops[leg.from_stop_id];
+        const to = stops[leg.to_stop_id];
+        const routeName = t("route", {
+          route: data.routes[leg.route_id]?.short_name || leg.route_id,
+        });
+        const fromName = from ? translateName(from.name) : "...";
+        const toName = to ? translateName(to.name) : "...";
+
+        if (idx > 0) {
+          items.push(
+            <div key={`walk-${idx}`} className="item-row journey-transfer">
+              <div className="item-time">
+                <Footprints size={18} />
+              </div>
+              <div className="item-info">
+                {leg.walk_meters > 0
+                  ? t("journey.walkTransfer", {
+                      meters: leg.walk_meters,
+                      minutes: Math.max(1, Math.round(leg.walk_meters / 80)),
+                    })
+                  : t("journey.samePlatform")}
+              </div>
+            </div>,
+          );
+        }
+
+        items.push(
+          <button
+            key={`board-${idx}`}
+            type="button"
+            className="item-row future"
+            aria-label={joinLabel([
+              formatServiceTime(leg.departure),
+              t("journey.board", { stop: from ? fromName : t("loading") }),
+              routeName,
+              formatHeadsign(leg.headsign),
+              leg.via && t("via", { via: leg.via }),
+              from?.platform && t("platform", { platform: from.platform }),
+            ])}
+            onClick={() =>
+              onSelectBus(leg.trip_id, leg.route_id, leg.from_stop_id)
+            }
+          >
+            <span className="item-time">
+              {formatServiceTime(leg.departure)}
+            </span>
+            <span className="item-info">
+              {leg.via && (
+                <span className="item-via">{t("via", { via: leg.via })}</span>
+              )}
+              {t("journey.board", { stop: fromName })}
+              <span className="item-route">
+                {routeName + " " + formatHeadsign(leg.headsign)}
+              </span>
+              {from?.platform && (
+                <span className="item-platform">
+                  {t("platform", { platform: from.platform })}
+                </span>
+              )}
+            </span>
+          </button>,
+          <button
+            key={`alight-${idx}`}
+            type="button"
+            className="item-row future"
+            aria-label={joinLabel([
+              formatServiceTime(leg.arrival),
+              t("journey.alight", { stop: to ? toName : t("loading") }),
+              to?.platform && t("platform", { platform: to.platform }),
+            ])}
+            onClick={() => to && onFlyToStop(to.lng, to.lat)}
+          >
+            <span className="item-time">{formatServiceTime(leg.arrival)}</span>
+            <span className="item-info">
+              {t("journey.alight", { stop: toName })}
+              {to?.platform && (
+                <span className="item-platform">
+                  {t("platform", { platform: to.platform })}
+                </span>
+              )}
+            </span>
+          </button>,
+        );
+      });
     }
 
-    return { items, title, via, office, initialTargetId };
+    return {
+      items,
+      filterBar,
+      stopIds,
+      title,
+      via,
+      office,
+      initialTargetId,
+      announcement,
+    };
   }, [
     data,
     selectedStopId,
     selectedTrip,
     tripDetail,
+    selectedJourney,
     currentTime,
     zoom,
+    timeOffset,
+    routeFilter,
+    updateRouteFilter,
+    getDelay,
     onSelectBus,
     onFlyToStop,
   ]);
@@ -222,20 +658,65 @@ const BusPanel: React.FC<BusPanelProps> = ({
     }
   }, [currentSelectionKey, panelData.initialTargetId, selectedTrip]);
 
-  const isOpen = !!(selectedStopId || selectedTrip);
+  const isOpen = !!(selectedStopId || selectedTrip || selectedJourney);
 
   return (
-    <div id="bottom-panel" className={isOpen ? "open" : ""}>
+    <div
+      id="bottom-panel"
+      className={isOpen ? "open" : ""}
+      role="region"
+      aria-label={panelData.title || undefined}
+      inert={!isOpen}
+    >
       <button
         className="close-btn"
         onClick={(e) => {
           e.stopPropagation();
           onClose();
         }}
-        title="閉じる"
+        title={t("close")}
       >
         <X size={24} />
       </button>
+      {boardStop && (
+        <button
+          className="board-btn"
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsBoardOpen(true);
+          }}
+          title={t("panel.board")}
+        >
+          <MonitorPlay size={22} />
+        </button>
+      )}
+      {selectedStopId && !selectedTrip && panelData.stopIds.length > 0 && (
+        <button
+          className="timetable-btn"
+          onClick={(e) => {
+            e.stopPropagation();
+            setGridTarget({
+              stopIds: panelData.stopIds,
+              title: panelData.title,
+            });
+          }}
+          title={t("panel.timetableGrid")}
+        >
+          <CalendarDays size={22} />
+        </button>
+      )}
+      {favoriteCandidate && (
+        <button
+          className={`favorite-btn ${isFavorite ? "active" : ""}`}
+          onClick={(e) => {
+            e.stopPropagation();
+            setFavorites(toggleFavorite(favoriteCandidate));
+          }}
+          title={t(isFavorite ? "favorite.remove" : "favorite.add")}
+        >
+          <Star size={22} fill={isFavorite ? "currentColor" : "none"} />
+        </button>
+      )}
       <div className="panel-header">
         {panelData.via && <div className="panel-via">{panelData.via}</div>}
         <div className="panel-title">{panelData.title}</div>
@@ -243,9 +724,34 @@ const BusPanel: React.FC<BusPanelProps> = ({
           <div className="office-info">{panelData.office}</div>
         )}
       </div>
+      {panelData.filterBar}
       <div className="panel-content" ref={contentRef}>
         {panelData.items}
       </div>
+      <div className="visually-hidden" role="status">
+        {panelData.announcement}
+      </div>
+      {gridTarget && (
+        <StopTimetableGrid
+          data={data}
+          stopIds={gridTarget.stopIds}
+          title={gridTarget.title}
+          timeOffset={timeOffset}
+          onSelectBus={onSelectBus}
+          onClose={() => setGridTarget(null)}
+        />
+      )}
+      {boardStop && (isBoardOpen || kiosk) && (
+        <DepartureBoard
+          data={data}
+          stopIds={boardStopIds}
+          title={translateName(boardStop.name)}
+          currentTime={currentTime}
+          timeOffset={timeOffset}
+          kiosk={kiosk}
+          onClose={() => setIsBoardOpen(false)}
+        />
+      )}
     </div>
   );
 };
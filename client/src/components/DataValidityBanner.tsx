@@ -0,0 +1,85 @@
+import React, { useState } from "react";
+import { TriangleAlert, X } from "lucide-react";
+import type { EssentialData } from "../types";
+import { formatMonthDay, getDisplayNow } from "../utils";
+import type { CalendarValidity } from "../serviceCalendar";
+import { formatYmd, getServiceCalendar } from "../serviceCalendar";
+import { t, useLocale } from "../i18n";
+
+interface DataValidityBannerProps {
+  data: EssentialData;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+}
+
+/** 有効期間外である理由に応じた警告文 */
+function describeValidity(validity: CalendarValidity): string {
+  const { validFrom, validUntil, isExpired, isNotYetValid } = validity;
+  if (isExpired && validUntil) {
+    return t("validity.expired", { date: formatYmd(validUntil) });
+  }
+  if (isNotYetValid && validFrom) {
+    return t("validity.notYetValid", { date: formatYmd(validFrom) });
+  }
+  return t("validity.outOfRange");
+}
+
+/**
+ * 表示中の日付が時刻表データの有効期間外である場合の警告
+ * 期限切れのサービスは曜日パターンのまま運行しているとみなして表示している旨と、データの版を伝える
+ */
+const DataValidityBanner: React.FC<DataValidityBannerProps> = ({
+  data,
+  timeOffset,
+}) => {
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+  useLocale();
+
+  const validity = getServiceCalendar(data.calendar, data.extra).getValidity(
+    getDisplayNow(timeOffset),
+  );
+  const { validFrom, validUntil, feedVersion, generatedAt } = validity;
+
+  if (
+    !validity.isOutOfRange &&
+    !validity.isExpired &&
+    !validity.isNotYetValid
+  ) {
+    return null;
+  }
+  // 同じデータの同じ理由の警告は、閉じたら再表示しない
+  const key = [
+    validity.isExpired ? "expired" : validity.isNotYetValid ? "early" : "gap",
+    feedVersion,
+    validFrom,
+    validUntil,
+  ].join("/");
+  if (dismissedKey === key) return null;
+
+  const details = [
+    feedVersion && t("validity.feedVersion", { version: feedVersion }),
+    generatedAt &&
+      t("validity.generatedAt", {
+        date: formatMonthDay(new Date(generatedAt)),
+      }),
+  ].filter((d) => !!d);
+
+  return (
+    <div className="data-validity-banner">
+      <TriangleAlert size={16} />
+      <span>
+        {describeValidity(validity)}
+        {details.length > 0 && `（${details.join(" ・ ")}）`}
+      </span>
+      <span
+        className="data-validity-banner-close"
+        onClick={() => setDismissedKey(key)}
+        title={t("close")}
+      >
+        <X size={16} />
+      </span>
+    </div>
+  );
+};
+
+export default DataValidityBanner;
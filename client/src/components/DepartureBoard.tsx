@@ -0,0 +1,183 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { X } from "lucide-react";
+import type { AppData, Arrival, TimetablesData } from "../types";
+import { fetchStopTimetable } from "../dataLoader";
+import { t } from "../i18n";
+import {
+  formatHeadsign,
+  formatServiceTime,
+  getDisplayNow,
+  getUpcomingDepartures,
+  timeToSec,
+} from "../utils";
+
+interface DepartureBoardProps {
+  data: AppData;
+  /** 対象のバス停（のりば）ID。同名バス停の全のりば */
+  stopIds: string[];
+  title: string;
+  /** BusPanel の時刻更新タイマーの現在時刻 ("HH:MM:SS") */
+  currentTime: string;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  /** のりばごとに表示する発車予定の件数 */
+  limit?: number;
+  /** キオスク表示（閉じるボタンを出さない） */
+  kiosk?: boolean;
+  onClose: () => void;
+}
+
+/** のりばごとの発車予定 */
+interface PlatformDepartures {
+  platform: string;
+  departures: Arrival[];
+}
+
+/** 発車までの残り時間の表示 */
+function formatCountdown(time: string, currentTime: string): string {
+  const minutes = Math.floor((timeToSec(time) - timeToSec(currentTime)) / 60);
+  return minutes < 1 ? t("board.soon") : t("board.countdown", { minutes });
+}
+
+/**
+ * 発車案内板（のりばごとの次の発車予定と残り時間）
+ * 画面全体に表示し、BusPanel の時刻更新に合わせて残り時間を更新する
+ */
+const DepartureBoard: React.FC<DepartureBoardProps> = ({
+  data,
+  stopIds,
+  title,
+  currentTime,
+  timeOffset,
+  limit = 3,
+  kiosk = false,
+  onClose,
+}) => {
+  const [timetables, setTimetables] = useState<TimetablesData | null>(null);
+
+  // 地図の移動でバス停データが更新されても取得し直さないよう、ID の並びで判定する
+  const stopKey = stopIds.join("|");
+
+  // 全のりばの時刻表を取得してまとめる
+  useEffect(() => {
+    let cancelled = false;
+    const loadTimetables = async () => {
+      try {
+        const results = await Promise.all(
+          stopKey.split("|").map(fetchStopTimetable),
+        );
+        const merged: TimetablesData = {};
+        results.forEach((r) => {
+          Object.keys(r.timetables).forEach((rid) => {
+            merged[rid] = { ...(merged[rid] || {}), ...r.timetables[rid] };
+          });
+        });
+        if (!cancelled) setTimetables(merged);
+      } catch (e) {
+        console.error("時刻表の取得に失敗しました:", e);
+      }
+    };
+    loadTimetables();
+    return () => {
+      cancelled = true;
+    };
+  }, [stopKey]);
+
+  // のりば番号順に、のりばごとの発車予定を求める
+  const platforms = useMemo((): PlatformDepartures[] | null => {
+    if (!timetables || !currentTime) return null;
+    const now = getDisplayNow(timeOffset);
+    const source = { ...data, timetables };
+
+    const groups = new Map<string, string[]>();
+    stopKey.split("|").forEach((id) => {
+      const platform = data.stops[id]?.platform || "";
+      if (!groups.has(platform)) groups.set(platform, []);
+      groups.get(platform)!.push(id);
+    });
+
+    return [...groups.keys()]
+      .sort((a, b) => a.localeCompare(b, "ja", { numeric: true }))
+      .map((platform) => ({
+        platform,
+        departures: getUpcomingDepartures(
+          source,
+          groups.get(platform)!,
+          now,
+          limit,
+        ),
+      }));
+  }, [data, timetables, stopKey, currentTime, timeOffset, limit]);
+
+  return createPortal(
+    <div className={`departure-board ${kiosk ? "kiosk" : ""}`}>
+      <div className="departure-board-header">
+        <div className="departure-board-title">{title}</div>
+        <div className="departure-board-clock">
+          {currentTime.substring(0, 5)}
+        </div>
+        {!kiosk && (
+          <button
+            className="departure-board-close"
+            onClick={onClose}
+            title={t("close")}
+          >
+            <X size={28} />
+          </button>
+        )}
+      </div>
+
+      <div className="departure-board-content">
+        {!platforms && <div className="empty-message">{t("loading")}</div>}
+        {platforms?.map((p) => (
+          <div key={p.platform} className="departure-board-platform">
+            <div className="departure-board-platform-name">
+              {p.platform
+                ? t("platform", { platform: p.platform })
+                : t("board.platform")}
+            </div>
+            {p.departures.length === 0 && (
+              <div className="departure-board-empty">
+                {t("board.noDepartures")}
+              </div>
+            )}
+            {p.departures.map((d) => (
+              <div
+                key={`${d.route_id}/${d.trip_id}/${d.time}`}
+                className="departure-board-row"
+              >
+                <span
+                  className="route-badge"
+                  style={{
+                    background:
+                      "#" + (data.routes[d.route_id]?.color || "00703c"),
+                  }}
+                >
+                  {data.routes[d.route_id]?.short_name || d.route_id}
+                </span>
+                <div className="departure-board-headsign">
+                  {formatHeadsign(d.headsign)}
+                  {d.via && (
+                    <div className="departure-board-via">
+                      {t("via", { via: d.via })}
+                    </div>
+                  )}
+                </div>
+                <div className="departure-board-time">
+                  <div className="departure-board-countdown">
+                    {formatCountdown(d.time, currentTime)}
+                  </div>
+                  {t("departsAt", { time: formatServiceTime(d.time) })}
+                </div>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default DepartureBoard;
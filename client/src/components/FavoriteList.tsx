@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from "react";
+import { Star, X } from "lucide-react";
+import type { EssentialData, StopsData, TimetablesData } from "../types";
+import type { Favorite } from "../utils";
+import {
+  formatHeadsign,
+  formatServiceTime,
+  getDisplayNow,
+  getFavoriteKey,
+  getSameNameStopIds,
+  getUpcomingDepartures,
+} from "../utils";
+import { t, translateName } from "../i18n";
+import { fetchStopTimetable } from "../dataLoader";
+
+interface FavoriteListProps {
+  data: EssentialData;
+  /** 全バス停データ（同名バス停の検索用） */
+  stops: StopsData;
+  favorites: Favorite[];
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  /** 各お気に入りの要素ID（検索欄の候補としてキーボードで選ぶため） */
+  getOptionId: (index: number) => string;
+  /** キーボードで選択中の候補の位置（お気に入り以外の候補なら範囲外） */
+  activeIndex: number;
+  onSelect: (fav: Favorite) => void;
+  onRemove: (fav: Favorite) => void;
+}
+
+/** 1件あたりに表示する発車予定の件数 */
+const DEPARTURE_LIMIT = 3;
+
+/**
+ * 検索ボックスに表示するお気に入り一覧（次の発車予定つき）
+ */
+const FavoriteList: React.FC<FavoriteListProps> = ({
+  data,
+  stops,
+  favorites,
+  timeOffset,
+  getOptionId,
+  activeIndex,
+  onSelect,
+  onRemove,
+}) => {
+  // 同名バス停ごとの時刻表（全のりば分をまとめたもの）
+  const [timetables, setTimetables] = useState<Record<string, TimetablesData>>(
+    {},
+  );
+
+  // お気に入りのバス停の時刻表を取得
+  useEffect(() => {
+    let cancelled = false;
+    const names = [...new Set(favorites.map((f) => f.name))];
+
+    const loadTimetables = async () => {
+      const entries = await Promise.all(
+        names.map(async (name) => {
+          const merged: TimetablesData = {};
+          try {
+            const results = await Promise.all(
+              getSameNameStopIds(stops, name).map((id) =>
+                fetchStopTimetable(id),
+              ),
+            );
+            results.forEach((r) => {
+              Object.keys(r.timetables).forEach((rid) => {
+                merged[rid] = { ...(merged[rid] || {}), ...r.timetables[rid] };
+              });
+            });
+          } catch (e) {
+            console.error("お気に入りの時刻表の取得に失敗しました:", e);
+          }
+          return [name, merged] as const;
+        }),
+      );
+      if (!cancelled) setTimetables(Object.fromEntries(entries));
+    };
+    loadTimetables();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [favorites, stops]);
+
+  const now = getDisplayNow(timeOffset);
+
+  return (
+    <>
+      {favorites.map((fav, index) => {
+        const stopIds = getSameNameStopIds(stops, fav.name);
+        const stopTimetables = timetables[fav.name];
+        const departures = stopTimetables
+          ? getUpcomingDepartures(
+              { ...data, stops, timetables: stopTimetables },
+              stopIds,
+              now,
+              DEPARTURE_LIMIT,
+              fav.type === "route"
+                ? (rid, trip) =>
+                    rid === fav.routeId && trip.headsign === fav.headsign
+                : undefined,
+            )
+          : null;
+        const routeName =
+          fav.type === "route"
+            ? data.routes[fav.routeId]?.short_name || fav.routeId
+            : "";
+
+        return (
+          <div
+            key={getFavoriteKey(fav)}
+            id={getOptionId(index)}
+            role="option"
+            aria-selected={index === activeIndex}
+            aria-keyshortcuts="Delete"
+            className={`search-item ${index === activeIndex ? "active" : ""}`}
+            onClick={() => onSelect(fav)}
+          >
+            <Star size={20} className="favorite-icon" />
+            <div className="search-item-info">
+              <div className="search-item-name">
+                {fav.type === "route"
+                  ? `[${routeName}] ${formatHeadsign(fav.headsign)}`
+                  : translateName(fav.name)}
+              </div>
+              {fav.type === "route" && (
+                <div className="search-item-yomi">
+                  {t("favorite.from", { name: translateName(fav.name) })}
+                </div>
+              )}
+              <div className="favorite-departures">
+                {departures === null
+                  ? t("loading")
+                  : departures.length === 0
+                    ? t(
+                        timeOffset
+                          ? "favorite.endedOnDate"
+                          : "favorite.endedToday",
+                      )
+                    : departures
+                        .map((d) =>
+                          fav.type === "route"
+                            ? formatServiceTime(d.time)
+                            : `${formatServiceTime(d.time)} ${data.routes[d.route_id]?.short_name || d.route_id} ${formatHeadsign(d.headsign)}`,
+                        )
+                        .join(" / ")}
+              </div>
+            </div>
+            <span
+              className="delete-btn"
+              aria-hidden="true"
+              title={t("favorite.remove")}
+              onClick={(e) => {
+                e.stopPropagation();
+                onRemove(fav);
+              }}
+            >
+              <X size={18} />
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+};
+
+export default FavoriteList;
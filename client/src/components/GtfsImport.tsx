@@ -0,0 +1,166 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { FileUp, X } from "lucide-react";
+import type { AppData } from "../types";
+import type { GtfsDataset } from "../gtfsParser";
+import { mergeFeeds, parseGtfs, toAppData } from "../gtfsParser";
+import { readGtfsZip } from "../gtfsZip";
+import { t, useLocale } from "../i18n";
+
+interface GtfsImportProps {
+  /** GTFS zip から作ったデータを表示に使う */
+  onImport: (data: AppData) => void;
+}
+
+/** 読み込みの状態 */
+type ImportStatus =
+  | { kind: "loading"; message: string }
+  | { kind: "done"; message: string }
+  | { kind: "error"; message: string };
+
+/** 複数のファイルを読み込む場合の、ファイルごとのデータの識別子 */
+function toFeedIds(files: File[]): string[] {
+  const ids: string[] = [];
+  files.forEach((file, i) => {
+    const base = file.name.replace(/\.zip$/i, "").replace(/[^\w-]/g, "");
+    ids.push(!base || ids.includes(base) ? `feed${i + 1}` : base);
+  });
+  return ids;
+}
+
+/** ドラッグ中のデータにファイルが含まれるか */
+function hasFiles(e: DragEvent): boolean {
+  return !!e.dataTransfer && [...e.dataTransfer.types].includes("Files");
+}
+
+/**
+ * GTFS zip の読み込み（ボタンからの選択または画面へのドロップ）
+ * ブラウザ内で展開・変換し、サーバーを使わずに地図で表示する
+ * 複数の zip（事業者ごとのデータ）を選ぶと、ID を区別したうえで1つにまとめる
+ */
+const GtfsImport: React.FC<GtfsImportProps> = ({ onImport }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [status, setStatus] = useState<ImportStatus | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+  useLocale();
+
+  const importFiles = useCallback(
+    async (files: File[]) => {
+      const names = files.map((f) => f.name).join(t("listSeparator"));
+      setStatus({ kind: "loading", message: t("import.loading", { names }) });
+      try {
+        const feedIds = files.length > 1 ? toFeedIds(files) : [];
+        const feeds: GtfsDataset[] = [];
+        for (const [i, file] of files.entries()) {
+          const gtfs = await readGtfsZip(await file.arrayBuffer());
+          feeds.push(parseGtfs(gtfs, { feedId: feedIds[i] }));
+        }
+        const data = toAppData(feeds.length > 1 ? mergeFeeds(feeds) : feeds[0]);
+        onImport(data);
+        const version = data.extra.dataset?.feed_version;
+        const agencyCount = Object.keys(data.extra.agencies || {}).length;
+        setStatus({
+          kind: "done",
+          message: t("import.done", {
+            names,
+            details: [
+              version && t("import.version", { version }),
+              agencyCount > 1 && t("import.agencies", { count: agencyCount }),
+              t("import.routes", { count: Object.keys(data.routes).length }),
+              t("import.stops", { count: Object.keys(data.stops).length }),
+            ]
+              .filter((d) => !!d)
+              .join(" ・ "),
+          }),
+        });
+      } catch (e) {
+        console.error("GTFS の読み込みに失敗しました:", e);
+        setStatus({
+          kind: "error",
+          message: t("import.failed", {
+            error: e instanceof Error ? e.message : String(e),
+          }),
+        });
+      }
+    },
+    [onImport],
+  );
+
+  // 画面全体へのドロップを受け付ける
+  useEffect(() => {
+    const handleDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDragging(true);
+    };
+    const handleDragLeave = (e: DragEvent) => {
+      // 画面の外に出たときだけ閉じる（子要素間の移動では relatedTarget がある）
+      if (!e.relatedTarget) setIsDragging(false);
+    };
+    const handleDrop = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDragging(false);
+      const files = [...(e.dataTransfer?.files || [])];
+      if (files.length > 0) importFiles(files);
+    };
+    window.addEventListener("dragover", handleDragOver);
+    window.addEventListener("dragleave", handleDragLeave);
+    window.addEventListener("drop", handleDrop);
+    return () => {
+      window.removeEventListener("dragover", handleDragOver);
+      window.removeEventListener("dragleave", handleDragLeave);
+      window.removeEventListener("drop", handleDrop);
+    };
+  }, [importFiles]);
+
+  return (
+    <>
+      <div id="gtfs-import-container">
+        <div
+          id="gtfs-import-btn"
+          onClick={() => inputRef.current?.click()}
+          title={t("import.open")}
+        >
+          <FileUp size={22} />
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".zip,application/zip"
+          multiple
+          hidden
+          onChange={(e) => {
+            const files = [...(e.target.files || [])];
+            if (files.length > 0) importFiles(files);
+            // 同じファイルを選び直しても読み込めるようにする
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {isDragging && (
+        <div className="gtfs-drop-overlay">
+          <FileUp size={48} />
+          {t("import.drop")}
+        </div>
+      )}
+
+      {status && (
+        <div className={`gtfs-import-status ${status.kind}`}>
+          <span>{status.message}</span>
+          {status.kind !== "loading" && (
+            <span
+              className="gtfs-import-status-close"
+              onClick={() => setStatus(null)}
+              title={t("close")}
+            >
+              <X size={16} />
+            </span>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
+
+export default GtfsImport;
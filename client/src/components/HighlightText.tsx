@@ -0,0 +1,25 @@
+import React from "react";
+import type { TextRange } from "../search";
+
+interface HighlightTextProps {
+  text: string;
+  /** 強調する範囲（重なりのない昇順） */
+  ranges?: TextRange[];
+}
+
+/** 検索で一致した部分を強調して表示する */
+const HighlightText: React.FC<HighlightTextProps> = ({ text, ranges = [] }) => {
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let pos = 0;
+  ranges.forEach(([start, end]) => {
+    if (start > pos) parts.push(text.slice(pos, start));
+    parts.push(<mark key={start}>{text.slice(start, end)}</mark>);
+    pos = end;
+  });
+  if (pos < text.length) parts.push(text.slice(pos));
+  return <>{parts}</>;
+};
+
+export default HighlightText;
@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { ArrowLeft, MapPin, Timer } from "lucide-react";
+import type { EssentialData, StopsData } from "../types";
+import type { StopGroup } from "../utils";
+import type { IsochroneQuery, IsochroneResult } from "../isochrone";
+import type { IsochroneRequest, IsochroneResponse } from "../isochroneWorker";
+import {
+  dateToSec,
+  getDisplayNow,
+  getSameNameStopIds,
+  toTimeString,
+} from "../utils";
+import { ISOCHRONE_BANDS } from "../isochrone";
+import { searchStopGroups } from "../search";
+import { fetchActiveTimetables, fetchAllStops } from "../dataLoader";
+import { t, translateName, useLocale } from "../i18n";
+import HighlightText from "./HighlightText";
+
+interface IsochroneProps {
+  data: EssentialData;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  /** 計算した到達圏を地図に表示する（null で消す） */
+  onShowIsochrone: (result: IsochroneResult | null) => void;
+  onSelectStop: (stopName: string, lat: number, lng: number) => void;
+  onClose: () => void;
+}
+
+/** 選べる所要時間 (分) */
+const BUDGET_OPTIONS = [15, 30, 45, 60];
+
+/** 到達できるバス停（同名バス停をまとめ、最も早く着くのりばの所要時間） */
+interface ReachableGroup {
+  name: string;
+  minutes: number;
+  lat: number;
+  lng: number;
+}
+
+/** Web Worker で到達圏を計算する（計算が終わったら Worker を終了する） */
+function runIsochroneWorker(
+  request: IsochroneRequest,
+): Promise<IsochroneResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(
+      new URL("../isochroneWorker.ts", import.meta.url),
+      { type: "module" },
+    );
+    worker.addEventListener("message", (e: MessageEvent<IsochroneResponse>) => {
+      worker.terminate();
+      if ("error" in e.data) reject(new Error(e.data.error));
+      else resolve(e.data.result);
+    });
+    worker.addEventListener("error", (e) => {
+      worker.terminate();
+      reject(new Error(e.message));
+    });
+    worker.postMessage(request);
+  });
+}
+
+/** 同名バス停ごとに、最も早く着くのりばの所要時間をまとめる */
+function groupReachable(
+  stops: StopsData,
+  reachable: Record<string, number>,
+): ReachableGroup[] {
+  const groups = new Map<string, ReachableGroup>();
+  Object.keys(reachable).forEach((id) => {
+    const stop = stops[id];
+    const minutes = Math.ceil(reachable[id] / 60);
+    const prev = groups.get(stop.name);
+    if (!prev || minutes < prev.minutes) {
+      groups.set(stop.name, {
+        name: stop.name,
+        minutes,
+        lat: stop.lat,
+        lng: stop.lng,
+      });
+    }
+  });
+  return [...groups.values()].sort(
+    (a, b) => a.minutes - b.minutes || a.name.localeCompare(b.name, "ja"),
+  );
+}
+
+/**
+ * 到達圏（出発バス停から◯分でどこまで行けるか）
+ * 表示中の日時から所要時間の上限までに運行する便の時刻表をまとめて取得して計算する
+ */
+const Isochrone: React.FC<IsochroneProps> = ({
+  data,
+  timeOffset,
+  onShowIsochrone,
+  onSelectStop,
+  onClose,
+}) => {
+  const [allStops, setAllStops] = useState<StopsData>({});
+  const [query, setQuery] = useState("");
+  const [origin, setOrigin] = useState<StopGroup | null>(null);
+  const [budgetMinutes, setBudgetMinutes] = useState(30);
+  const [maxTransfers, setMaxTransfers] = useState(1);
+  const [isCalculating, setIsCalculating] = useState(false);
+  const [result, setResult] = useState<{
+    departure: string;
+    budgetMinutes: number;
+    groups: ReachableGroup[];
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 計算のたびに増やし、古い計算の結果を捨てる
+  const runRef = useRef(0);
+  useLocale();
+
+  // 初回マウント時に全バス停データを取得してキャッシュ
+  useEffect(() => {
+    const loadAllStops = async () => {
+      try {
+        const stops = await fetchAllStops();
+        setAllStops(stops);
+      } catch (e) {
+        console.error("全バス停データの取得に失敗しました:", e);
+      }
+    };
+    loadAllStops();
+  }, []);
+
+  // 閉じたときは計算中の結果を捨てる
+  useEffect(() => {
+    const runs = runRef;
+    return () => {
+      runs.current++;
+    };
+  }, []);
+
+  const suggestions = query && !origin ? searchStopGroups(allStops, query) : [];
+
+  const handleInput = useCallback(
+    (value: string) => {
+      setQuery(value);
+      setOrigin(null);
+      setResult(null);
+      onShowIsochrone(null);
+    },
+    [onShowIsochrone],
+  );
+
+  const handlePick = useCallback((group: StopGroup) => {
+    setQuery(translateName(group.name));
+    setOrigin(group);
+  }, []);
+
+  const handleCalculate = useCallback(async () => {
+    if (!origin) return;
+    const run = ++runRef.current;
+    setError(null);
+    setResult(null);
+    onShowIsochrone(null);
+
+    const originIds = getSameNameStopIds(allStops, origin.name);
+    const now = getDisplayNow(timeOffset);
+    const isochroneQuery: IsochroneQuery = {
+      originIds,
+      departureSec: dateToSec(now),
+      date: now,
+      budgetSec: budgetMinutes * 60,
+      maxTransfers,
+    };
+
+    setIsCalculating(true);
+    try {
+      const timetables = await fetchActiveTimetables(
+        now,
+        isochroneQuery.budgetSec,
+      );
+      if (run !== runRef.current) return;
+      const isochrone = await runIsochroneWorker({
+        data: {
+          timetables,
+          stops: allStops,
+          calendar: data.calendar,
+          extra: data.extra,
+        },
+        query: isochroneQuery,
+      });
+      if (run !== runRef.current) return;
+      setResult({
+        departure: toTimeString(now).slice(0, 5),
+        budgetMinutes,
+        groups: groupReachable(allStops, isochrone.reachable),
+      });
+      onShowIsochrone(isochrone);
+    } catch (e) {
+      console.error("到達圏の計算に失敗しました:", e);
+      if (run === runRef.current) {
+        setError(
+          t("isochrone.failed", {
+            error: e instanceof Error ? e.message : String(e),
+          }),
+        );
+      }
+    } finally {
+      if (run === runRef.current) setIsCalculating(false);
+    }
+  }, [
+    origin,
+    allStops,
+    data,
+    timeOffset,
+    budgetMinutes,
+    maxTransfers,
+    onShowIsochrone,
+  ]);
+
+  return (
+    <div id="isochrone-container">
+      <div className="journey-form">
+        <div className="journey-header">
+          <span
+            className="journey-back-btn"
+            onClick={onClose}
+            title={t("back")}
+          >
+            <ArrowLeft size={20} />
+          </span>
+          {t("isochrone.title")}
+        </div>
+        <div className="journey-field">
+          <MapPin size={18} />
+          <input
+            type="text"
+            placeholder={t("journey.origin")}
+            value={query}
+            onChange={(e) => handleInput(e.target.value)}
+          />
+        </div>
+        <div className="isochrone-options">
+          <select
+            value={budgetMinutes}
+            onChange={(e) => setBudgetMinutes(Number(e.target.value))}
+          >
+            {BUDGET_OPTIONS.map((m) => (
+              <option key={m} value={m}>
+                {t("isochrone.budget", { minutes: m })}
+              </option>
+            ))}
+          </select>
+          <select
+            value={maxTransfers}
+            onChange={(e) => setMaxTransfers(Number(e.target.value))}
+          >
+            <option value={0}>{t("isochrone.noTransfer")}</option>
+            <option value={1}>{t("isochrone.oneTransfer")}</option>
+          </select>
+        </div>
+        <button
+          className="journey-search-btn"
+          disabled={!origin || isCalculating}
+          onClick={handleCalculate}
+        >
+          <Timer size={18} />
+          {isCalculating
+            ? t("isochrone.calculating")
+            : t("isochrone.calculate")}
+        </button>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div id="search-results">
+          {suggestions.map((s) => (
+            <div
+              key={s.id}
+              className="search-item"
+              onClick={() => handlePick(s)}
+            >
+              <MapPin size={20} />
+              <div className="search-item-info">
+                <div className="search-item-name">
+                  {translateName(s.name) !== s.name ? (
+                    translateName(s.name)
+                  ) : (
+                    <HighlightText text={s.name} ranges={s.nameRanges} />
+                  )}
+                </div>
+                <div className="search-item-yomi">
+                  {translateName(s.name) !== s.name ? (
+                    <HighlightText text={s.name} ranges={s.nameRanges} />
+                  ) : (
+                    <HighlightText text={s.yomi} ranges={s.yomiRanges} />
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div id="search-results">
+          <div className="empty-message">{error}</div>
+        </div>
+      )}
+
+      {result && (
+        <div id="search-results">
+          <div className="results-header">
+            {t(
+              timeOffset ? "isochrone.summaryOnDate" : "isochrone.summaryToday",
+              {
+                time: result.departure,
+                minutes: result.budgetMinutes,
+                count: result.groups.length,
+              },
+            )}
+          </div>
+          <div className="isochrone-legend">
+            {ISOCHRONE_BANDS.filter(
+              (_, i) =>
+                i === 0 ||
+                ISOCHRONE_BANDS[i - 1].minutes < result.budgetMinutes,
+            ).map((band) => (
+              <span key={band.minutes} className="isochrone-legend-item">
+                <span
+                  className="isochrone-legend-color"
+                  style={{ background: band.color }}
+                />
+                {t("isochrone.upTo", {
+                  minutes: Math.min(band.minutes, result.budgetMinutes),
+                })}
+              </span>
+            ))}
+          </div>
+          {result.groups.map((group) => (
+            <div
+              key={group.name}
+              className="search-item"
+              onClick={() => onSelectStop(group.name, group.lat, group.lng)}
+            >
+              <MapPin size={20} />
+              <div className="search-item-info">
+                <div className="search-item-name">
+                  {translateName(group.name)}
+                </div>
+                <div className="search-item-yomi">
+                  {t("isochrone.about", { minutes: group.minutes })}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Isochrone;
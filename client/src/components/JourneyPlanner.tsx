@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { ArrowLeft, ArrowUpDown, MapPin, Search } from "lucide-react";
+import type { AppData, Itinerary, StopsData } from "../types";
+import type { JourneyQuery } from "../journeyPlanner";
+import type { StopGroup } from "../utils";
+import {
+  formatHeadsign,
+  formatServiceTime,
+  dateToSec,
+  getDisplayNow,
+  getSameNameStopIds,
+  timeToSec,
+} from "../utils";
+import { searchStopGroups } from "../search";
+import { fetchActiveTimetables, fetchAllStops } from "../dataLoader";
+import { MAX_JOURNEY_SEC, planJourneys } from "../journeyPlanner";
+import { t, translateName, useLocale } from "../i18n";
+import HighlightText from "./HighlightText";
+
+interface JourneyPlannerProps {
+  data: AppData;
+  selectedItinerary: Itinerary | null;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  onSelectItinerary: (itinerary: Itinerary) => void;
+  onClose: () => void;
+}
+
+type Field = "origin" | "destination";
+
+const JourneyPlanner: React.FC<JourneyPlannerProps> = ({
+  data,
+  selectedItinerary,
+  timeOffset,
+  onSelectItinerary,
+  onClose,
+}) => {
+  const [allStops, setAllStops] = useState<StopsData>({});
+  const [queries, setQueries] = useState<Record<Field, string>>({
+    origin: "",
+    destination: "",
+  });
+  const [selected, setSelected] = useState<Record<Field, StopGroup | null>>({
+    origin: null,
+    destination: null,
+  });
+  const [activeField, setActiveField] = useState<Field | null>(null);
+  const [itineraries, setItineraries] = useState<Itinerary[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // 検索のたびに増やし、古い検索の結果を捨てる
+  const runRef = useRef(0);
+  useLocale();
+
+  // 初回マウント時に全バス停データを取得してキャッシュ
+  useEffect(() => {
+    const loadAllStops = async () => {
+      try {
+        const stops = await fetchAllStops();
+        setAllStops(stops);
+      } catch (e) {
+        console.error("全バス停データの取得に失敗しました:", e);
+      }
+    };
+    loadAllStops();
+  }, []);
+
+  // 閉じたときは検索中の結果を捨てる
+  useEffect(() => {
+    const runs = runRef;
+    return () => {
+      runs.current++;
+    };
+  }, []);
+
+  const suggestions =
+    activeField && queries[activeField] && !selected[activeField]
+      ? searchStopGroups(allStops, queries[activeField])
+      : [];
+
+  const handleInput = useCallback((field: Field, value: string) => {
+    setQueries((prev) => ({ ...prev, [field]: value }));
+    setSelected((prev) => ({ ...prev, [field]: null }));
+    setItineraries(null);
+  }, []);
+
+  const handlePick = useCallback((field: Field, group: StopGroup) => {
+    setQueries((prev) => ({ ...prev, [field]: translateName(group.name) }));
+    setSelected((prev) => ({ ...prev, [field]: group }));
+    setActiveField(null);
+  }, []);
+
+  const handleSwap = useCallback(() => {
+    setQueries((prev) => ({
+      origin: prev.destination,
+      destination: prev.origin,
+    }));
+    setSelected((prev) => ({
+      origin: prev.destination,
+      destination: prev.origin,
+    }));
+    setItineraries(null);
+  }, []);
+
+  const handlePlan = useCallback(async () => {
+    const { origin, destination } = selected;
+    if (!origin || !destination) return;
+
+    const run = ++runRef.current;
+
+    const now = getDisplayNow(timeOffset);
+    const query: JourneyQuery = {
+      originIds: getSameNameStopIds(allStops, origin.name),
+      destinationIds: getSameNameStopIds(allStops, destination.name),
+      departureSec: dateToSec(now),
+      date: now,
+    };
+
+    setActiveField(null);
+    setIsLoading(true);
+    try {
+      // 出発から MAX_JOURNEY_SEC の間に運行する便の時刻表をまとめて取得する
+      const timetables = await fetchActiveTimetables(now, MAX_JOURNEY_SEC);
+      if (run !== runRef.current) return;
+      setItineraries(
+        planJourneys(
+          {
+            timetables,
+            stops: allStops,
+            calendar: data.calendar,
+            extra: data.extra,
+          },
+          query,
+        ),
+      );
+    } catch (e) {
+      console.error("経路検索に失敗しました:", e);
+      if (run === runRef.current) setItineraries([]);
+    } finally {
+      if (run === runRef.current) setIsLoading(false);
+    }
+  }, [selected, allStops, data, timeOffset]);
+
+  const renderField = (field: Field, placeholder: string) => (
+    <div className="journey-field">
+      <MapPin size={18} />
+      <input
+        type="text"
+        placeholder={placeholder}
+        value={queries[field]}
+        onChange={(e) => handleInput(field, e.target.value)}
+        onFocus={() => setActiveField(field)}
+      />
+    </div>
+  );
+
+  return (
+    <div id="journey-container">
+      <div className="journey-form">
+        <div className="journey-header">
+          <span
+            className="journey-back-btn"
+            onClick={onClose}
+            title={t("back")}
+          >
+            <ArrowLeft size={20} />
+          </span>
+          {t("search.journeyPlanner")}
+        </div>
+        <div className="journey-fields">
+          <div className="journey-inputs">
+            {renderField("origin", t("journey.origin"))}
+            {renderField("destination", t("journey.destination"))}
+          </div>
+          <span
+            className="journey-swap-btn"
+            onClick={handleSwap}
+            title={t("journey.swap")}
+          >
+            <ArrowUpDown size={20} />
+          </span>
+        </div>
+        <button
+          className="journey-search-btn"
+          disabled={!selected.origin || !selected.destination || isLoading}
+          onClick={handlePlan}
+        >
+          <Search size={18} />
+          {isLoading ? t("journey.searching") : t("journey.search")}
+        </button>
+      </div>
+
+      {activeField && suggestions.length > 0 && (
+        <div id="search-results">
+          {suggestions.map((s) => (
+            <div
+              key={s.id}
+              className="search-item"
+              onClick={() => handlePick(activeField, s)}
+            >
+              <MapPin size={20} />
+              <div className="search-item-info">
+                <div className="search-item-name">
+                  {translateName(s.name) !== s.name ? (
+                    translateName(s.name)
+                  ) : (
+                    <HighlightText text={s.name} ranges={s.nameRanges} />
+                  )}
+                </div>
+                <div className="search-item-yomi">
+                  {translateName(s.name) !== s.name ? (
+                    <HighlightText text={s.name} ranges={s.nameRanges} />
+                  ) : (
+                    <HighlightText text={s.yomi} ranges={s.yomiRanges} />
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!activeField && itineraries && (
+        <div id="search-results">
+          <div className="results-header">
+            {timeOffset
+              ? t("journey.resultsOnDate")
+              : t("journey.resultsToday")}
+          </div>
+          {itineraries.length === 0 && (
+            <div className="empty-message">{t("journey.notFound")}</div>
+          )}
+          {itineraries.map((it, idx) => {
+            const minutes = Math.round(
+              (timeToSec(it.arrival) - timeToSec(it.departure)) / 60,
+            );
+            const isActive = it === selectedItinerary;
+            return (
+              <div
+                key={idx}
+                className={`journey-result ${isActive ? "active" : ""}`}
+                onClick={() => onSelectItinerary(it)}
+              >
+                <div className="journey-result-time">
+                  {formatServiceTime(it.departure)} →{" "}
+                  {formatServiceTime(it.arrival)}
+                  <span className="journey-result-meta">
+                    {t("journey.duration", { minutes })} ・{" "}
+                    {it.transfers === 0
+                      ? t("journey.direct")
+                      : t("journey.transfers", { count: it.transfers })}
+                  </span>
+                </div>
+                <div className="journey-result-legs">
+                  {it.legs.map((leg, i) => (
+                    <span
+                      key={i}
+                      className="route-badge"
+                      style={{
+                        background:
+                          "#" + (data.routes[leg.route_id]?.color || "00703c"),
+                      }}
+                      title={formatHeadsign(leg.headsign)}
+                    >
+                      {data.routes[leg.route_id]?.short_name || leg.route_id}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JourneyPlanner;
@@ -1,16 +1,26 @@
 import React, { useState, useEffect } from "react";
-import { Layers, Map as MapIcon, Camera } from "lucide-react";
+import { Layers, Map as MapIcon, Camera, Check } from "lucide-react";
+import type { AgenciesData } from "../types";
+import { LOCALES, setLocale, t, useLocale } from "../i18n";
 
 interface LayerControlProps {
   activeLayer: "pale" | "ortho";
   onLayerChange: (type: "pale" | "ortho") => void;
+  /** 読み込み済みの事業者（2つ以上あれば表示する事業者を選べる） */
+  agencies: AgenciesData;
+  hiddenAgencyIds: string[];
+  onToggleAgency: (agencyId: string) => void;
 }
 
 const LayerControl: React.FC<LayerControlProps> = ({
   activeLayer,
   onLayerChange,
+  agencies,
+  hiddenAgencyIds,
+  onToggleAgency,
 }) => {
   const [layerMenuOpen, setLayerMenuOpen] = useState(false);
+  const locale = useLocale();
 
   // 外クリックでメニューを閉じる
   useEffect(() => {
@@ -32,7 +42,7 @@ const LayerControl: React.FC<LayerControlProps> = ({
           e.stopPropagation();
           setLayerMenuOpen((v) => !v);
         }}
-        title="地図レイヤー切り替え"
+        title={t("layer.toggle")}
       >
         <Layers size={24} />
       </div>
@@ -42,15 +52,49 @@ const LayerControl: React.FC<LayerControlProps> = ({
           onClick={() => onLayerChange("pale")}
         >
           <MapIcon size={22} />
-          淡色地図
+          {t("layer.pale")}
         </div>
         <div
           className={`layer-item ${activeLayer === "ortho" ? "active" : ""}`}
           onClick={() => onLayerChange("ortho")}
         >
           <Camera size={22} />
-          航空写真
+          {t("layer.ortho")}
         </div>
+        {Object.keys(agencies).length > 1 && (
+          <>
+            <div className="layer-menu-heading">{t("layer.agencies")}</div>
+            {Object.entries(agencies).map(([id, agency]) => {
+              const isVisible = !hiddenAgencyIds.includes(id);
+              return (
+                <div
+                  key={id}
+                  className={`layer-item ${isVisible ? "active" : ""}`}
+                  onClick={() => onToggleAgency(id)}
+                >
+                  <span
+                    className="agency-color"
+                    style={{ background: "#" + agency.color }}
+                  />
+                  <span className="agency-name">{agency.name}</span>
+                  {isVisible && <Check size={18} />}
+                </div>
+              );
+            })}
+          </>
+        )}
+        <div className="layer-menu-heading">{t("layer.language")}</div>
+        {LOCALES.map((l) => (
+          <div
+            key={l.id}
+            lang={l.id}
+            className={`layer-item ${locale === l.id ? "active" : ""}`}
+            onClick={() => setLocale(l.id)}
+          >
+            <span className="locale-name">{l.label}</span>
+            {locale === l.id && <Check size={18} />}
+          </div>
+        ))}
       </div>
     </div>
   );
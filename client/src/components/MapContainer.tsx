@@ -1,21 +1,55 @@
 import React, { useEffect, useRef, useState, useCallback } from "react";
 import maplibregl from "maplibre-gl";
 import "maplibre-gl/dist/maplibre-gl.css";
-import { createRoot } from "react-dom/client";
-import { BusFront } from "lucide-react";
-import type { AppData, PanelTrip, BusPosition } from "../types";
-import { fetchBusPositions } from "../dataLoader";
-import { formatHeadsign } from "../utils";
+import type { FeatureCollection, Polygon } from "geojson";
+import type { AppData, PanelTrip, BusPosition, ShapeData } from "../types";
+import { fetchBusPositions, fetchShapes } from "../dataLoader";
+import { getDisplayNow, isRouteVisible, isStopVisible } from "../utils";
+import { t, useLocale } from "../i18n";
+import type { MapView } from "../urlState";
+import type { UserLocation } from "../geolocation";
+import type { BusAnimation } from "../busAnimation";
+import { createBusAnimation, sampleBusAnimation } from "../busAnimation";
+import type { BusFeatureState } from "../mapLayers";
+import {
+  BUS_ICON_LAYER_ID,
+  BUS_SOURCE_ID,
+  CLICKABLE_LAYER_IDS,
+  STOP_CIRCLE_LAYER_ID,
+  STOP_SOURCE_ID,
+  USER_LOCATION_SOURCE_ID,
+  ISOCHRONE_SOURCE_ID,
+  addStopAndBusLayers,
+  addUserLocationLayers,
+  addIsochroneLayers,
+  buildBusFeatures,
+  buildStopFeatures,
+  buildUserLocationFeatures,
+} from "../mapLayers";
 
 interface MapContainerProps {
   data: AppData;
   activeLayer: "pale" | "ortho";
   selectedTrip: PanelTrip | null;
+  /** 路線一覧で選択中の路線（便の選択がない場合に全経路を表示） */
+  selectedRouteId: string | null;
+  /** 表示中の日時と実時刻との差 (ms)。0 以外ならその日時のバス位置を表示 */
+  timeOffset: number;
+  /** 初期表示位置（URL から復元する場合） */
+  initialView?: MapView | null;
+  /** 現在地（取得済みの場合に位置と精度円を表示） */
+  userLocation?: UserLocation | null;
+  /** 到達圏のメッシュ（到達圏の表示中のみ） */
+  isochrone?: FeatureCollection<Polygon> | null;
+  /** 表示しない事業者ID（その事業者の路線のバスと、その事業者だけが使うバス停を隠す） */
+  hiddenAgencyIds: string[];
   onStopClick: (id: string, zoom?: number) => void;
   onBusClick: (tripId: string, routeId: string, highlightId?: string) => void;
   onMapClick: () => void;
   onMoveStart: () => void;
   onZoomChange: (zoom: number) => void;
+  /** 地図の移動が終わったときの表示位置 */
+  onViewChange?: (view: MapView) => void;
   updateBuses?: () => void; // 内部用だが型定義上必要なら
   setMapRef: (map: maplibregl.Map | null) => void;
   onBoundsChange?: (
@@ -26,50 +60,137 @@ interface MapContainerProps {
   ) => void;
 }
 
-/** lucide-react の BusFront アイコンを含む DOM 要素を生成 */
-function createBusMarkerElement(
-  routeName: string,
-  headsign: string,
-  onClick: () => void,
-): HTMLDivElement {
-  const container = document.createElement("div");
-  container.className = "bus-marker-container";
-
-  const label = document.createElement("div");
-  label.className = "bus-label";
-  label.textContent = `[${routeName}] ${formatHeadsign(headsign)}`;
-  container.appendChild(label);
-
-  const iconWrapper = document.createElement("div");
-  iconWrapper.className = "bus-icon-wrapper";
-  container.appendChild(iconWrapper);
-  const root = createRoot(iconWrapper);
-  root.render(<BusFront size={34} strokeWidth={2} />);
-
-  container.addEventListener("click", (e) => {
-    e.stopPropagation();
-    onClick();
-  });
-
-  return container;
+/** バス位置のポーリング間隔 (ms) */
+const BUS_POLL_INTERVAL = 5000;
+/** これ未満のズームではアニメーションせずにポーリング時の位置へ直接移動 */
+const MIN_ANIMATION_ZOOM = 13;
+/** アニメーション中にバスのソースを更新する最小間隔 (ms)。毎フレームの setData を避ける */
+const ANIMATION_FRAME_INTERVAL = 66;
+/** タップ判定の許容範囲 (px) */
+const CLICK_TOLERANCE = 10;
+/** 保持する経路形状（読み込み済みのデータにないもの）の最大数。超えたら古いものから捨てる */
+const MAX_BUS_SHAPES = 200;
+/** 1回のリクエストで取得する経路形状の最大数（サーバーの maxShapeKeys 以下） */
+const MAX_SHAPE_KEYS_PER_FETCH = 100;
+
+/**
+ * 経路を表示するバス停IDの一覧（選択中の便、なければ選択中の路線の全便）
+ * 選択がない場合は null
+ */
+function getActiveStopIds(
+  data: AppData,
+  selectedTrip: PanelTrip | null,
+  selectedRouteId: string | null,
+): string[] | null {
+  if (selectedTrip) {
+    return (
+      data.timetables[selectedTrip.routeId]?.[selectedTrip.tripId]?.stops.map(
+        (s) => s.stop_id,
+      ) || []
+    );
+  }
+  if (selectedRouteId) {
+    const ids = new Set<string>();
+    Object.values(data.timetables[selectedRouteId] || {}).forEach((trip) =>
+      trip.stops.forEach((s) => ids.add(s.stop_id)),
+    );
+    return [...ids];
+  }
+  return null;
+}
+
+/** バスの経路形状のキー（位置情報にない場合は読み込み済みの時刻表から求める） */
+function getBusShapeKey(data: AppData, bus: BusPosition): string | null {
+  if (bus.shape_key) return bus.shape_key;
+  const trip = data.timetables[bus.route_id]?.[bus.trip_id];
+  return trip ? trip.stops.map((s) => s.stop_id).join("|") : null;
 }
 
 const MapContainer: React.FC<MapContainerProps> = ({
   data,
   activeLayer,
   selectedTrip,
+  selectedRouteId,
+  timeOffset,
+  initialView,
+  userLocation = null,
+  isochrone = null,
+  hiddenAgencyIds,
   onStopClick,
   onBusClick,
   onMapClick,
   onMoveStart,
   onZoomChange,
+  onViewChange,
   setMapRef,
   onBoundsChange,
 }) => {
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const mapRef = useRef<maplibregl.Map | null>(null);
-  const stopMarkersRef = useRef<maplibregl.Marker[]>([]);
-  const busMarkersRef = useRef<Record<string, maplibregl.Marker>>({});
+  const initialViewRef = useRef(initialView);
+  const userLocationRef = useRef(userLocation);
+  const isochroneRef = useRef(isochrone);
+  // 表示中のバスの状態と、移動中のバスのアニメーション
+  const busStatesRef = useRef<Record<string, BusFeatureState>>({});
+  const busAnimationsRef = useRef<Record<string, BusAnimation>>({});
+  // 読み込み済みのデータにない、走行中のバスの経路形状（形状がないキーは null）
+  const busShapesRef = useRef(new Map<string, ShapeData | null>());
+  const isFetchingShapesRef = useRef(false);
+
+  // アニメーションで経路形状を参照するための最新データ
+  const dataRef = useRef(data);
+  useEffect(() => {
+    dataRef.current = data;
+  }, [data]);
+
+  /**
+   * バスの経路形状を返す
+   * 読み込み済みのデータにも取得済みの形状にもなければ、missing にキーを加えて null を返す
+   */
+  const getBusShape = useCallback(
+    (bus: BusPosition, missing: Set<string>): ShapeData | null => {
+      const key = getBusShapeKey(dataRef.current, bus);
+      if (!key) return null;
+      const loaded = dataRef.current.shapes[key];
+      if (loaded) return loaded;
+      const shapes = busShapesRef.current;
+      if (!shapes.has(key)) {
+        missing.add(key);
+        return null;
+      }
+      // 最近使ったものを後ろに移し、古いものから捨てられるようにする
+      const shape = shapes.get(key)!;
+      shapes.delete(key);
+      shapes.set(key, shape);
+      return shape;
+    },
+    [],
+  );
+
+  /**
+   * 足りない経路形状を1回のリクエストでまとめて取得し、次の更新からアニメーションに使う
+   * 取得中は次のリクエストを送らず、保持する形状は MAX_BUS_SHAPES 件までとする
+   */
+  const loadBusShapes = useCallback((keys: string[]) => {
+    if (keys.length === 0 || isFetchingShapesRef.current) return;
+    const targets = keys.slice(0, MAX_SHAPE_KEYS_PER_FETCH);
+    isFetchingShapesRef.current = true;
+    fetchShapes(targets)
+      .then((result) => {
+        const shapes = busShapesRef.current;
+        targets.forEach((key) => shapes.set(key, result[key] ?? null));
+        while (shapes.size > MAX_BUS_SHAPES) {
+          shapes.delete(shapes.keys().next().value!);
+        }
+      })
+      .catch((e) => {
+        // 取得できなかったキーは次の更新で取得し直す
+        console.error("経路形状の取得に失敗しました:", e);
+      })
+      .finally(() => {
+        isFetchingShapesRef.current = false;
+      });
+  }, []);
 
   // 地図の準備完了状態を管理
   const isStyleLoadedRef = useRef(false);
@@ -85,65 +206,39 @@ const MapContainer: React.FC<MapContainerProps> = ({
     setMapRef(mapRef.current);
   }, [setMapRef]);
 
-  // --- バス停マーカー更新 ---
+  // --- バス停レイヤー更新 ---
   const updateStopMarkers = useCallback(() => {
     const map = mapRef.current;
     if (!map || !isStyleLoadedRef.current) return;
 
-    stopMarkersRef.current.forEach((m) => m.remove());
-    stopMarkersRef.current = [];
-
-    const zoom = map.getZoom();
-    const bounds = map.getBounds();
-    const activeTripStops = selectedTrip
-      ? data.timetables[selectedTrip.routeId]?.[selectedTrip.tripId]?.stops.map(
-          (s) => s.stop_id,
-        ) || []
-      : [];
-    const seen = new Set<string>();
-
-    Object.keys(data.stops).forEach((id) => {
-      const stop = data.stops[id];
-      const isSelectedRouteStop = activeTripStops.includes(id);
-
-      if (selectedTrip && !isSelectedRouteStop) return;
-      if (!bounds.contains([stop.lng, stop.lat]) && !isSelectedRouteStop)
-        return;
-      if (zoom < 13.5 && !isSelectedRouteStop) return;
-
-      if (zoom < 16.5) {
-        if (seen.has(stop.name)) return;
-        seen.add(stop.name);
-      }
-
-      const el = document.createElement("div");
-      el.className = "stop-marker-container";
-
-      if (zoom >= 13.5 || isSelectedRouteStop) {
-        const label = document.createElement("div");
-        label.className = "stop-label";
-        label.innerText =
-          stop.name +
-          (zoom >= 16.5 && stop.platform ? ` (${stop.platform}番)` : "");
-        el.appendChild(label);
-      }
-
-      const dot = document.createElement("div");
-      dot.className = "stop-dot";
-      el.appendChild(dot);
+    const activeTripStops = getActiveStopIds(
+      data,
+      selectedTrip,
+      selectedRouteId,
+    );
 
-      const marker = new maplibregl.Marker({ element: el })
-        .setLngLat([stop.lng, stop.lat])
-        .addTo(map);
+    const stops =
+      hiddenAgencyIds.length === 0
+        ? data.stops
+        : Object.fromEntries(
+            Object.entries(data.stops).filter(([, stop]) =>
+              isStopVisible(stop, hiddenAgencyIds),
+            ),
+          );
 
-      el.addEventListener("click", (e) => {
-        e.stopPropagation();
-        onStopClick(id, map.getZoom());
-      });
+    const source = map.getSource<maplibregl.GeoJSONSource>(STOP_SOURCE_ID);
+    source?.setData(
+      buildStopFeatures(stops, map.getZoom(), map.getBounds(), activeTripStops),
+    );
+  }, [data, selectedTrip, selectedRouteId, hiddenAgencyIds]);
 
-      stopMarkersRef.current.push(marker);
-    });
-  }, [data, selectedTrip, onStopClick]);
+  // --- バスレイヤー描画 ---
+  const renderBuses = useCallback(() => {
+    const map = mapRef.current;
+    if (!map || !isStyleLoadedRef.current) return;
+    const source = map.getSource<maplibregl.GeoJSONSource>(BUS_SOURCE_ID);
+    source?.setData(buildBusFeatures(busStatesRef.current));
+  }, []);
 
   // --- バスマーカー更新 ---
   const updateBuses = useCallback(async () => {
@@ -163,8 +258,14 @@ const MapContainer: React.FC<MapContainerProps> = ({
       const minLng = bounds.getWest();
       const maxLng = bounds.getEast();
 
-      // サーバーから範囲内のバス位置を取得
-      const buses = await fetchBusPositions(minLat, maxLat, minLng, maxLng);
+      // 範囲内のバス位置を取得
+      const buses = await fetchBusPositions(
+        minLat,
+        maxLat,
+        minLng,
+        maxLng,
+        timeOffset ? getDisplayNow(timeOffset) : undefined,
+      );
       // デバッグ: 取得範囲と件数をログ出力
       try {
         console.debug(
@@ -177,65 +278,86 @@ const MapContainer: React.FC<MapContainerProps> = ({
         // noop
       }
       const zoom = map.getZoom();
-      const isCompact = zoom < 15.0;
+      const states = busStatesRef.current;
+      const animations = busAnimationsRef.current;
 
-      // 現在のマーカーIDセット
+      // 現在のバスIDセット
       const activeTripIds = new Set<string>();
+      // 経路形状を取得していないバスの形状キー
+      const missingShapeKeys = new Set<string>();
 
-      // 取得したバスをマーカーとして配置
       buses.forEach((bus: BusPosition) => {
         const tripId = bus.trip_id;
 
-        // selectedTripがある場合、そのtripIdのみ表示
-        if (selectedTrip && tripId !== selectedTrip.tripId) {
-          // 選択されていないバスのマーカーを削除
-          if (busMarkersRef.current[tripId]) {
-            busMarkersRef.current[tripId].remove();
-            delete busMarkersRef.current[tripId];
-          }
+        // selectedTripがある場合はそのtripIdのみ、路線選択中はその路線のみ表示
+        // 選択がない場合は表示しない事業者のバスを隠す
+        if (
+          (selectedTrip && tripId !== selectedTrip.tripId) ||
+          (!selectedTrip &&
+            selectedRouteId &&
+            bus.route_id !== selectedRouteId) ||
+          (!selectedTrip &&
+            !selectedRouteId &&
+            !isRouteVisible(
+              bus.route_id,
+              dataRef.current.routes,
+              hiddenAgencyIds,
+            ))
+        ) {
+          delete states[tripId];
+          delete animations[tripId];
           return;
         }
 
         activeTripIds.add(tripId);
-
-        if (!busMarkersRef.current[tripId]) {
-          const el = createBusMarkerElement(
-            bus.route_name,
-            bus.headsign,
-            () => {
-              onBusClick(tripId, bus.route_id);
-            },
-          );
-
-          busMarkersRef.current[tripId] = new maplibregl.Marker({
-            element: el,
-          })
-            .setLngLat(bus.position as [number, number])
-            .addTo(map);
+        const position = bus.position as [number, number];
+        const state = states[tripId];
+
+        if (!state) {
+          states[tripId] = { bus, position, bearing: null };
+        } else if (zoom < MIN_ANIMATION_ZOOM) {
+          state.bus = bus;
+          state.position = position;
+          delete animations[tripId];
         } else {
-          busMarkersRef.current[tripId].setLngLat(
-            bus.position as [number, number],
+          // 現在の表示位置から新しい位置まで、次のポーリングまでかけて移動させる
+          state.bus = bus;
+          animations[tripId] = createBusAnimation(
+            state.position,
+            position,
+            getBusShape(bus, missingShapeKeys),
+            performance.now(),
+            BUS_POLL_INTERVAL,
+            state.bearing,
           );
         }
-
-        const markerEl = busMarkersRef.current[tripId].getElement();
-        if (isCompact) markerEl.classList.add("compact");
-        else markerEl.classList.remove("compact");
       });
 
-      // 運行終了したバスのマーカーを削除（selectedTripがない場合のみ）
+      // 運行終了したバスを削除（selectedTripがない場合のみ）
       if (!selectedTrip) {
-        Object.keys(busMarkersRef.current).forEach((tripId) => {
+        Object.keys(states).forEach((tripId) => {
           if (!activeTripIds.has(tripId)) {
-            busMarkersRef.current[tripId].remove();
-            delete busMarkersRef.current[tripId];
+            delete states[tripId];
+            delete animations[tripId];
           }
         });
       }
+
+      renderBuses();
+      loadBusShapes([...missingShapeKeys]);
     } catch (error) {
       console.error("Failed to fetch bus positions:", error);
     }
-  }, [selectedTrip, onBusClick, isUpdatesPaused]);
+  }, [
+    selectedTrip,
+    selectedRouteId,
+    hiddenAgencyIds,
+    isUpdatesPaused,
+    timeOffset,
+    renderBuses,
+    getBusShape,
+    loadBusShapes,
+  ]);
 
   // --- ルートライン描画 ---
   const drawRouteLine = useCallback(() => {
@@ -246,50 +368,63 @@ const MapContainer: React.FC<MapContainerProps> = ({
     if (map.getLayer("route-line")) map.removeLayer("route-line");
     if (map.getSource("route")) map.removeSource("route");
 
-    if (!selectedTrip) return;
+    // 便の選択中はその便の経路、路線の選択中はその路線の全経路パターン
+    const routeId = selectedTrip?.routeId || selectedRouteId;
+    if (!routeId) return;
+    const trips = selectedTrip
+      ? [data.timetables[routeId]?.[selectedTrip.tripId]].filter((t) => !!t)
+      : Object.values(data.timetables[routeId] || {});
 
-    const trip = data.timetables[selectedTrip.routeId]?.[selectedTrip.tripId];
-    if (!trip) return;
-
-    const patternKey = trip.stops.map((s) => s.stop_id).join("|");
-    const shape = data.shapes[patternKey];
-    if (!shape) return;
+    const patternKeys = new Set(
+      trips.map((trip) => trip.stops.map((s) => s.stop_id).join("|")),
+    );
+    const lines = [...patternKeys]
+      .map((key) => data.shapes[key]?.coordinates)
+      .filter((c) => !!c);
+    if (lines.length === 0) return;
 
-    const routeInfo = data.routes[selectedTrip.routeId];
+    const routeInfo = data.routes[routeId];
 
     map.addSource("route", {
       type: "geojson",
       data: {
         type: "Feature",
         properties: {},
-        geometry: { type: "LineString", coordinates: shape.coordinates },
+        geometry: { type: "MultiLineString", coordinates: lines },
       },
     });
-    map.addLayer({
-      id: "route-line",
-      type: "line",
-      source: "route",
-      paint: {
-        "line-color": "#" + (routeInfo?.color || "00703c"),
-        "line-width": 8,
-        "line-opacity": 0.6,
+    // バス停・バスのレイヤーより下に描画する
+    map.addLayer(
+      {
+        id: "route-line",
+        type: "line",
+        source: "route",
+        paint: {
+          "line-color": "#" + (routeInfo?.color || "00703c"),
+          "line-width": 8,
+          "line-opacity": 0.6,
+        },
       },
-    });
-    map.addLayer({
-      id: "route-arrows",
-      type: "symbol",
-      source: "route",
-      layout: {
-        "symbol-placement": "line",
-        "symbol-spacing": 80,
-        "icon-image": "arrow",
-        "icon-size": 0.5,
-        "icon-rotate": 270,
-        "icon-allow-overlap": true,
-        "icon-ignore-placement": true,
+      STOP_CIRCLE_LAYER_ID,
+    );
+    map.addLayer(
+      {
+        id: "route-arrows",
+        type: "symbol",
+        source: "route",
+        layout: {
+          "symbol-placement": "line",
+          "symbol-spacing": 80,
+          "icon-image": "arrow",
+          "icon-size": 0.5,
+          "icon-rotate": 270,
+          "icon-allow-overlap": true,
+          "icon-ignore-placement": true,
+        },
       },
-    });
-  }, [data, selectedTrip]);
+      STOP_CIRCLE_LAYER_ID,
+    );
+  }, [data, selectedTrip, selectedRouteId]);
 
   // ハンドラの最新版を参照する Ref（map 初期化時に安全に呼び出すため）
   const updateStopMarkersRef = useRef(updateStopMarkers);
@@ -328,6 +463,10 @@ const MapContainer: React.FC<MapContainerProps> = ({
       updateStopMarkers();
       updateBuses();
       onZoomChange(map.getZoom());
+      if (onViewChange) {
+        const c = map.getCenter();
+        onViewChange({ center: [c.lng, c.lat], zoom: map.getZoom() });
+      }
       try {
         const b = map.getBounds();
         if (b && typeof onBoundsChange === "function") {
@@ -340,28 +479,58 @@ const MapContainer: React.FC<MapContainerProps> = ({
 
     const movestartHandler = () => onMoveStart();
 
+    // タップ位置付近のバス・バス停を取得（バスを優先）
+    const findFeatureAt = (point: maplibregl.Point) => {
+      if (!isStyleLoadedRef.current) return null;
+      const features = map.queryRenderedFeatures(
+        [
+          [point.x - CLICK_TOLERANCE, point.y - CLICK_TOLERANCE],
+          [point.x + CLICK_TOLERANCE, point.y + CLICK_TOLERANCE],
+        ],
+        { layers: CLICKABLE_LAYER_IDS },
+      );
+      return (
+        features.find((f) => f.layer.id === BUS_ICON_LAYER_ID) ||
+        features[0] ||
+        null
+      );
+    };
+
     const clickHandler = (e: maplibregl.MapMouseEvent) => {
-      const el = (e.originalEvent.target as HTMLElement) || null;
-      if (el && el.className && el.className.includes("maplibregl-canvas")) {
+      const feature = findFeatureAt(e.point);
+      if (!feature) {
         onMapClick();
+      } else if (feature.layer.id === BUS_ICON_LAYER_ID) {
+        onBusClick(feature.properties.trip_id, feature.properties.route_id);
+      } else {
+        onStopClick(feature.properties.id, map.getZoom());
       }
     };
 
+    const mousemoveHandler = (e: maplibregl.MapMouseEvent) => {
+      map.getCanvas().style.cursor = findFeatureAt(e.point) ? "pointer" : "";
+    };
+
     map.on("moveend", moveendHandler);
     map.on("movestart", movestartHandler);
     map.on("click", clickHandler);
+    map.on("mousemove", mousemoveHandler);
 
     return () => {
       map.off("moveend", moveendHandler);
       map.off("movestart", movestartHandler);
       map.off("click", clickHandler);
+      map.off("mousemove", mousemoveHandler);
     };
   }, [
     onMapClick,
+    onStopClick,
+    onBusClick,
     onMoveStart,
     updateBuses,
     updateStopMarkers,
     onZoomChange,
+    onViewChange,
     onBoundsChange,
   ]);
 
@@ -402,8 +571,8 @@ const MapContainer: React.FC<MapContainerProps> = ({
           },
         ],
       },
-      center: [140.8824, 38.2601],
-      zoom: 15,
+      center: initialViewRef.current?.center ?? [140.8824, 38.2601],
+      zoom: initialViewRef.current?.zoom ?? 15,
       attributionControl: false,
     });
 
@@ -432,6 +601,19 @@ const MapContainer: React.FC<MapContainerProps> = ({
       const imageData = ctx.getImageData(0, 0, width, height);
       map.addImage("arrow", imageData);
 
+      // バス停・バス・現在地・到達圏のレイヤー
+      addStopAndBusLayers(map);
+      addUserLocationLayers(map);
+      map
+        .getSource<maplibregl.GeoJSONSource>(USER_LOCATION_SOURCE_ID)
+        ?.setData(buildUserLocationFeatures(userLocationRef.current));
+      addIsochroneLayers(map);
+      if (isochroneRef.current) {
+        map
+          .getSource<maplibregl.GeoJSONSource>(ISOCHRONE_SOURCE_ID)
+          ?.setData(isochroneRef.current);
+      }
+
       // 初期ロード時は最新の refs 経由で呼び出す
       try {
         updateStopMarkersRef.current();
@@ -466,9 +648,41 @@ const MapContainer: React.FC<MapContainerProps> = ({
       } catch {
         // noop
       }
-    }, 5000);
+    }, BUS_POLL_INTERVAL);
+
+    // バスのアニメーション（移動中のバスのみ位置を更新し、ソースの更新は間引く）
+    let frameId = 0;
+    let lastRenderTime = 0;
+    const animateBuses = (time: number) => {
+      frameId = requestAnimationFrame(animateBuses);
+      const animations = busAnimationsRef.current;
+      const tripIds = Object.keys(animations);
+      if (tripIds.length === 0) return;
+      if (time - lastRenderTime < ANIMATION_FRAME_INTERVAL) return;
+      lastRenderTime = time;
+
+      tripIds.forEach((tripId) => {
+        const state = busStatesRef.current[tripId];
+        if (!state) {
+          delete animations[tripId];
+          return;
+        }
+        const { position, bearing, done } = sampleBusAnimation(
+          animations[tripId],
+          time,
+        );
+        state.position = position;
+        state.bearing = bearing;
+        if (done) delete animations[tripId];
+      });
+
+      const source = map.getSource<maplibregl.GeoJSONSource>(BUS_SOURCE_ID);
+      source?.setData(buildBusFeatures(busStatesRef.current));
+    };
+    frameId = requestAnimationFrame(animateBuses);
 
     return () => {
+      cancelAnimationFrame(frameId);
       clearInterval(busInterval);
       map.remove();
       mapRef.current = null;
@@ -578,6 +792,34 @@ const MapContainer: React.FC<MapContainerProps> = ({
     }
   }, [activeLayer]);
 
+  // 現在地の表示を同期（地図の load 前に取得した場合は load 時に反映）
+  useEffect(() => {
+    userLocationRef.current = userLocation;
+    const map = mapRef.current;
+    if (!map || !isStyleLoadedRef.current) return;
+    map
+      .getSource<maplibregl.GeoJSONSource>(USER_LOCATION_SOURCE_ID)
+      ?.setData(buildUserLocationFeatures(userLocation));
+  }, [userLocation]);
+
+  // 到達圏の表示を同期（地図の load 前に計算した場合は load 時に反映）
+  useEffect(() => {
+    isochroneRef.current = isochrone;
+    const map = mapRef.current;
+    if (!map || !isStyleLoadedRef.current) return;
+    map
+      .getSource<maplibregl.GeoJSONSource>(ISOCHRONE_SOURCE_ID)
+      ?.setData(isochrone ?? { type: "FeatureCollection", features: [] });
+  }, [isochrone]);
+
+  // 表示言語を切り替えたら、バス停名・行先のラベルを描き直す
+  const locale = useLocale();
+  useEffect(() => {
+    if (!isStyleLoadedRef.current) return;
+    updateStopMarkers();
+    renderBuses();
+  }, [locale, updateStopMarkers, renderBuses]);
+
   // 便選択時の描画・マーカー更新同期
   useEffect(() => {
     if (!isStyleLoadedRef.current) return;
@@ -607,7 +849,7 @@ const MapContainer: React.FC<MapContainerProps> = ({
             }}
             className="resume-button"
           >
-            自動更新を停止しました。再開するにはここをクリック
+            {t("map.resume")}
           </button>
         </div>
       )}
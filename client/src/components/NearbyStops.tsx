@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from "react";
+import { ArrowLeft, LocateFixed, MapPin } from "lucide-react";
+import type { EssentialData, StopsData, TimetablesData } from "../types";
+import type { UserLocation } from "../geolocation";
+import type { NearbyStopGroup } from "../utils";
+import { boundsAround, locateUser } from "../geolocation";
+import {
+  formatHeadsign,
+  formatServiceTime,
+  getDisplayNow,
+  getNearbyStopGroups,
+  getSameNameStopIds,
+  getUpcomingDepartures,
+} from "../utils";
+import { fetchStopTimetable, fetchStopsByBounds } from "../dataLoader";
+import { t, translateName, useLocale } from "../i18n";
+
+interface NearbyStopsProps {
+  data: EssentialData;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  /** 現在地を取得したとき（地図への表示用） */
+  onLocate: (location: UserLocation) => void;
+  onSelectStop: (stopName: string, lat: number, lng: number) => void;
+  onClose: () => void;
+}
+
+/** バス停を探す範囲（現在地からの距離, m） */
+const NEARBY_RADIUS_METERS = 800;
+/** 表示するバス停の件数 */
+const NEARBY_LIMIT = 8;
+/** 1件あたりに表示する発車予定の件数 */
+const DEPARTURE_LIMIT = 2;
+/** 徒歩の速さ (m/分) */
+const WALK_METERS_PER_MIN = 80;
+
+/** 現在地周辺の検索結果 */
+interface NearbyResult {
+  stops: StopsData;
+  groups: NearbyStopGroup[];
+}
+
+/**
+ * 現在地に近いバス停の一覧（徒歩の目安と次の発車予定つき）
+ */
+const NearbyStops: React.FC<NearbyStopsProps> = ({
+  data,
+  timeOffset,
+  onLocate,
+  onSelectStop,
+  onClose,
+}) => {
+  const [result, setResult] = useState<NearbyResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // 再取得ボタンを押すたびに増やして現在地を取り直す
+  const [locateCount, setLocateCount] = useState(0);
+  // 同名バス停ごとの時刻表（全のりば分をまとめたもの）
+  const [timetables, setTimetables] = useState<Record<string, TimetablesData>>(
+    {},
+  );
+  useLocale();
+
+  // 現在地を取得し、周辺のバス停を取得する
+  useEffect(() => {
+    let cancelled = false;
+    const loadNearby = async () => {
+      try {
+        const location = await locateUser();
+        if (cancelled) return;
+        onLocate(location);
+        const { minLat, maxLat, minLng, maxLng } = boundsAround(
+          location.lat,
+          location.lng,
+          NEARBY_RADIUS_METERS,
+        );
+        const stops = await fetchStopsByBounds(minLat, maxLat, minLng, maxLng);
+        if (cancelled) return;
+        setResult({
+          stops,
+          groups: getNearbyStopGroups(
+            stops,
+            location.lat,
+            location.lng,
+            NEARBY_LIMIT,
+          ),
+        });
+      } catch (e) {
+        console.error("現在地周辺のバス停の取得に失敗しました:", e);
+        if (!cancelled) {
+          setError(
+            e instanceof Error ? e.message : t("geolocation.unavailable"),
+          );
+        }
+      }
+    };
+    loadNearby();
+    return () => {
+      cancelled = true;
+    };
+  }, [locateCount, onLocate]);
+
+  // 周辺のバス停の時刻表を取得
+  useEffect(() => {
+    if (!result) return;
+    let cancelled = false;
+    const loadTimetables = async () => {
+      const entries = await Promise.all(
+        result.groups.map(async (group) => {
+          const merged: TimetablesData = {};
+          try {
+            const results = await Promise.all(
+              getSameNameStopIds(result.stops, group.name).map((id) =>
+                fetchStopTimetable(id),
+              ),
+            );
+            results.forEach((r) => {
+              Object.keys(r.timetables).forEach((rid) => {
+                merged[rid] = { ...(merged[rid] || {}), ...r.timetables[rid] };
+              });
+            });
+          } catch (e) {
+            console.error("周辺のバス停の時刻表の取得に失敗しました:", e);
+          }
+          return [group.name, merged] as const;
+        }),
+      );
+      if (!cancelled) setTimetables(Object.fromEntries(entries));
+    };
+    loadTimetables();
+    return () => {
+      cancelled = true;
+    };
+  }, [result]);
+
+  const handleRelocate = () => {
+    setResult(null);
+    setError(null);
+    setTimetables({});
+    setLocateCount((c) => c + 1);
+  };
+
+  const now = getDisplayNow(timeOffset);
+
+  return (
+    <div id="nearby-container">
+      <div className="journey-form">
+        <div className="journey-header">
+          <span
+            className="journey-back-btn"
+            onClick={onClose}
+            title={t("back")}
+          >
+            <ArrowLeft size={20} />
+          </span>
+          {t("search.nearby")}
+          <span
+            className="nearby-relocate-btn"
+            onClick={handleRelocate}
+            title={t("nearby.relocate")}
+          >
+            <LocateFixed size={20} />
+          </span>
+        </div>
+      </div>
+
+      <div id="search-results">
+        {error && <div className="empty-message">{error}</div>}
+        {!error && !result && (
+          <div className="empty-message">{t("nearby.locating")}</div>
+        )}
+        {result && result.groups.length === 0 && (
+          <div className="empty-message">{t("nearby.notFound")}</div>
+        )}
+        {result?.groups.map((group) => {
+          const stopTimetables = timetables[group.name];
+          const departures = stopTimetables
+            ? getUpcomingDepartures(
+                { ...data, stops: result.stops, timetables: stopTimetables },
+                getSameNameStopIds(result.stops, group.name),
+                now,
+                DEPARTURE_LIMIT,
+              )
+            : null;
+          const meters = Math.round(group.meters / 10) * 10;
+
+          return (
+            <div
+              key={group.name}
+              className="search-item"
+              onClick={() => onSelectStop(group.name, group.lat, group.lng)}
+            >
+              <MapPin size={20} />
+              <div className="search-item-info">
+                <div className="search-item-name">
+                  {translateName(group.name)}
+                </div>
+                <div className="search-item-yomi">
+                  {t("nearby.walk", {
+                    minutes: Math.max(
+                      1,
+                      Math.round(group.meters / WALK_METERS_PER_MIN),
+                    ),
+                    meters,
+                  })}
+                </div>
+                <div className="nearby-departures">
+                  {departures === null
+                    ? t("loading")
+                    : departures.length === 0
+                      ? t(
+                          timeOffset
+                            ? "favorite.endedOnDate"
+                            : "favorite.endedToday",
+                        )
+                      : departures
+                          .map(
+                            (d) =>
+                              `${formatServiceTime(d.time)} ${data.routes[d.route_id]?.short_name || d.route_id} ${formatHeadsign(d.headsign)}`,
+                          )
+                          .join(" / ")}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default NearbyStops;
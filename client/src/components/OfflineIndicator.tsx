@@ -0,0 +1,58 @@
+import React, { useSyncExternalStore } from "react";
+import { CloudOff } from "lucide-react";
+import type { EssentialData } from "../types";
+import { getOfflineStatus, subscribeOfflineStatus } from "../offlineCache";
+import { formatYmd, getServiceCalendar } from "../serviceCalendar";
+import { formatMonthDay } from "../utils";
+import { t, useLocale } from "../i18n";
+
+interface OfflineIndicatorProps {
+  data: EssentialData;
+}
+
+/** 端末のオンライン状態の変化を購読する */
+function subscribeOnline(listener: () => void): () => void {
+  window.addEventListener("online", listener);
+  window.addEventListener("offline", listener);
+  return () => {
+    window.removeEventListener("online", listener);
+    window.removeEventListener("offline", listener);
+  };
+}
+
+/**
+ * 通信できず保存済みのデータで表示している場合の表示
+ * どの版（ダイヤ改正日）のデータを、いつ保存したものかを示す
+ */
+const OfflineIndicator: React.FC<OfflineIndicatorProps> = ({ data }) => {
+  const status = useSyncExternalStore(subscribeOfflineStatus, getOfflineStatus);
+  const isOnline = useSyncExternalStore(
+    subscribeOnline,
+    () => navigator.onLine,
+  );
+  useLocale();
+
+  if (!status.usingCache && isOnline) return null;
+
+  const { revisedOn } = getServiceCalendar(
+    data.calendar,
+    data.extra,
+  ).getValidity(new Date());
+  const details = [
+    revisedOn && t("offline.revisedOn", { date: formatYmd(revisedOn) }),
+    status.savedAt &&
+      t("offline.savedAt", { date: formatMonthDay(new Date(status.savedAt)) }),
+  ].filter((d) => !!d);
+
+  return (
+    <div className="offline-indicator">
+      <CloudOff size={16} />
+      <span>
+        {status.usingCache ? t("offline.usingCache") : t("offline.offline")}
+        {details.length > 0 && `（${details.join(" ・ ")}）`}
+      </span>
+    </div>
+  );
+};
+
+export default OfflineIndicator;
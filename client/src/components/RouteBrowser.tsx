@@ -0,0 +1,364 @@
+import React, { useMemo, useState } from "react";
+import { ArrowLeft, Search } from "lucide-react";
+import type { AppData, RouteDetailResponse, TripInfo } from "../types";
+import {
+  formatHeadsign,
+  formatServiceTime,
+  getDisplayNow,
+  isRouteVisible,
+  isServiceRunningToday,
+  katakanaToHiragana,
+} from "../utils";
+import { t, translateName, useLocale } from "../i18n";
+
+interface RouteBrowserProps {
+  data: AppData;
+  selectedRouteId: string | null;
+  /** 選択中の路線の詳細（読み込み中は null） */
+  routeDetail: RouteDetailResponse | null;
+  /** 表示中の日時と実時刻との差 (ms) */
+  timeOffset: number;
+  /** 一覧に表示しない事業者ID */
+  hiddenAgencyIds: string[];
+  onSelectRoute: (routeId: string | null) => void;
+  onSelectTrip: (tripId: string, routeId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * 停車順の表の1行
+ * 循環系統など同じバス停に2回以上停車する便は、何回目の停車かで行を分ける
+ */
+interface StopRow {
+  /** バス停IDと何回目の停車か（"<stop_id>#<0 始まりの回数>"） */
+  key: string;
+  stopId: string;
+}
+
+/** 行先・経由地ごとにまとめた便の集合（運行系統のバリエーション） */
+interface RouteVariant {
+  key: string;
+  headsign: string;
+  via: string;
+  /** 始発時刻順の便（times は行のキーごとの時刻） */
+  trips: { tripId: string; trip: TripInfo; times: Record<string, string> }[];
+  /** 全便の停車バス停を停車順に並べたもの */
+  rows: StopRow[];
+}
+
+/** 便の停車バス停を、何回目の停車かを付けた行のキーにする */
+function toStopKeys(trip: TripInfo): string[] {
+  const counts = new Map<string, number>();
+  return trip.stops.map((s) => {
+    const n = counts.get(s.stop_id) ?? 0;
+    counts.set(s.stop_id, n + 1);
+    return `${s.stop_id}#${n}`;
+  });
+}
+
+/**
+ * 停車パターンの異なる便をまとめて1つの停車順に並べる
+ * 既出のバス停の直後に未出のバス停を差し込む
+ */
+function mergeStopOrder(patterns: string[][]): string[] {
+  const sorted = [...patterns].sort((a, b) => b.length - a.length);
+  const order: string[] = [];
+  sorted.forEach((pattern) => {
+    pattern.forEach((stopId, i) => {
+      if (order.includes(stopId)) return;
+      const prev = i > 0 ? order.indexOf(pattern[i - 1]) : -1;
+      order.splice(prev + 1, 0, stopId);
+    });
+  });
+  return order;
+}
+
+/** 路線の便を行先・経由地ごとにまとめる */
+function groupVariants(trips: Record<string, TripInfo>): RouteVariant[] {
+  const groups: Record<string, RouteVariant> = {};
+  Object.keys(trips).forEach((tripId) => {
+    const trip = trips[tripId];
+    const key = `${trip.headsign}|${trip.via}`;
+    if (!groups[key]) {
+      groups[key] = {
+        key,
+        headsign: trip.headsign,
+        via: trip.via,
+        trips: [],
+        rows: [],
+      };
+    }
+    const keys = toStopKeys(trip);
+    groups[key].trips.push({
+      tripId,
+      trip,
+      times: Object.fromEntries(keys.map((k, i) => [k, trip.stops[i].time])),
+    });
+  });
+
+  return Object.values(groups)
+    .map((variant) => {
+      variant.trips.sort((a, b) =>
+        (a.trip.stops[0]?.time || "").localeCompare(
+          b.trip.stops[0]?.time || "",
+        ),
+      );
+      const patterns = new Map<string, string[]>();
+      variant.trips.forEach(({ times }) => {
+        const keys = Object.keys(times);
+        patterns.set(keys.join("|"), keys);
+      });
+      variant.rows = mergeStopOrder([...patterns.values()]).map((key) => ({
+        key,
+        stopId: key.slice(0, key.lastIndexOf("#")),
+      }));
+      return variant;
+    })
+    .sort((a, b) => b.trips.length - a.trips.length);
+}
+
+/**
+ * 路線一覧と、選択した路線の行先別時刻表
+ */
+const RouteBrowser: React.FC<RouteBrowserProps> = ({
+  data,
+  selectedRouteId,
+  routeDetail,
+  timeOffset,
+  hiddenAgencyIds,
+  onSelectRoute,
+  onSelectTrip,
+  onClose,
+}) => {
+  const [query, setQuery] = useState("");
+  const [selectedVariantKey, setSelectedVariantKey] = useState<string | null>(
+    null,
+  );
+  useLocale();
+
+  // 路線番号順の路線一覧（入力と事業者で絞り込み）
+  const routeIds = useMemo(() => {
+    const q = katakanaToHiragana(query.trim().toLowerCase());
+    return Object.keys(data.routes)
+      .filter((rid) => isRouteVisible(rid, data.routes, hiddenAgencyIds))
+      .filter(
+        (rid) =>
+          !q ||
+          katakanaToHiragana(
+            (data.routes[rid].short_name || rid).toLowerCase(),
+          ).includes(q),
+      )
+      .sort((a, b) =>
+        (data.routes[a].short_name || a).localeCompare(
+          data.routes[b].short_name || b,
+          "ja",
+          { numeric: true },
+        ),
+      );
+  }, [data.routes, query, hiddenAgencyIds]);
+
+  // 表示日に運行する便のみで行先別にまとめる
+  const variants = useMemo(() => {
+    if (!routeDetail || routeDetail.route_id !== selectedRouteId) return null;
+    const displayNow = getDisplayNow(timeOffset);
+    const runningTrips: Record<string, TripInfo> = {};
+    Object.keys(routeDetail.trips).forEach((tid) => {
+      const trip = routeDetail.trips[tid];
+      if (
+        isServiceRunningToday(
+          trip.service_id,
+          data.calendar,
+          data.extra,
+          displayNow,
+        )
+      ) {
+        runningTrips[tid] = trip;
+      }
+    });
+    return groupVariants(runningTrips);
+  }, [routeDetail, selectedRouteId, timeOffset, data.calendar, data.extra]);
+
+  const selectedVariant =
+    variants?.find((v) => v.key === selectedVariantKey) || null;
+
+  const renderBadge = (rid: string) => (
+    <span
+      className="route-badge"
+      style={{ background: "#" + (data.routes[rid]?.color || "00703c") }}
+    >
+      {data.routes[rid]?.short_name || rid}
+    </span>
+  );
+
+  // --- 路線一覧 ---
+  if (!selectedRouteId) {
+    return (
+      <div id="route-browser-container">
+        <div className="journey-form">
+          <div className="journey-header">
+            <span
+              className="journey-back-btn"
+              onClick={onClose}
+              title={t("back")}
+            >
+              <ArrowLeft size={20} />
+            </span>
+            {t("search.routeBrowser")}
+          </div>
+          <div className="journey-field">
+            <Search size={18} />
+            <input
+              type="text"
+              placeholder={t("routes.filter")}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+        </div>
+        <div id="search-results">
+          {routeIds.length === 0 && (
+            <div className="empty-message">{t("routes.notFound")}</div>
+          )}
+          {routeIds.map((rid) => (
+            <div
+              key={rid}
+              className="search-item"
+              onClick={() => {
+                setSelectedVariantKey(null);
+                onSelectRoute(rid);
+              }}
+            >
+              {renderBadge(rid)}
+              <div className="search-item-info">
+                <div className="search-item-name">
+                  {t("route", { route: data.routes[rid].short_name || rid })}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  // --- 選択した路線 ---
+  return (
+    <div id="route-browser-container">
+      <div className="journey-form">
+        <div className="journey-header">
+          <span
+            className="journey-back-btn"
+            onClick={() =>
+              selectedVariant
+                ? setSelectedVariantKey(null)
+                : onSelectRoute(null)
+            }
+            title={t("back")}
+          >
+            <ArrowLeft size={20} />
+          </span>
+          {renderBadge(selectedRouteId)}
+          {selectedVariant
+            ? formatHeadsign(selectedVariant.headsign)
+            : t("route", {
+                route:
+                  data.routes[selectedRouteId]?.short_name || selectedRouteId,
+              })}
+        </div>
+      </div>
+
+      <div id="search-results">
+        {!variants && <div className="empty-message">{t("loading")}</div>}
+        {variants && variants.length === 0 && (
+          <div className="empty-message">
+            {t(timeOffset ? "panel.noServiceOnDate" : "panel.noServiceToday")}
+          </div>
+        )}
+
+        {variants && !selectedVariant && variants.length > 0 && (
+          <>
+            <div className="results-header">
+              {timeOffset
+                ? t("routes.variantsOnDate")
+                : t("routes.variantsToday")}
+            </div>
+            {variants.map((v) => {
+              const first = v.trips[0].trip.stops[0]?.time || "";
+              const last =
+                v.trips[v.trips.length - 1].trip.stops[0]?.time || "";
+              return (
+                <div
+                  key={v.key}
+                  className="search-item"
+                  onClick={() => setSelectedVariantKey(v.key)}
+                >
+                  <div className="search-item-info">
+                    <div className="search-item-name">
+                      {formatHeadsign(v.headsign)}
+                    </div>
+                    <div className="search-item-yomi">
+                      {v.via && `${t("via", { via: v.via })} ・ `}
+                      {t("routes.tripCount", {
+                        count: v.trips.length,
+                        first: formatServiceTime(first),
+                        last: formatServiceTime(last),
+                      })}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </>
+        )}
+
+        {selectedVariant && (
+          <div className="route-matrix-wrapper">
+            <table className="route-matrix">
+              <thead>
+                <tr>
+                  <th className="route-matrix-stop">
+                    {selectedVariant.via &&
+                      t("via", { via: selectedVariant.via })}
+                  </th>
+                  {selectedVariant.trips.map(({ tripId }, i) => (
+                    <th
+                      key={tripId}
+                      onClick={() => onSelectTrip(tripId, selectedRouteId)}
+                      title={t("routes.showTrip")}
+                    >
+                      {i + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {selectedVariant.rows.map((row) => (
+                  <tr key={row.key}>
+                    <th className="route-matrix-stop">
+                      {translateName(
+                        routeDetail?.stops[row.stopId]?.name || row.stopId,
+                      )}
+                    </th>
+                    {selectedVariant.trips.map(({ tripId, times }) => {
+                      const time = times[row.key];
+                      return (
+                        <td
+                          key={tripId}
+                          onClick={() => onSelectTrip(tripId, selectedRouteId)}
+                        >
+                          {time ? formatServiceTime(time) : "‖"}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RouteBrowser;
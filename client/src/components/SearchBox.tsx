@@ -1,33 +1,143 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
-import { Search, X, MapPin, History } from "lucide-react";
-import type { StopsData } from "../types";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  Search,
+  X,
+  MapPin,
+  History,
+  Route,
+  List,
+  LocateFixed,
+  Timer,
+} from "lucide-react";
+import type { EssentialData, StopsData } from "../types";
+import type { Favorite } from "../utils";
 import {
   getSearchHistory,
   saveSearchHistory,
   removeFromSearchHistory,
+  getFavorites,
+  removeFavorite,
+  formatHeadsign,
 } from "../utils";
+import type {
+  HeadsignSearchResult,
+  RouteSearchResult,
+  StopSearchResult,
+} from "../search";
+import {
+  normalizeSearchText,
+  searchHeadsigns,
+  searchRoutes,
+  searchStopGroups,
+} from "../search";
+import type { MessageKey } from "../i18n";
+import { t, translateName, useLocale } from "../i18n";
 import { fetchAllStops } from "../dataLoader";
+import FavoriteList from "./FavoriteList";
+import HighlightText from "./HighlightText";
 
 interface SearchBoxProps {
+  data: EssentialData;
+  /** 表示中の日時と実時刻との差 (ms)。お気に入りの発車予定に使う */
+  timeOffset: number;
+  /** 検索結果に表示しない事業者ID */
+  hiddenAgencyIds: string[];
   onSelectStop: (stopName: string, lat: number, lng: number) => void;
+  /** 路線番号・行先の検索結果から路線を選んだとき */
+  onSelectRoute: (routeId: string) => void;
   onSearchStateChange: (isSearching: boolean) => void;
   onFocus?: () => void;
+  onOpenJourneyPlanner?: () => void;
+  onOpenRouteBrowser?: () => void;
+  onOpenNearby?: () => void;
+  onOpenIsochrone?: () => void;
   isOpen?: boolean;
 }
 
+/** 検索欄の下に表示する一覧（お気に入りと履歴、または検索結果） */
+type SearchListing =
+  | { kind: "history"; historyIds: string[]; favorites: Favorite[] }
+  | {
+      kind: "search";
+      stops: StopSearchResult[];
+      routes: RouteSearchResult[];
+      headsigns: HeadsignSearchResult[];
+      /** 路線番号に完全一致したか（路線をバス停より先に表示する） */
+      isExactRoute: boolean;
+    };
+
+/** 一覧の候補の1件 */
+interface SearchOption {
+  key: string;
+  icon: React.ReactNode;
+  name: React.ReactNode;
+  detail?: React.ReactNode;
+  /** 読み上げ用のラベル（省略時は表示内容を読み上げる） */
+  label?: string;
+  onSelect: () => void;
+  /** 履歴から削除する（最近の検索のみ） */
+  onRemove?: () => void;
+}
+
+/** 見出しつきの候補のまとまり */
+interface SearchSection {
+  key: string;
+  title: string;
+  options: SearchOption[];
+  /** 一覧全体での最初の候補の位置 */
+  startIndex: number;
+}
+
+/** 文言の {param} の部分に要素（一致箇所を強調した名前など）を入れる */
+function fillMessage(
+  key: MessageKey,
+  param: string,
+  node: React.ReactNode,
+): React.ReactNode {
+  const [before, after = ""] = t(key).split(`{${param}}`);
+  return (
+    <>
+      {before}
+      {node}
+      {after}
+    </>
+  );
+}
+
+/** 候補の要素ID（aria-activedescendant で参照する） */
+function getOptionId(index: number): string {
+  return `search-option-${index}`;
+}
+
 const SearchBox: React.FC<SearchBoxProps> = ({
+  data,
+  timeOffset,
+  hiddenAgencyIds,
   onSelectStop,
+  onSelectRoute,
   onSearchStateChange,
   onFocus,
+  onOpenJourneyPlanner,
+  onOpenRouteBrowser,
+  onOpenNearby,
+  onOpenIsochrone,
   isOpen = true,
 }) => {
   const [searchQuery, setSearchQuery] = useState("");
   const [showSearchResults, setShowSearchResults] = useState(false);
-  const [searchResults, setSearchResults] = useState<React.ReactNode[] | null>(
-    null,
-  );
+  const [listing, setListing] = useState<SearchListing | null>(null);
+  // キーボードで選択中の候補の位置（-1 は未選択）
+  const [activeIndex, setActiveIndex] = useState(-1);
   const inputRef = useRef<HTMLInputElement>(null);
   const [allStops, setAllStops] = useState<StopsData>({});
+  // 表示言語を切り替えたときに再描画する（候補の一覧は開き直したときに作り直す）
+  useLocale();
 
   // 初回マウント時に全バス停データを取得してキャッシュ
   useEffect(() => {
@@ -57,183 +167,68 @@ const SearchBox: React.FC<SearchBoxProps> = ({
     [onSearchStateChange, onSelectStop],
   );
 
-  const showHistoryResults = useCallback(
-    function showHistory() {
-      if (onFocus) onFocus();
-
-      const historyIds = getSearchHistory();
-      if (historyIds.length === 0) {
-        setShowSearchResults(false);
-        onSearchStateChange(false);
-        return;
+  const handleSelectRoute = useCallback(
+    (routeId: string) => {
+      setShowSearchResults(false);
+      onSearchStateChange(false);
+      setSearchQuery("");
+      if (inputRef.current) {
+        inputRef.current.blur();
       }
-
-      onSearchStateChange(true);
-      const items = [
-        <div key="header" className="results-header">
-          最近の検索
-        </div>,
-        ...historyIds
-          .filter((id) => allStops[id])
-          .map((id) => {
-            const s = allStops[id];
-            return (
-              <div
-                key={id}
-                className="search-item"
-                onClick={() => handleSelect(s.name, s.lat, s.lng, id)}
-              >
-                <History size={20} />
-                <div className="search-item-info">
-                  <div className="search-item-name">{s.name}</div>
-                  <div className="search-item-yomi">{s.yomi}</div>
-                </div>
-                <span
-                  className="delete-btn"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    removeFromSearchHistory(id);
-                    showHistory();
-                  }}
-                >
-                  <X size={18} />
-                </span>
-              </div>
-            );
-          }),
-      ];
-      setSearchResults(items);
-      setShowSearchResults(true);
+      onSelectRoute(routeId);
     },
-    [allStops, onFocus, onSearchStateChange, handleSelect],
+    [onSearchStateChange, onSelectRoute],
   );
 
-  // カタカナをひらがなに変換
-  const katakanaToHiragana = useCallback((str: string): string => {
-    return str.replace(/[\u30A1-\u30F6]/g, (match) => {
-      const chr = match.charCodeAt(0) - 0x60;
-      return String.fromCharCode(chr);
-    });
-  }, []);
-
-  // 漢字とひらがなの混在検索に対応した柔軟なマッチング関数
-  const flexibleMatch = useCallback(
-    (name: string, yomi: string, query: string): boolean => {
-      let namePos = 0;
-      let yomiPos = 0;
+  const renderBadge = useCallback(
+    (routeId: string) => (
+      <span
+        className="route-badge"
+        style={{ background: "#" + (data.routes[routeId]?.color || "00703c") }}
+      >
+        {data.routes[routeId]?.short_name || routeId}
+      </span>
+    ),
+    [data.routes],
+  );
 
-      for (const char of query) {
-        const isKanji = /[\u4E00-\u9FAF\u3400-\u4DBF]/.test(char);
-        const isKana = /[\u3040-\u309F\u30A0-\u30FF]/.test(char);
+  const showHistoryResults = useCallback(() => {
+    if (onFocus) onFocus();
+    setActiveIndex(-1);
 
-        if (isKanji) {
-          // 漢字は名前から検索
-          const pos = name.indexOf(char, namePos);
-          if (pos === -1) return false;
-          namePos = pos + 1;
-        } else if (isKana) {
-          // ひらがな・カタカナは読みから検索（カタカナはひらがなに正規化）
-          const normalizedChar = katakanaToHiragana(char);
-          const pos = yomi.indexOf(normalizedChar, yomiPos);
-          if (pos === -1) return false;
-          yomiPos = pos + 1;
-        } else {
-          // その他の文字（数字、記号など）は両方で検索
-          const nameMatch = name.indexOf(char, namePos);
-          const yomiMatch = yomi.indexOf(char, yomiPos);
-          if (nameMatch === -1 && yomiMatch === -1) return false;
-          if (nameMatch !== -1) namePos = nameMatch + 1;
-          if (yomiMatch !== -1) yomiPos = yomiMatch + 1;
-        }
-      }
+    const historyIds = getSearchHistory();
+    const favorites = getFavorites();
+    if (historyIds.length === 0 && favorites.length === 0) {
+      setShowSearchResults(false);
+      onSearchStateChange(false);
+      return;
+    }
 
-      return true;
-    },
-    [katakanaToHiragana],
-  );
+    onSearchStateChange(true);
+    setListing({ kind: "history", historyIds, favorites });
+    setShowSearchResults(true);
+  }, [onFocus, onSearchStateChange]);
 
   const handleSearch = useCallback(
     (query: string) => {
       setSearchQuery(query);
+      setActiveIndex(-1);
       if (!query || query.trim().length === 0) {
         showHistoryResults();
         return;
       }
 
-      const q = query.toLowerCase();
-
-      // バス停名でグループ化
-      const stopGroups: Record<
-        string,
-        { id: string; name: string; yomi: string; lat: number; lng: number }
-      > = {};
-      Object.keys(allStops).forEach((id) => {
-        const s = allStops[id];
-        if (!stopGroups[s.name]) {
-          stopGroups[s.name] = {
-            id,
-            name: s.name,
-            yomi: s.yomi,
-            lat: s.lat,
-            lng: s.lng,
-          };
-        }
-      });
-
-      // 柔軟なマッチングを使用
-      const candidates = Object.values(stopGroups).filter((s) =>
-        flexibleMatch(s.name.toLowerCase(), s.yomi.toLowerCase(), q),
-      );
-
-      // 先頭マッチの判定：クエリの最初の文字が名前またはよみの先頭から始まるか
-      const tier1 = candidates.filter((s) => {
-        const firstChar = q[0];
-        const isKanji = /[\u4E00-\u9FAF\u3400-\u4DBF]/.test(firstChar);
-        const isKana = /[\u3040-\u309F\u30A0-\u30FF]/.test(firstChar);
-
-        if (isKanji) {
-          return s.name.toLowerCase().startsWith(firstChar);
-        } else if (isKana) {
-          // カタカナはひらがなに正規化してから比較
-          const normalizedFirstChar = katakanaToHiragana(firstChar);
-          return s.yomi.toLowerCase().startsWith(normalizedFirstChar);
-        } else {
-          return (
-            s.name.toLowerCase().startsWith(firstChar) ||
-            s.yomi.toLowerCase().startsWith(firstChar)
-          );
-        }
-      });
-      const tier2 = candidates.filter((s) => !tier1.includes(s));
-
-      const sortByLength = (a: { name: string }, b: { name: string }) =>
-        a.name.length - b.name.length;
-      tier1.sort(sortByLength);
-      tier2.sort(sortByLength);
-
-      const results = [...tier1, ...tier2].slice(0, 5);
+      const stops = searchStopGroups(allStops, query);
+      const routes = searchRoutes(data.routes, query, hiddenAgencyIds);
+      const headsigns = searchHeadsigns(data.routes, query, hiddenAgencyIds);
 
-      if (results.length > 0) {
-        onSearchStateChange(true);
-        const items = [
-          <div key="header" className="results-header">
-            検索結果
-          </div>,
-          ...results.map((s) => (
-            <div
-              key={s.id}
-              className="search-item"
-              onClick={() => handleSelect(s.name, s.lat, s.lng, s.id)}
-            >
-              <MapPin size={20} />
-              <div className="search-item-info">
-                <div className="search-item-name">{s.name}</div>
-                <div className="search-item-yomi">{s.yomi}</div>
-              </div>
-            </div>
-          )),
-        ];
-        setSearchResults(items);
+      if (stops.length > 0 || routes.length > 0 || headsigns.length > 0) {
+        // 路線番号に完全一致したときは路線を先に表示する（J3, 804 など）
+        const isExactRoute =
+          routes.length > 0 &&
+          normalizeSearchText(data.routes[routes[0].routeId].short_name) ===
+            normalizeSearchText(query);
+        setListing({ kind: "search", stops, routes, headsigns, isExactRoute });
         setShowSearchResults(true);
         onSearchStateChange(true);
       } else {
@@ -243,26 +238,267 @@ const SearchBox: React.FC<SearchBoxProps> = ({
     },
     [
       allStops,
+      data.routes,
+      hiddenAgencyIds,
       onSearchStateChange,
       showHistoryResults,
-      handleSelect,
-      flexibleMatch,
-      katakanaToHiragana,
     ],
   );
 
+  const handleSelectFavorite = useCallback(
+    (fav: Favorite) => {
+      const s = allStops[fav.stopId];
+      if (s) handleSelect(s.name, s.lat, s.lng, fav.stopId);
+    },
+    [allStops, handleSelect],
+  );
+
+  const handleRemoveFavorite = useCallback(
+    (fav: Favorite) => {
+      removeFavorite(fav);
+      showHistoryResults();
+    },
+    [showHistoryResults],
+  );
+
+  // 表示する候補（お気に入りは FavoriteList で表示し、ここでは見出しつきのまとまりのみ）
+  const sections = useMemo((): SearchSection[] => {
+    if (!listing) return [];
+    const result: Omit<SearchSection, "startIndex">[] = [];
+
+    if (listing.kind === "history") {
+      const historyIds = listing.historyIds.filter((id) => allStops[id]);
+      if (historyIds.length > 0) {
+        result.push({
+          key: "history",
+          title: t("search.history"),
+          options: historyIds.map((id) => {
+            const s = allStops[id];
+            const name = translateName(s.name);
+            return {
+              key: id,
+              icon: <History size={20} />,
+              name,
+              detail: name !== s.name ? s.name : s.yomi,
+              onSelect: () => handleSelect(s.name, s.lat, s.lng, id),
+              onRemove: () => {
+                removeFromSearchHistory(id);
+                showHistoryResults();
+              },
+            };
+          }),
+        });
+      }
+    } else {
+      const routeSection = {
+        key: "routes",
+        title: t("search.routes"),
+        options: listing.routes.map((r): SearchOption => {
+          const shortName = data.routes[r.routeId]?.short_name || r.routeId;
+          const headsigns = [
+            ...new Set(
+              (data.routes[r.routeId]?.headsigns || []).map((h) =>
+                formatHeadsign(h.headsign),
+              ),
+            ),
+          ].join(" ・ ");
+          return {
+            key: r.routeId,
+            icon: renderBadge(r.routeId),
+            name: fillMessage(
+              "route",
+              "route",
+              <HighlightText text={shortName} ranges={r.nameRanges} />,
+            ),
+            detail: headsigns,
+            label: `${t("route", { route: shortName })} ${headsigns}`,
+            onSelect: () => handleSelectRoute(r.routeId),
+          };
+        }),
+      };
+      if (listing.isExactRoute) result.push(routeSection);
+      result.push({
+        key: "stops",
+        title: t("search.stops"),
+        options: listing.stops.map((s) => {
+          const name = translateName(s.name);
+          // 訳があれば訳を大きく表示し、一致した部分は日本語の名前で示す
+          return {
+            key: s.id,
+            icon: <MapPin size={20} />,
+            name:
+              name !== s.name ? (
+                name
+              ) : (
+                <HighlightText text={s.name} ranges={s.nameRanges} />
+              ),
+            detail:
+              name !== s.name ? (
+                <HighlightText text={s.name} ranges={s.nameRanges} />
+              ) : (
+                <HighlightText text={s.yomi} ranges={s.yomiRanges} />
+              ),
+            label: name !== s.name ? `${name} ${s.name}` : undefined,
+            onSelect: () => handleSelect(s.name, s.lat, s.lng, s.id),
+          };
+        }),
+      });
+      if (!listing.isExactRoute) result.push(routeSection);
+      result.push({
+        key: "headsigns",
+        title: t("search.headsigns"),
+        options: listing.headsigns.map((h) => {
+          const shortName = data.routes[h.routeId]?.short_name || h.routeId;
+          const headsign = translateName(h.headsign);
+          // 訳した行先は一致した部分が分からないため強調しない
+          const headsignText =
+            headsign !== h.headsign ? (
+              headsign
+            ) : (
+              <HighlightText text={h.headsign} ranges={h.headsignRanges} />
+            );
+          return {
+            key: `${h.routeId}|${h.headsign}|${h.via}`,
+            icon: renderBadge(h.routeId),
+            name: h.headsign.includes("循環")
+              ? headsignText
+              : fillMessage("headsign", "name", headsignText),
+            detail:
+              h.via &&
+              fillMessage(
+                "via",
+                "via",
+                <HighlightText text={h.via} ranges={h.viaRanges} />,
+              ),
+            label: `${t("route", { route: shortName })} ${formatHeadsign(h.headsign)}${h.via ? ` ${t("via", { via: h.via })}` : ""}`,
+            onSelect: () => handleSelectRoute(h.routeId),
+          };
+        }),
+      });
+    }
+
+    // お気に入りの後ろから順に、一覧全体での位置を振る
+    let index = listing.kind === "history" ? listing.favorites.length : 0;
+    return result
+      .filter((section) => section.options.length > 0)
+      .map((section) => {
+        const startIndex = index;
+        index += section.options.length;
+        return { ...section, startIndex };
+      });
+  }, [
+    listing,
+    allStops,
+    data.routes,
+    handleSelect,
+    handleSelectRoute,
+    renderBadge,
+    showHistoryResults,
+  ]);
+
+  // キーボードで選べる候補の選択時の処理（一覧の表示順）
+  // 一覧全体の候補の操作（選ぶ・削除する）。お気に入りと履歴は Delete キーでも削除できる
+  const optionActions = useMemo(
+    (): Pick<SearchOption, "onSelect" | "onRemove">[] => [
+      ...(listing?.kind === "history" ? listing.favorites : []).map((fav) => ({
+        onSelect: () => handleSelectFavorite(fav),
+        onRemove: () => handleRemoveFavorite(fav),
+      })),
+      ...sections.flatMap((section) => section.options),
+    ],
+    [listing, sections, handleSelectFavorite, handleRemoveFavorite],
+  );
+
   const clearSearch = useCallback(() => {
     setSearchQuery("");
     setShowSearchResults(false);
+    setActiveIndex(-1);
     onSearchStateChange(false);
   }, [onSearchStateChange]);
 
-  // 外部から isOpen = false で閉じられたら、検索結果を非表示にする
+  // 外部から isOpen = false で閉じられた場合も、検索結果を非表示にする
+  const isExpanded = isOpen && showSearchResults && !!listing;
+
+  // 候補の一覧のキーボード操作（↑↓で選択、Enter で決定、Escape で閉じる）
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // 日本語入力の変換中のキー操作は候補の選択に使わない
+      if (e.nativeEvent.isComposing) return;
+      const count = optionActions.length;
+
+      switch (e.key) {
+        case "ArrowDown":
+        case "ArrowUp":
+          e.preventDefault();
+          if (!isExpanded) {
+            handleSearch(searchQuery);
+            return;
+          }
+          if (count === 0) return;
+          setActiveIndex((i) =>
+            e.key === "ArrowDown"
+              ? (i + 1) % count
+              : i <= 0
+                ? count - 1
+                : i - 1,
+          );
+          break;
+        case "Enter": {
+          if (!isExpanded || count === 0) return;
+          // 未選択のときは、検索結果の先頭を選ぶ（履歴は選ばない）
+          const index =
+            activeIndex >= 0
+              ? activeIndex
+              : listing?.kind === "search"
+                ? 0
+                : -1;
+          if (index < 0) return;
+          e.preventDefault();
+          optionActions[index].onSelect();
+          break;
+        }
+        case "Delete":
+        case "Backspace": {
+          // 入力欄の文字の削除と区別するため、候補を選択中の場合のみ
+          const onRemove = isExpanded && optionActions[activeIndex]?.onRemove;
+          if (!onRemove) return;
+          e.preventDefault();
+          onRemove();
+          // 削除した候補の位置（末尾なら1つ前）を選んだままにする
+          setActiveIndex(Math.min(activeIndex, count - 2));
+          break;
+        }
+        case "Escape":
+          e.preventDefault();
+          if (isExpanded) {
+            setShowSearchResults(false);
+            setActiveIndex(-1);
+            onSearchStateChange(false);
+          } else if (searchQuery) {
+            clearSearch();
+          }
+          break;
+      }
+    },
+    [
+      optionActions,
+      isExpanded,
+      searchQuery,
+      activeIndex,
+      listing,
+      handleSearch,
+      clearSearch,
+      onSearchStateChange,
+    ],
+  );
+
+  // 選択中の候補が見えるようにスクロールする
   useEffect(() => {
-    if (!isOpen) {
-      setShowSearchResults(false);
-    }
-  }, [isOpen]);
+    if (activeIndex < 0) return;
+    document
+      .getElementById(getOptionId(activeIndex))
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
 
   // 外クリックで閉じる
   useEffect(() => {
@@ -288,9 +524,20 @@ const SearchBox: React.FC<SearchBoxProps> = ({
         <input
           ref={inputRef}
           type="text"
-          placeholder="バス停を検索"
+          placeholder={t("search.placeholder")}
           value={searchQuery}
+          role="combobox"
+          aria-label={t("search.placeholder")}
+          aria-autocomplete="list"
+          aria-expanded={isExpanded}
+          aria-controls="search-results"
+          aria-activedescendant={
+            isExpanded && activeIndex >= 0
+              ? getOptionId(activeIndex)
+              : undefined
+          }
           onChange={(e) => handleSearch(e.target.value)}
+          onKeyDown={handleKeyDown}
           onFocus={showHistoryResults}
           onClick={showHistoryResults}
         />
@@ -299,10 +546,123 @@ const SearchBox: React.FC<SearchBoxProps> = ({
             <X size={20} />
           </span>
         )}
+        {onOpenJourneyPlanner && (
+          <span
+            className="journey-open-btn"
+            onClick={onOpenJourneyPlanner}
+            title={t("search.journeyPlanner")}
+          >
+            <Route size={20} />
+          </span>
+        )}
+        {onOpenRouteBrowser && (
+          <span
+            className="journey-open-btn"
+            onClick={onOpenRouteBrowser}
+            title={t("search.routeBrowser")}
+          >
+            <List size={20} />
+          </span>
+        )}
+        {onOpenNearby && (
+          <span
+            className="journey-open-btn"
+            onClick={onOpenNearby}
+            title={t("search.nearby")}
+          >
+            <LocateFixed size={20} />
+          </span>
+        )}
+        {onOpenIsochrone && (
+          <span
+            className="journey-open-btn"
+            onClick={onOpenIsochrone}
+            title={t("search.isochrone")}
+          >
+            <Timer size={20} />
+          </span>
+        )}
       </div>
-      {showSearchResults && searchResults && (
-        <div id="search-results">{searchResults}</div>
+      {isExpanded && (
+        <div
+          id="search-results"
+          role="listbox"
+          aria-label={t("search.suggestions")}
+        >
+          {listing.kind === "history" && listing.favorites.length > 0 && (
+            <div role="group" aria-labelledby="search-section-favorites">
+              <div id="search-section-favorites" className="results-header">
+                {t("search.favorites")}
+              </div>
+              <FavoriteList
+                data={data}
+                stops={allStops}
+                favorites={listing.favorites}
+                timeOffset={timeOffset}
+                getOptionId={getOptionId}
+                activeIndex={activeIndex}
+                onSelect={handleSelectFavorite}
+                onRemove={handleRemoveFavorite}
+              />
+            </div>
+          )}
+          {sections.map((section) => (
+            <div
+              key={section.key}
+              role="group"
+              aria-labelledby={`search-section-${section.key}`}
+            >
+              <div
+                id={`search-section-${section.key}`}
+                className="results-header"
+              >
+                {section.title}
+              </div>
+              {section.options.map((option, i) => {
+                const index = section.startIndex + i;
+                return (
+                  <div
+                    key={option.key}
+                    id={getOptionId(index)}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    aria-label={option.label}
+                    aria-keyshortcuts={option.onRemove ? "Delete" : undefined}
+                    className={`search-item ${index === activeIndex ? "active" : ""}`}
+                    onClick={option.onSelect}
+                  >
+                    {option.icon}
+                    <div className="search-item-info">
+                      <div className="search-item-name">{option.name}</div>
+                      {option.detail && (
+                        <div className="search-item-yomi">{option.detail}</div>
+                      )}
+                    </div>
+                    {option.onRemove && (
+                      <span
+                        className="delete-btn"
+                        aria-hidden="true"
+                        title={t("search.removeHistory")}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          option.onRemove?.();
+                        }}
+                      >
+                        <X size={18} />
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
       )}
+      <div className="visually-hidden" role="status">
+        {isExpanded && listing?.kind === "search"
+          ? t("search.resultCount", { count: optionActions.length })
+          : ""}
+      </div>
     </div>
   );
 };
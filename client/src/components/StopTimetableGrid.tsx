@@ -0,0 +1,224 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { createPortal } from "react-dom";
+import { X, Printer, Download } from "lucide-react";
+import type { AppData, TimetablesData } from "../types";
+import type { DayType } from "../stopTimetable";
+import {
+  DAY_TYPE_LABELS,
+  buildTimetableGrid,
+  formatGridHour,
+  getAvailableDayTypes,
+  timetableGridToCsv,
+} from "../stopTimetable";
+import { formatHeadsign, getDisplayNow } from "../utils";
+import { fetchStopTimetable } from "../dataLoader";
+import { t } from "../i18n";
+import { toTokyoDateTime } from "../serviceCalendar";
+
+interface StopTimetableGridProps {
+  data: AppData;
+  /** 対象のバス停（のりば）ID。同名バス停をまとめる場合は複数 */
+  stopIds: string[];
+  title: string;
+  /** 表示中の日時と実時刻との差 (ms)。初期表示のタブとダイヤの判定に使う */
+  timeOffset: number;
+  onSelectBus: (tripId: string, routeId: string, highlightId?: string) => void;
+  onClose: () => void;
+}
+
+/** 表示日の曜日区分（祝日の判定はしない） */
+function getDayType(date: Date): DayType {
+  const { dayIndex } = toTokyoDateTime(date);
+  return dayIndex === 6 ? "holiday" : dayIndex === 5 ? "saturday" : "weekday";
+}
+
+/**
+ * 紙の時刻表形式（時 × 分）のバス停時刻表
+ * 印刷時はこの表のみを出力する
+ */
+const StopTimetableGrid: React.FC<StopTimetableGridProps> = ({
+  data,
+  stopIds,
+  title,
+  timeOffset,
+  onSelectBus,
+  onClose,
+}) => {
+  const [timetables, setTimetables] = useState<TimetablesData | null>(null);
+  const [activeDayType, setActiveDayType] = useState<DayType>(() =>
+    getDayType(getDisplayNow(timeOffset)),
+  );
+
+  // 全のりばの時刻表を取得してまとめる
+  useEffect(() => {
+    let cancelled = false;
+    const loadTimetables = async () => {
+      try {
+        const results = await Promise.all(stopIds.map(fetchStopTimetable));
+        const merged: TimetablesData = {};
+        results.forEach((r) => {
+          Object.keys(r.timetables).forEach((rid) => {
+            merged[rid] = { ...(merged[rid] || {}), ...r.timetables[rid] };
+          });
+        });
+        if (!cancelled) setTimetables(merged);
+      } catch (e) {
+        console.error("時刻表の取得に失敗しました:", e);
+      }
+    };
+    loadTimetables();
+    return () => {
+      cancelled = true;
+    };
+  }, [stopIds]);
+
+  const dayTypes = useMemo(
+    () =>
+      timetables
+        ? getAvailableDayTypes(timetables, stopIds, data.calendar)
+        : [],
+    [timetables, stopIds, data.calendar],
+  );
+  const dayType = dayTypes.includes(activeDayType)
+    ? activeDayType
+    : dayTypes[0] || activeDayType;
+
+  const grid = useMemo(
+    () =>
+      timetables
+        ? buildTimetableGrid(
+            timetables,
+            stopIds,
+            data.calendar,
+            dayType,
+            getDisplayNow(timeOffset),
+          )
+        : null,
+    [timetables, stopIds, data.calendar, dayType, timeOffset],
+  );
+
+  const routeName = (rid: string) => data.routes[rid]?.short_name || rid;
+
+  const handleDownloadCsv = () => {
+    if (!grid) return;
+    const routeNames: Record<string, string> = {};
+    grid.legend.forEach((item) => {
+      routeNames[item.routeId] = routeName(item.routeId);
+    });
+    const csv = timetableGridToCsv(
+      grid,
+      `${title} ${t(DAY_TYPE_LABELS[dayType])}`,
+      routeNames,
+    );
+    // Excel で文字化けしないよう BOM を付ける
+    const blob = new Blob(["\uFEFF" + csv], {
+      type: "text/csv;charset=utf-8",
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${title}_${t(DAY_TYPE_LABELS[dayType])}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return createPortal(
+    <div className="timetable-grid-overlay" onClick={onClose}>
+      <div
+        className="timetable-grid-modal"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="timetable-grid-header">
+          <div className="timetable-grid-title">
+            {title}
+            <span className="timetable-grid-daytype">
+              {t(DAY_TYPE_LABELS[dayType])}
+            </span>
+          </div>
+          <div className="timetable-grid-actions">
+            <button
+              onClick={handleDownloadCsv}
+              disabled={!grid}
+              title={t("timetable.saveCsv")}
+            >
+              <Download size={20} />
+            </button>
+            <button
+              onClick={() => window.print()}
+              disabled={!grid}
+              title={t("timetable.print")}
+            >
+              <Printer size={20} />
+            </button>
+            <button onClick={onClose} title={t("close")}>
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        {dayTypes.length > 0 && (
+          <div className="timetable-grid-tabs">
+            {dayTypes.map((type) => (
+              <button
+                key={type}
+                className={type === dayType ? "active" : ""}
+                onClick={() => setActiveDayType(type)}
+              >
+                {t(DAY_TYPE_LABELS[type])}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="timetable-grid-content">
+          {!grid && <div className="empty-message">{t("loading")}</div>}
+          {grid && grid.rows.length === 0 && (
+            <div className="empty-message">{t("timetable.noService")}</div>
+          )}
+          {grid && grid.rows.length > 0 && (
+            <>
+              <table className="timetable-grid">
+                <tbody>
+                  {grid.rows.map((row) => (
+                    <tr key={row.hour}>
+                      <th>{formatGridHour(row.hour)}</th>
+                      <td>
+                        {row.entries.map((e) => (
+                          <span
+                            key={`${e.routeId}/${e.tripId}`}
+                            className="timetable-grid-minute"
+                            onClick={() => {
+                              onClose();
+                              onSelectBus(e.tripId, e.routeId, e.stopId);
+                            }}
+                          >
+                            {e.marker && <small>{e.marker}</small>}
+                            {e.minute}
+                          </span>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <ul className="timetable-grid-legend">
+                {grid.legend.map((item) => (
+                  <li key={`${item.routeId}|${item.headsign}|${item.via}`}>
+                    <span className="timetable-grid-marker">
+                      {item.marker || t("timetable.noMarker")}
+                    </span>
+                    [{routeName(item.routeId)}] {formatHeadsign(item.headsign)}
+                    {item.via && ` （${t("via", { via: item.via })}）`}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+};
+
+export default StopTimetableGrid;
@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from "react";
+import { CalendarClock, X } from "lucide-react";
+import { formatMonthDay, getDisplayNow } from "../utils";
+import { toTokyoDateTime } from "../serviceCalendar";
+import { t, useLocale } from "../i18n";
+
+interface TimeTravelControlProps {
+  /** 表示中の日時と実時刻との差 (ms)。0 なら現在時刻 */
+  timeOffset: number;
+  onChange: (timeOffset: number) => void;
+}
+
+/** Date を日本時間の input[type=date] / input[type=time] 用の文字列に分解 */
+function toInputValues(date: Date): { date: string; time: string } {
+  const { ymd, hours, minutes } = toTokyoDateTime(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return {
+    date: `${ymd.slice(0, 4)}-${ymd.slice(4, 6)}-${ymd.slice(6, 8)}`,
+    time: `${pad(hours)}:${pad(minutes)}`,
+  };
+}
+
+/** バナー表示用の日時フォーマット (例: 2026/10/24(土) 08:00) */
+function formatMoment(date: Date): string {
+  const { date: ymd, time } = toInputValues(date);
+  return `${ymd.slice(0, 4)}/${formatMonthDay(date)} ${time}`;
+}
+
+const TimeTravelControl: React.FC<TimeTravelControlProps> = ({
+  timeOffset,
+  onChange,
+}) => {
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [draft, setDraft] = useState(() => toInputValues(new Date()));
+  const [, setTick] = useState(0);
+  useLocale();
+
+  // 外クリックでメニューを閉じる
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      const target = e.target as HTMLElement;
+      if (!target.closest("#time-travel-container")) {
+        setMenuOpen(false);
+      }
+    };
+    document.addEventListener("click", handler);
+    return () => document.removeEventListener("click", handler);
+  }, []);
+
+  // タイムトラベル中はバナーの時刻を進める
+  useEffect(() => {
+    if (!timeOffset) return;
+    const interval = setInterval(() => setTick((t) => t + 1), 10000);
+    return () => clearInterval(interval);
+  }, [timeOffset]);
+
+  const handleToggle = () => {
+    if (!menuOpen) setDraft(toInputValues(getDisplayNow(timeOffset)));
+    setMenuOpen((v) => !v);
+  };
+
+  const handleApply = () => {
+    // 入力は日本時間として解釈する
+    const target = new Date(`${draft.date}T${draft.time}:00+09:00`);
+    if (isNaN(target.getTime())) return;
+    onChange(target.getTime() - Date.now());
+    setMenuOpen(false);
+  };
+
+  const handleReset = () => {
+    onChange(0);
+    setMenuOpen(false);
+  };
+
+  return (
+    <>
+      <div id="time-travel-container">
+        <div
+          id="time-travel-btn"
+          className={timeOffset ? "active" : ""}
+          onClick={(e) => {
+            e.stopPropagation();
+            handleToggle();
+          }}
+          title={t("timeTravel.open")}
+        >
+          <CalendarClock size={22} />
+        </div>
+        <div id="time-travel-menu" className={menuOpen ? "show" : ""}>
+          <div className="time-travel-title">{t("timeTravel.title")}</div>
+          <input
+            type="date"
+            value={draft.date}
+            onChange={(e) => setDraft((d) => ({ ...d, date: e.target.value }))}
+          />
+          <input
+            type="time"
+            value={draft.time}
+            onChange={(e) => setDraft((d) => ({ ...d, time: e.target.value }))}
+          />
+          <button className="time-travel-apply" onClick={handleApply}>
+            {t("timeTravel.apply")}
+          </button>
+          <button
+            className="time-travel-reset"
+            onClick={handleReset}
+            disabled={!timeOffset}
+          >
+            {t("timeTravel.reset")}
+          </button>
+        </div>
+      </div>
+
+      {timeOffset !== 0 && (
+        <div className="time-travel-banner">
+          {t("timeTravel.showing", {
+            moment: formatMoment(getDisplayNow(timeOffset)),
+          })}
+          <span
+            className="time-travel-banner-close"
+            onClick={handleReset}
+            title={t("timeTravel.reset")}
+          >
+            <X size={16} />
+          </span>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TimeTravelControl;
@@ -1,77 +1,129 @@
 import type {
   AppData,
   BusPosition,
-  CalendarData,
-  ExtraData,
-  RoutesData,
+  EssentialData,
+  RouteDetailResponse,
   ShapesData,
+  StopInfo,
   StopsData,
+  StopTimetableResponse,
   TimetablesData,
+  TripDetailResponse,
 } from "./types";
+import type { DataSource } from "./dataSources";
+import {
+  createApiDataSource,
+  createMemoryDataSource,
+  createOfflineDataSource,
+  createRealtimeDataSource,
+  createStaticDataSource,
+  loadStaticData,
+} from "./dataSources";
+import type { RealtimeFeedSource } from "./realtime";
+import { parseRealtimeFeedSource } from "./realtime";
 
 const DATA_BASE_URL = "/data";
-const API_BASE =
+const DEFAULT_API_BASE =
   "https://sendai-bus-map-api-455968320156.asia-northeast1.run.app/api"; // バックエンド API ベース
 
+// ==================== データソースの選択 ====================
+
 /**
- * 指定パスの JSON を fetch して型付きで返す（旧実装：静的ファイル用）
+ * 実行時の設定からデータソースを決定する
+ * 優先順位: URL クエリ (?source=, ?api=) > ビルド時の環境変数 (VITE_DATA_SOURCE, VITE_API_BASE) > 既定値
+ *
+ * - api     : バックエンド API（?api=http://localhost:8080/api でローカルサーバーも指定可）
+ *             取得したデータは IndexedDB に保存し、オフライン時はそこから表示する
+ * - static  : /data の静的 JSON を読み込み、クライアント側で計算（?simulate も同じ）
+ *             JSON は IndexedDB に保存し、オフライン時はそこから読み込む
+ * - fixture : 同梱の小さなフィクスチャデータ
+ *
+ * GTFS-Realtime フィードの URL があれば、バス位置にリアルタイム情報を合わせる（resolveRealtimeFeeds）
  */
-async function fetchJson<T>(path: string): Promise<T> {
-  const res = await fetch(`${DATA_BASE_URL}/${path}`);
-  if (!res.ok) {
-    throw new Error(`データの読み込みに失敗しました: ${path} (${res.status})`);
+function resolveBaseDataSource(params: URLSearchParams): DataSource {
+  const kind =
+    params.get("source") ||
+    (params.has("simulate") ? "static" : null) ||
+    import.meta.env.VITE_DATA_SOURCE ||
+    "api";
+
+  switch (kind) {
+    case "static":
+      return createStaticDataSource(DATA_BASE_URL);
+    case "fixture":
+      return createMemoryDataSource(
+        () => import("./fixtureData").then((m) => m.fixtureData),
+        "fixture",
+      );
+    default:
+      return createOfflineDataSource(
+        createApiDataSource(
+          params.get("api") ||
+            import.meta.env.VITE_API_BASE ||
+            DEFAULT_API_BASE,
+        ),
+      );
   }
-  return res.json() as Promise<T>;
 }
 
 /**
- * サーバーAPIから JSON を fetch して型付きで返す
+ * GTFS-Realtime フィード
+ * ?rt= (複数指定・カンマ区切り可) > VITE_GTFS_RT_URLS (カンマ区切り)
+ * 複数の事業者をまとめた場合は "<feedId>=<URL>" で対応する事業者を指定する
  */
-async function fetchApiJson<T>(endpoint: string): Promise<T> {
-  const res = await fetch(`${API_BASE}${endpoint}`);
-  if (!res.ok) {
-    throw new Error(`API呼び出しに失敗しました: ${endpoint} (${res.status})`);
-  }
-  return res.json() as Promise<T>;
+function resolveRealtimeFeeds(params: URLSearchParams): RealtimeFeedSource[] {
+  const values = params.has("rt")
+    ? params.getAll("rt")
+    : [import.meta.env.VITE_GTFS_RT_URLS || ""];
+  return values
+    .flatMap((v) => v.split(","))
+    .map((v) => v.trim())
+    .filter((v) => v !== "")
+    .map(parseRealtimeFeedSource);
+}
+
+/** データソースを決定し、必要に応じてリアルタイム情報を合わせる */
+function resolveDataSource(): DataSource {
+  const params = new URLSearchParams(window.location.search);
+  const source = resolveBaseDataSource(params);
+  const realtimeFeeds = resolveRealtimeFeeds(params);
+  return realtimeFeeds.length > 0
+    ? createRealtimeDataSource(source, realtimeFeeds)
+    : source;
+}
+
+let activeDataSource: DataSource | null = null;
+
+/** 現在のデータソースを返す（初回呼び出し時に決定） */
+export function getDataSource(): DataSource {
+  if (!activeDataSource) activeDataSource = resolveDataSource();
+  return activeDataSource;
+}
+
+/** データソースを差し替える（テストでフィクスチャを使う場合など） */
+export function setDataSource(source: DataSource): void {
+  activeDataSource = source;
 }
 
+// ==================== データ取得 ====================
+
 /**
  * data/ フォルダから全データを並列に読み込み、型付きで返す
- * 【非推奨】必要なデータだけをAPIから取得することを推奨
+ * 通常は必要なデータだけをデータソース経由で取得する
  */
 export async function loadAllData(): Promise<AppData> {
-  const [stops, shapes, timetables, calendar, routes, extra] =
-    await Promise.all([
-      fetchJson<StopsData>("stops.json"),
-      fetchJson<ShapesData>("shapes.json"),
-      fetchJson<TimetablesData>("timetables.json"),
-      fetchJson<CalendarData>("calendar.json"),
-      fetchJson<RoutesData>("routes.json"),
-      fetchJson<ExtraData>("extra.json"),
-    ]);
-
-  return { stops, shapes, timetables, calendar, routes, extra };
+  return loadStaticData(DATA_BASE_URL);
 }
 
 /**
- * サーバーから必須データ（calendar, routes, extra）を取得
+ * 必須データ（calendar, routes, extra）を取得
  */
-export async function loadEssentialData(): Promise<{
-  calendar: CalendarData;
-  routes: RoutesData;
-  extra: ExtraData;
-}> {
-  const [calendar, routes, extra] = await Promise.all([
-    fetchApiJson<CalendarData>("/calendar"),
-    fetchApiJson<RoutesData>("/routes"),
-    fetchApiJson<ExtraData>("/extra"),
-  ]);
-
-  return { calendar, routes, extra };
+export async function loadEssentialData(): Promise<EssentialData> {
+  return getDataSource().loadEssentialData();
 }
 
 /**
- * バックエンドの /api/stops/search を呼んで範囲内の stops を取得する
+ * 範囲内の stops を取得する（API では /api/stops/search）
  */
 export async function fetchStopsByBounds(
   minLat: number,
@@ -79,85 +131,92 @@ export async function fetchStopsByBounds(
   minLng: number,
   maxLng: number,
 ): Promise<StopsData> {
-  const url = `${API_BASE}/stops/search?minLat=${minLat}&maxLat=${maxLat}&minLng=${minLng}&maxLng=${maxLng}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`stops search failed (${res.status})`);
-  }
-  const data = await res.json();
-  // { count: number, stops: StopsData }
-  return data.stops as StopsData;
+  return getDataSource().fetchStopsByBounds(minLat, maxLat, minLng, maxLng);
 }
 
 /**
- * バックエンドの /api/buses から現在運行中のバス位置を取得する
+ * 現在運行中のバス位置を取得する（API では /api/buses）
  * 範囲指定がある場合はその範囲内のバスのみを取得
+ * at を指定した場合はその日時に運行中のバス位置を取得（タイムトラベル用）
  */
 export async function fetchBusPositions(
   minLat?: number,
   maxLat?: number,
   minLng?: number,
   maxLng?: number,
+  at?: Date,
 ): Promise<BusPosition[]> {
-  let url = `${API_BASE}/buses`;
-
-  // 範囲指定がある場合はクエリパラメータを追加
-  if (
-    minLat !== undefined &&
-    maxLat !== undefined &&
-    minLng !== undefined &&
-    maxLng !== undefined
-  ) {
-    url += `?minLat=${minLat}&maxLat=${maxLat}&minLng=${minLng}&maxLng=${maxLng}`;
-  }
-
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`buses fetch failed (${res.status})`);
-  }
-  const data = await res.json();
-  // { count: number, buses: BusPosition[], timestamp: number }
-  return data.buses as BusPosition[];
+  return getDataSource().fetchBusPositions(minLat, maxLat, minLng, maxLng, at);
 }
 
 /**
- * バックエンドの /api/trips/:routeId/:tripId から便詳細を取得する
+ * 便詳細を取得する（API では /api/trips/:routeId/:tripId）
  * この便が停車する全バス停情報と経路形状を含む
  */
 export async function fetchTripDetails(
   routeId: string,
   tripId: string,
-): Promise<import("./types").TripDetailResponse> {
-  const url = `${API_BASE}/trips/${encodeURIComponent(routeId)}/${encodeURIComponent(tripId)}`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`trip details fetch failed (${res.status})`);
-  }
-  return res.json();
+): Promise<TripDetailResponse> {
+  return getDataSource().fetchTripDetails(routeId, tripId);
 }
 
 /**
- * バックエンドの /api/stops/:stopId/timetable からバス停の時刻表を取得する
+ * 路線詳細を取得する（API では /api/routes/:routeId）
+ * 路線の全便・停車バス停情報・全経路パターンを含む
+ */
+export async function fetchRouteDetails(
+  routeId: string,
+): Promise<RouteDetailResponse> {
+  return getDataSource().fetchRouteDetails(routeId);
+}
+
+/**
+ * バス停の時刻表を取得する（API では /api/stops/:stopId/timetable）
  */
 export async function fetchStopTimetable(
   stopId: string,
-): Promise<import("./types").StopTimetableResponse> {
-  const url = `${API_BASE}/stops/${encodeURIComponent(stopId)}/timetable`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`stop timetable fetch failed (${res.status})`);
-  }
-  return res.json();
+): Promise<StopTimetableResponse> {
+  return getDataSource().fetchStopTimetable(stopId);
+}
+
+/**
+ * 経路形状をキー（停車バス停IDを "|" でつないだもの）でまとめて取得する（API では POST /api/shapes）
+ * 時刻表を読み込んでいないバスのアニメーションに使う
+ */
+export async function fetchShapes(keys: string[]): Promise<ShapesData> {
+  return getDataSource().fetchShapes(keys);
+}
+
+/**
+ * at から durationSec 秒の間に運行する全便の時刻表を取得する（API では /api/timetables）
+ * 経路検索・到達圏の計算に使う
+ */
+export async function fetchActiveTimetables(
+  at: Date,
+  durationSec: number,
+): Promise<TimetablesData> {
+  return getDataSource().fetchActiveTimetables(at, durationSec);
 }
 
 /**
- * バックエンドの /api/stops から全バス停データを取得する
+ * 全バス停データを取得する（API では /api/stops）
  */
 export async function fetchAllStops(): Promise<StopsData> {
-  const url = `${API_BASE}/stops`;
-  const res = await fetch(url);
-  if (!res.ok) {
-    throw new Error(`all stops fetch failed (${res.status})`);
+  return getDataSource().fetchAllStops();
+}
+
+/**
+ * 1つのバス停の情報（位置など）を取得する
+ * 時刻表からそのバス停に停車する便を1つ選び、便詳細の停車バス停情報から取り出す
+ * 表示範囲外のバス停を URL から復元する場合に使う
+ */
+export async function fetchStopInfo(stopId: string): Promise<StopInfo | null> {
+  const { timetables } = await fetchStopTimetable(stopId);
+  for (const routeId of Object.keys(timetables)) {
+    const tripId = Object.keys(timetables[routeId])[0];
+    if (!tripId) continue;
+    const detail = await fetchTripDetails(routeId, tripId);
+    return detail.stops[stopId] || null;
   }
-  return res.json();
+  return null;
 }
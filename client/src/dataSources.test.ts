@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from "vitest";
+import { createMemoryDataSource } from "./dataSources";
+import { fixtureData } from "./fixtureData";
+import { jst } from "./testHelpers";
+
+describe("フィクスチャのデータソース", () => {
+  const source = createMemoryDataSource(fixtureData, "fixture");
+
+  it("必須データを返す", async () => {
+    const essential = await source.loadEssentialData();
+    expect(source.kind).toBe("fixture");
+    expect(Object.keys(essential.routes)).toEqual(["F_R1", "F_R2"]);
+    expect(essential.extra.dataset?.feed_version).toBe("fixture");
+  });
+
+  it("範囲内のバス停のみ返す", async () => {
+    // 仙台駅前（F_1, F_2）の周辺のみ
+    const stops = await source.fetchStopsByBounds(
+      38.259,
+      38.261,
+      140.88,
+      140.883,
+    );
+    expect(Object.keys(stops).sort()).toEqual(["F_1", "F_2"]);
+  });
+
+  it("便詳細に停車バス停と経路形状・営業所名を含める", async () => {
+    const detail = await source.fetchTripDetails("F_R1", "F_R1_0");
+    expect(detail.route_name).toBe("F1");
+    expect(Object.keys(detail.stops)).toEqual(["F_1", "F_3", "F_4"]);
+    expect(detail.shape).toBe(fixtureData.shapes["F_1|F_3|F_4"]);
+    expect(detail.office_name).toBe("フィクスチャ営業所");
+  });
+
+  it("バス停の時刻表には停車する便のみ含める", async () => {
+    const res = await source.fetchStopTimetable("F_3");
+    expect(res.stop_name).toBe("青葉通一番町駅");
+    expect(Object.keys(res.timetables)).toEqual(["F_R1"]);
+    expect(Object.keys(res.timetables.F_R1)).toHaveLength(34);
+  });
+
+  it("路線詳細に全便の経路形状を含める", async () => {
+    const detail = await source.fetchRouteDetails("F_R2");
+    expect(Object.keys(detail.shapes)).toEqual(["F_4|F_5|F_2"]);
+    expect(Object.keys(detail.stops).sort()).toEqual(["F_2", "F_4", "F_5"]);
+  });
+
+  it("経路形状をキーでまとめて返し、ないキーは含めない", async () => {
+    const shapes = await source.fetchShapes(["F_1|F_3|F_4", "none"]);
+    expect(Object.keys(shapes)).toEqual(["F_1|F_3|F_4"]);
+    expect(shapes["F_1|F_3|F_4"]).toBe(fixtureData.shapes["F_1|F_3|F_4"]);
+  });
+
+  it("指定時刻から一定時間内に運行する便の時刻表のみ返す", async () => {
+    // 6:05 から 30 分間: 6:00 発の F_R1_0 は走行中、6:30 発の F_R1_1 は期間内に発車
+    const timetables = await source.fetchActiveTimetables(
+      jst("2026-01-07T06:05"),
+      30 * 60,
+    );
+    expect(Object.keys(timetables.F_R1)).toEqual(["F_R1_0", "F_R1_1"]);
+    expect(Object.keys(timetables.F_R2)).toEqual(["F_R2_0", "F_R2_1"]);
+  });
+
+  it("存在しない便・路線・バス停は 404 のエラーにする", async () => {
+    await expect(source.fetchTripDetails("F_R1", "none")).rejects.toThrow(
+      "404",
+    );
+    await expect(source.fetchRouteDetails("none")).rejects.toThrow("404");
+    await expect(source.fetchStopTimetable("none")).rejects.toThrow("404");
+  });
+
+  it("時刻表から運行中のバスの位置を経路形状に沿って計算する", async () => {
+    // F_R1_0 は 6:00 に仙台駅前を発車し、6:10 に青葉通一番町駅に着く
+    const buses = await source.fetchBusPositions(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      jst("2026-01-07T06:05"),
+    );
+    expect(buses.map((b) => b.trip_id)).toEqual(["F_R1_0", "F_R2_0"]);
+    const [bus] = buses;
+    expect(bus.route_name).toBe("F1");
+    expect(bus.shape_key).toBe("F_1|F_3|F_4");
+    expect(bus.position[0]).toBeCloseTo(140.8774, 4);
+    expect(bus.position[1]).toBeCloseTo(38.2597, 4);
+  });
+
+  it("運行時間外はバスを返さない", async () => {
+    const buses = await source.fetchBusPositions(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      jst("2026-01-07T03:00"),
+    );
+    expect(buses).toEqual([]);
+  });
+});
+
+describe("遅延読み込みのデータソース", () => {
+  it("初回アクセス時に1度だけ読み込む", async () => {
+    const load = vi.fn(() => Promise.resolve(fixtureData));
+    const source = createMemoryDataSource(load, "fixture");
+    expect(load).not.toHaveBeenCalled();
+    await Promise.all([source.loadEssentialData(), source.fetchAllStops()]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("読み込みに失敗したら次回読み込み直す", async () => {
+    const load = vi
+      .fn<() => Promise<typeof fixtureData>>()
+      .mockRejectedValueOnce(new Error("offline"))
+      .mockResolvedValue(fixtureData);
+    const source = createMemoryDataSource(load, "fixture");
+    await expect(source.fetchAllStops()).rejects.toThrow("offline");
+    expect(Object.keys(await source.fetchAllStops())).toHaveLength(5);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
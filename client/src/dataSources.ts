@@ -0,0 +1,622 @@
+import type {
+  AppData,
+  BusPosition,
+  CalendarData,
+  EssentialData,
+  ExtraData,
+  RouteDetailResponse,
+  RoutesData,
+  ShapesData,
+  StopsData,
+  StopTimetableResponse,
+  TimetablesData,
+  TripDetailResponse,
+} from "./types";
+import { calculateAllBusPositions } from "./busSimulator";
+import { getActiveServiceDays, getServiceCalendar } from "./serviceCalendar";
+import { timeToSec } from "./utils";
+import {
+  cacheKeys,
+  getCached,
+  getOfflineSnapshot,
+  putCached,
+  putCachedStops,
+  setOfflineStatus,
+} from "./offlineCache";
+import type { RealtimeFeedSource } from "./realtime";
+import {
+  getRealtimeState,
+  mergeRealtimePositions,
+  refreshRealtime,
+} from "./realtime";
+
+// ============================================================
+// データソース
+// API サーバー・静的 JSON・メモリ上のデータを同じインターフェースで扱う
+// ============================================================
+
+/** データソースの種類 */
+export type DataSourceKind = "api" | "static" | "fixture" | "memory";
+
+/** アプリが必要とするデータの取得元 */
+export interface DataSource {
+  readonly kind: DataSourceKind;
+  /** 必須データ（calendar, routes, extra）を取得 */
+  loadEssentialData(): Promise<EssentialData>;
+  /** 範囲内のバス停を取得 */
+  fetchStopsByBounds(
+    minLat: number,
+    maxLat: number,
+    minLng: number,
+    maxLng: number,
+  ): Promise<StopsData>;
+  /** 運行中のバス位置を取得（範囲指定・日時指定は任意） */
+  fetchBusPositions(
+    minLat?: number,
+    maxLat?: number,
+    minLng?: number,
+    maxLng?: number,
+    at?: Date,
+  ): Promise<BusPosition[]>;
+  /** 便詳細（全停車バス停情報と経路形状を含む）を取得 */
+  fetchTripDetails(
+    routeId: string,
+    tripId: string,
+  ): Promise<TripDetailResponse>;
+  /** 路線の全便・停車バス停・経路形状を取得 */
+  fetchRouteDetails(routeId: string): Promise<RouteDetailResponse>;
+  /** バス停に停車する便の時刻表を取得 */
+  fetchStopTimetable(stopId: string): Promise<StopTimetableResponse>;
+  /** 経路形状をキー（停車バス停IDを "|" でつないだもの）でまとめて取得（ないキーは含めない） */
+  fetchShapes(keys: string[]): Promise<ShapesData>;
+  /** at から durationSec 秒の間に運行する全便の時刻表を取得（前日の運行日の深夜便を含む） */
+  fetchActiveTimetables(at: Date, durationSec: number): Promise<TimetablesData>;
+  /** 全バス停データを取得 */
+  fetchAllStops(): Promise<StopsData>;
+}
+
+// ==================== API サーバー ====================
+
+/**
+ * バックエンド API（server/main.go）からデータを取得するデータソース
+ */
+export function createApiDataSource(apiBase: string): DataSource {
+  /** API から JSON を fetch して型付きで返す */
+  const fetchApiJson = async <T>(
+    endpoint: string,
+    label: string,
+    init?: RequestInit,
+  ) => {
+    const res = await fetch(`${apiBase}${endpoint}`, init);
+    if (!res.ok) {
+      throw new Error(`${label} failed (${res.status})`);
+    }
+    return res.json() as Promise<T>;
+  };
+
+  return {
+    kind: "api",
+
+    async loadEssentialData() {
+      const [calendar, routes, extra] = await Promise.all([
+        fetchApiJson<CalendarData>("/calendar", "calendar fetch"),
+        fetchApiJson<RoutesData>("/routes", "routes fetch"),
+        fetchApiJson<ExtraData>("/extra", "extra fetch"),
+      ]);
+      return { calendar, routes, extra };
+    },
+
+    async fetchStopsByBounds(minLat, maxLat, minLng, maxLng) {
+      const data = await fetchApiJson<{ count: number; stops: StopsData }>(
+        `/stops/search?minLat=${minLat}&maxLat=${maxLat}&minLng=${minLng}&maxLng=${maxLng}`,
+        "stops search",
+      );
+      return data.stops;
+    },
+
+    async fetchBusPositions(minLat, maxLat, minLng, maxLng, at) {
+      const params = new URLSearchParams();
+
+      // 範囲指定がある場合はクエリパラメータを追加
+      if (
+        minLat !== undefined &&
+        maxLat !== undefined &&
+        minLng !== undefined &&
+        maxLng !== undefined
+      ) {
+        params.set("minLat", String(minLat));
+        params.set("maxLat", String(maxLat));
+        params.set("minLng", String(minLng));
+        params.set("maxLng", String(maxLng));
+      }
+      if (at) {
+        params.set("at", String(Math.floor(at.getTime() / 1000)));
+      }
+
+      const query = params.toString();
+      const data = await fetchApiJson<{
+        count: number;
+        buses: BusPosition[];
+        timestamp: number;
+      }>(`/buses${query ? `?${query}` : ""}`, "buses fetch");
+      return data.buses;
+    },
+
+    fetchTripDetails(routeId, tripId) {
+      return fetchApiJson<TripDetailResponse>(
+        `/trips/${encodeURIComponent(routeId)}/${encodeURIComponent(tripId)}`,
+        "trip details fetch",
+      );
+    },
+
+    fetchRouteDetails(routeId) {
+      return fetchApiJson<RouteDetailResponse>(
+        `/routes/${encodeURIComponent(routeId)}`,
+        "route details fetch",
+      );
+    },
+
+    fetchStopTimetable(stopId) {
+      return fetchApiJson<StopTimetableResponse>(
+        `/stops/${encodeURIComponent(stopId)}/timetable`,
+        "stop timetable fetch",
+      );
+    },
+
+    fetchShapes(keys) {
+      // キーが長くなるため POST で送る
+      return fetchApiJson<ShapesData>("/shapes", "shapes fetch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keys }),
+      });
+    },
+
+    async fetchActiveTimetables(at, durationSec) {
+      const data = await fetchApiJson<{
+        count: number;
+        timetables: TimetablesData;
+        timestamp: number;
+      }>(
+        `/timetables?at=${Math.floor(at.getTime() / 1000)}&duration=${durationSec}`,
+        "active timetables fetch",
+      );
+      return data.timetables;
+    },
+
+    fetchAllStops() {
+      return fetchApiJson<StopsData>("/stops", "all stops fetch");
+    },
+  };
+}
+
+// ==================== メモリ上のデータ ====================
+
+/**
+ * メモリ上の AppData から API と同じ形のレスポンスを組み立てるデータソース
+ * 静的 JSON を使うシミュレーションモードや、テスト用のフィクスチャに使う
+ * data に関数を渡した場合は初回アクセス時に1度だけ読み込む
+ */
+export function createMemoryDataSource(
+  data: AppData | (() => Promise<AppData>),
+  kind: DataSourceKind = "memory",
+): DataSource {
+  let dataPromise: Promise<AppData> | null = null;
+  const getData = (): Promise<AppData> => {
+    if (typeof data !== "function") return Promise.resolve(data);
+    if (!dataPromise) {
+      dataPromise = data().catch((e) => {
+        // 失敗した場合は次回再読み込みする
+        dataPromise = null;
+        throw e;
+      });
+    }
+    return dataPromise;
+  };
+
+  return {
+    kind,
+
+    async loadEssentialData() {
+      const { calendar, routes, extra } = await getData();
+      return { calendar, routes, extra };
+    },
+
+    async fetchStopsByBounds(minLat, maxLat, minLng, maxLng) {
+      const { stops } = await getData();
+      const result: StopsData = {};
+      Object.keys(stops).forEach((id) => {
+        const s = stops[id];
+        if (
+          s.lat >= minLat &&
+          s.lat <= maxLat &&
+          s.lng >= minLng &&
+          s.lng <= maxLng
+        ) {
+          result[id] = s;
+        }
+      });
+      return result;
+    },
+
+    async fetchBusPositions(minLat, maxLat, minLng, maxLng, at) {
+      return calculateAllBusPositions(
+        await getData(),
+        at ?? new Date(),
+        minLat,
+        maxLat,
+        minLng,
+        maxLng,
+      );
+    },
+
+    async fetchTripDetails(routeId, tripId) {
+      const all = await getData();
+      const trip = all.timetables[routeId]?.[tripId];
+      if (!trip) {
+        throw new Error(`trip details fetch failed (404)`);
+      }
+
+      // この便が停車する全バス停情報を収集
+      const stops: StopsData = {};
+      trip.stops.forEach((ts) => {
+        if (all.stops[ts.stop_id]) stops[ts.stop_id] = all.stops[ts.stop_id];
+      });
+
+      const patternKey = trip.stops.map((s) => s.stop_id).join("|");
+      const routeInfo = all.routes[routeId];
+      return {
+        trip_id: tripId,
+        route_id: routeId,
+        route_name: routeInfo?.short_name || "",
+        route_color: routeInfo?.color || "",
+        trip,
+        stops,
+        shape: all.shapes[patternKey] || null,
+        office_name: all.extra.offices[trip.office_id] || "",
+      };
+    },
+
+    async fetchRouteDetails(routeId) {
+      const all = await getData();
+      const trips = all.timetables[routeId];
+      if (!trips) {
+        throw new Error(`route details fetch failed (404)`);
+      }
+
+      // 全便が停車するバス停と経路パターンを収集
+      const stops: StopsData = {};
+      const shapes: ShapesData = {};
+      Object.values(trips).forEach((trip) => {
+        trip.stops.forEach((ts) => {
+          if (all.stops[ts.stop_id]) stops[ts.stop_id] = all.stops[ts.stop_id];
+        });
+        const patternKey = trip.stops.map((s) => s.stop_id).join("|");
+        if (all.shapes[patternKey]) shapes[patternKey] = all.shapes[patternKey];
+      });
+
+      const routeInfo = all.routes[routeId];
+      return {
+        route_id: routeId,
+        route_name: routeInfo?.short_name || "",
+        route_color: routeInfo?.color || "",
+        trips,
+        stops,
+        shapes,
+      };
+    },
+
+    async fetchStopTimetable(stopId) {
+      const all = await getData();
+      const stop = all.stops[stopId];
+      if (!stop) {
+        throw new Error(`stop timetable fetch failed (404)`);
+      }
+
+      // このバス停に停車する便をフィルタリング
+      const timetables: TimetablesData = {};
+      Object.keys(all.timetables).forEach((rid) => {
+        Object.keys(all.timetables[rid]).forEach((tid) => {
+          const trip = all.timetables[rid][tid];
+          if (trip.stops.some((s) => s.stop_id === stopId)) {
+            if (!timetables[rid]) timetables[rid] = {};
+            timetables[rid][tid] = trip;
+          }
+        });
+      });
+
+      return { stop_id: stopId, stop_name: stop.name, timetables };
+    },
+
+    async fetchShapes(keys) {
+      const all = await getData();
+      const shapes: ShapesData = {};
+      keys.forEach((key) => {
+        if (all.shapes[key]) shapes[key] = all.shapes[key];
+      });
+      return shapes;
+    },
+
+    async fetchActiveTimetables(at, durationSec) {
+      const all = await getData();
+      const calendar = getServiceCalendar(all.calendar, all.extra);
+      const days = getActiveServiceDays(at);
+
+      // 当日・前日の運行日のどちらかで、期間内に走る便をフィルタリング
+      const timetables: TimetablesData = {};
+      Object.keys(all.timetables).forEach((rid) => {
+        Object.keys(all.timetables[rid]).forEach((tid) => {
+          const trip = all.timetables[rid][tid];
+          if (trip.stops.length < 2) return;
+          const startSec = timeToSec(trip.stops[0].time);
+          const endSec = timeToSec(trip.stops[trip.stops.length - 1].time);
+          const running = days.some(
+            (d) =>
+              endSec >= d.nowSec &&
+              startSec <= d.nowSec + durationSec &&
+              calendar.isRunning(trip.service_id, d.date),
+          );
+          if (!running) return;
+          if (!timetables[rid]) timetables[rid] = {};
+          timetables[rid][tid] = trip;
+        });
+      });
+
+      return timetables;
+    },
+
+    async fetchAllStops() {
+      return (await getData()).stops;
+    },
+  };
+}
+
+// ==================== 静的 JSON ====================
+
+/**
+ * data/ フォルダから全データを並列に読み込み、型付きで返す
+ */
+export async function loadStaticData(dataBaseUrl: string): Promise<AppData> {
+  /**
+   * 指定パスの JSON を fetch して型付きで返す
+   * 取得できた JSON は IndexedDB に保存し、通信できない場合は保存したものを使う
+   */
+  const fetchJson = async <T>(path: string): Promise<T> => {
+    try {
+      const res = await fetch(`${dataBaseUrl}/${path}`);
+      if (!res.ok) {
+        throw new Error(
+          `データの読み込みに失敗しました: ${path} (${res.status})`,
+        );
+      }
+      const value = (await res.json()) as T;
+      putCached(cacheKeys.staticFile(path), value).catch((e) =>
+        console.error("データの保存に失敗しました:", e),
+      );
+      return value;
+    } catch (e) {
+      const cached = await getCached<T>(cacheKeys.staticFile(path)).catch(
+        () => null,
+      );
+      if (!cached) throw e;
+      setOfflineStatus({ usingCache: true, savedAt: cached.savedAt });
+      return cached.value;
+    }
+  };
+
+  const [stops, shapes, timetables, calendar, routes, extra] =
+    await Promise.all([
+      fetchJson<StopsData>("stops.json"),
+      fetchJson<ShapesData>("shapes.json"),
+      fetchJson<TimetablesData>("timetables.json"),
+      fetchJson<CalendarData>("calendar.json"),
+      fetchJson<RoutesData>("routes.json"),
+      fetchJson<ExtraData>("extra.json"),
+    ]);
+
+  return { stops, shapes, timetables, calendar, routes, extra };
+}
+
+/**
+ * 静的 JSON を読み込み、バス位置などをクライアント側で計算するデータソース
+ * バックエンドなしで動かす場合（静的サイトとしての公開・オフライン開発）に使う
+ */
+export function createStaticDataSource(dataBaseUrl: string): DataSource {
+  return createMemoryDataSource(() => loadStaticData(dataBaseUrl), "static");
+}
+
+// ==================== オフライン対応 ====================
+
+/**
+ * 取得したデータを IndexedDB に保存し、通信できない場合は保存したデータで応答するデータソース
+ * バス位置など保存していないものは、保存済みの便からクライアント側で計算する
+ */
+export function createOfflineDataSource(source: DataSource): DataSource {
+  /** 保存済みデータをまとめたメモリ上のデータソース（なければ null） */
+  const getOfflineSource = async (): Promise<DataSource | null> => {
+    const data = await getOfflineSnapshot();
+    return data ? createMemoryDataSource(data, source.kind) : null;
+  };
+
+  /** 保存済みの必須データの保存日時を、表示中のデータの日時とする */
+  const markUsingCache = async (savedAt?: number) => {
+    const essential = await getCached(cacheKeys.essential).catch(() => null);
+    setOfflineStatus({
+      usingCache: true,
+      savedAt: savedAt ?? essential?.savedAt ?? null,
+    });
+  };
+
+  const markOnline = () =>
+    setOfflineStatus({ usingCache: false, savedAt: null });
+
+  /**
+   * 元のデータソースから取得して保存する
+   * 失敗した場合は key の保存データ、なければ保存済みデータからの計算結果を返す
+   */
+  const withFallback = async <T>(
+    fetcher: () => Promise<T>,
+    fallback: (offline: DataSource) => Promise<T>,
+    key?: string,
+    save?: (value: T) => Promise<void>,
+  ): Promise<T> => {
+    try {
+      const value = await fetcher();
+      markOnline();
+      const store = save ?? (key ? (v: T) => putCached(key, v) : null);
+      store?.(value).catch((e) =>
+        console.error("オフライン用データの保存に失敗しました:", e),
+      );
+      return value;
+    } catch (e) {
+      const cached = key ? await getCached<T>(key).catch(() => null) : null;
+      if (cached) {
+        await markUsingCache(cached.savedAt);
+        return cached.value;
+      }
+      const offline = await getOfflineSource();
+      if (!offline) throw e;
+      const value = await fallback(offline).catch(() => {
+        throw e;
+      });
+      await markUsingCache();
+      return value;
+    }
+  };
+
+  return {
+    kind: source.kind,
+
+    loadEssentialData() {
+      return withFallback(
+        () => source.loadEssentialData(),
+        (offline) => offline.loadEssentialData(),
+        cacheKeys.essential,
+      );
+    },
+
+    fetchStopsByBounds(minLat, maxLat, minLng, maxLng) {
+      return withFallback(
+        () => source.fetchStopsByBounds(minLat, maxLat, minLng, maxLng),
+        (offline) => offline.fetchStopsByBounds(minLat, maxLat, minLng, maxLng),
+        undefined,
+        putCachedStops,
+      );
+    },
+
+    fetchBusPositions(minLat, maxLat, minLng, maxLng, at) {
+      return withFallback(
+        () => source.fetchBusPositions(minLat, maxLat, minLng, maxLng, at),
+        (offline) =>
+          offline.fetchBusPositions(minLat, maxLat, minLng, maxLng, at),
+      );
+    },
+
+    fetchTripDetails(routeId, tripId) {
+      return withFallback(
+        () => source.fetchTripDetails(routeId, tripId),
+        (offline) => offline.fetchTripDetails(routeId, tripId),
+        cacheKeys.tripDetails(routeId, tripId),
+      );
+    },
+
+    fetchRouteDetails(routeId) {
+      return withFallback(
+        () => source.fetchRouteDetails(routeId),
+        (offline) => offline.fetchRouteDetails(routeId),
+        cacheKeys.routeDetails(routeId),
+      );
+    },
+
+    fetchStopTimetable(stopId) {
+      return withFallback(
+        () => source.fetchStopTimetable(stopId),
+        (offline) => offline.fetchStopTimetable(stopId),
+        cacheKeys.stopTimetable(stopId),
+      );
+    },
+
+    fetchShapes(keys) {
+      return withFallback(
+        () => source.fetchShapes(keys),
+        (offline) => offline.fetchShapes(keys),
+      );
+    },
+
+    fetchActiveTimetables(at, durationSec) {
+      return withFallback(
+        () => source.fetchActiveTimetables(at, durationSec),
+        (offline) => offline.fetchActiveTimetables(at, durationSec),
+      );
+    },
+
+    fetchAllStops() {
+      return withFallback(
+        () => source.fetchAllStops(),
+        (offline) => offline.fetchAllStops(),
+        cacheKeys.allStops,
+      );
+    },
+  };
+}
+
+// ==================== リアルタイム情報 ====================
+
+/**
+ * バス位置に GTFS-Realtime（VehiclePositions / TripUpdates）の情報を合わせるデータソース
+ * 車両位置のある便はその位置に置き、遅れを付ける。リアルタイム情報のない便は元のデータソースの位置のまま
+ * 日時を指定した場合（タイムトラベル）はリアルタイム情報を使わない
+ */
+export function createRealtimeDataSource(
+  source: DataSource,
+  feeds: RealtimeFeedSource[],
+): DataSource {
+  /** 時刻表にない車両の路線名・色に使う路線情報（1度だけ読み込む） */
+  let routesPromise: Promise<RoutesData> | null = null;
+  const getRoutes = (): Promise<RoutesData> => {
+    if (!routesPromise) {
+      routesPromise = source
+        .loadEssentialData()
+        .then((essential) => essential.routes)
+        .catch((e) => {
+          routesPromise = null;
+          throw e;
+        });
+    }
+    return routesPromise;
+  };
+
+  return {
+    ...source,
+
+    async fetchBusPositions(minLat, maxLat, minLng, maxLng, at) {
+      const positionsPromise = source.fetchBusPositions(
+        minLat,
+        maxLat,
+        minLng,
+        maxLng,
+        at,
+      );
+      if (at) return positionsPromise;
+
+      const [positions, routes] = await Promise.all([
+        positionsPromise,
+        getRoutes().catch((): RoutesData => ({})),
+        refreshRealtime(feeds),
+      ]);
+      const bounds =
+        minLat !== undefined &&
+        maxLat !== undefined &&
+        minLng !== undefined &&
+        maxLng !== undefined
+          ? { minLat, maxLat, minLng, maxLng }
+          : undefined;
+      return mergeRealtimePositions(
+        positions,
+        getRealtimeState(),
+        routes,
+        bounds,
+      );
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import type { AppData, TimetablesData } from "./types";
+
+// ============================================================
+// フィクスチャデータ
+// ?source=fixture やテストで使う、仙台駅周辺だけの小さなデータセット
+// ============================================================
+
+const ALL_DAYS = ["1", "1", "1", "1", "1", "1", "1"];
+
+/** 分を "HH:MM:SS" に変換 */
+function minToTime(min: number): string {
+  const h = String(Math.floor(min / 60)).padStart(2, "0");
+  const m = String(min % 60).padStart(2, "0");
+  return `${h}:${m}:00`;
+}
+
+/** 6時から22時台まで30分間隔の便を生成（stops は [stop_id, 始発からの分] ） */
+function makeTrips(
+  routeId: string,
+  headsign: string,
+  via: string,
+  stops: [string, number][],
+): TimetablesData[string] {
+  const trips: TimetablesData[string] = {};
+  for (let i = 0; i < 34; i++) {
+    const start = 6 * 60 + i * 30;
+    trips[`${routeId}_${i}`] = {
+      headsign,
+      service_id: "F_ALL",
+      office_id: "F",
+      via,
+      stops: stops.map(([stopId, offset]) => ({
+        time: minToTime(start + offset),
+        stop_id: stopId,
+      })),
+    };
+  }
+  return trips;
+}
+
+export const fixtureData: AppData = {
+  stops: {
+    F_1: {
+      name: "仙台駅前",
+      yomi: "せんだいえきまえ",
+      lat: 38.2602,
+      lng: 140.8823,
+      platform: "1",
+    },
+    F_2: {
+      name: "仙台駅前",
+      yomi: "せんだいえきまえ",
+      lat: 38.2605,
+      lng: 140.8818,
+      platform: "2",
+    },
+    F_3: {
+      name: "青葉通一番町駅",
+      yomi: "あおばどおりいちばんちょうえき",
+      lat: 38.2592,
+      lng: 140.8724,
+      platform: "",
+    },
+    F_4: {
+      name: "西公園",
+      yomi: "にしこうえん",
+      lat: 38.2618,
+      lng: 140.8645,
+      platform: "",
+    },
+    F_5: {
+      name: "広瀬通一番町",
+      yomi: "ひろせどおりいちばんちょう",
+      lat: 38.2632,
+      lng: 140.8735,
+      platform: "",
+    },
+  },
+  shapes: {
+    "F_1|F_3|F_4": {
+      coordinates: [
+        [140.8823, 38.2602],
+        [140.8774, 38.2597],
+        [140.8724, 38.2592],
+        [140.8685, 38.2605],
+        [140.8645, 38.2618],
+      ],
+      stop_indices: [0, 2, 4],
+    },
+    "F_4|F_5|F_2": {
+      coordinates: [
+        [140.8645, 38.2618],
+        [140.869, 38.2625],
+        [140.8735, 38.2632],
+        [140.8776, 38.2618],
+        [140.8818, 38.2605],
+      ],
+      stop_indices: [0, 2, 4],
+    },
+  },
+  timetables: {
+    F_R1: makeTrips("F_R1", "西公園", "青葉通", [
+      ["F_1", 0],
+      ["F_3", 10],
+      ["F_4", 20],
+    ]),
+    F_R2: makeTrips("F_R2", "仙台駅前", "広瀬通", [
+      ["F_4", 5],
+      ["F_5", 14],
+      ["F_2", 25],
+    ]),
+  },
+  calendar: {
+    F_ALL: { days: ALL_DAYS, start: "20000101", end: "20991231" },
+  },
+  routes: {
+    F_R1: {
+      short_name: "F1",
+      color: "00703C",
+      headsigns: [{ headsign: "西公園", via: "青葉通" }],
+    },
+    F_R2: {
+      short_name: "F2",
+      color: "1E88E5",
+      headsigns: [{ headsign: "仙台駅前", via: "広瀬通" }],
+    },
+  },
+  extra: {
+    offices: { F: "フィクスチャ営業所" },
+    calendar_dates: [],
+    dataset: {
+      feed_version: "fixture",
+      valid_from: "20000101",
+      valid_to: "20991231",
+      generated_at: "2025-04-01T00:00:00.000Z",
+    },
+  },
+};
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  boundsAround,
+  createBrowserGeolocationProvider,
+  createFixedGeolocationProvider,
+  locateUser,
+  setGeolocationProvider,
+} from "./geolocation";
+import { createMemoryDataSource } from "./dataSources";
+import { fixtureData } from "./fixtureData";
+
+const SENDAI_STATION = { lat: 38.2602, lng: 140.8823, accuracy: 10 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("固定位置のプロバイダ", () => {
+  it("差し替えたプロバイダの位置を返す", async () => {
+    setGeolocationProvider(createFixedGeolocationProvider(SENDAI_STATION));
+    await expect(locateUser()).resolves.toEqual(SENDAI_STATION);
+  });
+
+  it("現在地周辺のバス停をフィクスチャから探せる", async () => {
+    setGeolocationProvider(createFixedGeolocationProvider(SENDAI_STATION));
+    const source = createMemoryDataSource(fixtureData, "fixture");
+    const { lat, lng } = await locateUser();
+    const { minLat, maxLat, minLng, maxLng } = boundsAround(lat, lng, 300);
+    const stops = await source.fetchStopsByBounds(
+      minLat,
+      maxLat,
+      minLng,
+      maxLng,
+    );
+    expect(Object.keys(stops).sort()).toEqual(["F_1", "F_2"]);
+  });
+});
+
+describe("ブラウザのプロバイダ", () => {
+  it("位置を UserLocation にして返す", async () => {
+    vi.stubGlobal("navigator", {
+      geolocation: {
+        getCurrentPosition: (success: PositionCallback) =>
+          success({
+            coords: { latitude: 38.26, longitude: 140.88, accuracy: 25 },
+          } as GeolocationPosition),
+      },
+    });
+    await expect(
+      createBrowserGeolocationProvider().getCurrentPosition(),
+    ).resolves.toEqual({ lat: 38.26, lng: 140.88, accuracy: 25 });
+  });
+
+  it("許可されていない場合は表示用のメッセージで reject する", async () => {
+    vi.stubGlobal("navigator", {
+      geolocation: {
+        getCurrentPosition: (
+          _success: PositionCallback,
+          error: PositionErrorCallback,
+        ) =>
+          error({
+            code: 1,
+            PERMISSION_DENIED: 1,
+            POSITION_UNAVAILABLE: 2,
+            TIMEOUT: 3,
+            message: "",
+          }),
+      },
+    });
+    await expect(
+      createBrowserGeolocationProvider().getCurrentPosition(),
+    ).rejects.toThrow("位置情報の利用が許可されていません");
+  });
+
+  it("Geolocation API がない端末では reject する", async () => {
+    vi.stubGlobal("navigator", {});
+    await expect(
+      createBrowserGeolocationProvider().getCurrentPosition(),
+    ).rejects.toThrow("この端末では現在地を取得できません");
+  });
+});
+
+describe("boundsAround", () => {
+  it("指定した半径の正方形の範囲を返す", () => {
+    const bounds = boundsAround(38.26, 140.88, 1000);
+    // 緯度 1 度は約 111km、経度 1 度は緯度 38 度で約 88km
+    expect(bounds.maxLat - bounds.minLat).toBeCloseTo(2000 / 111320, 6);
+    expect(bounds.maxLng - bounds.minLng).toBeCloseTo(0.0228, 3);
+    expect((bounds.minLat + bounds.maxLat) / 2).toBeCloseTo(38.26, 6);
+  });
+});
@@ -0,0 +1,107 @@
+import { t } from "./i18n";
+
+// ============================================================
+// 現在地の取得
+// 通常はブラウザの Geolocation API を使い、テストでは固定位置のプロバイダに差し替える
+// ============================================================
+
+/** 利用者の現在地 */
+export interface UserLocation {
+  lat: number;
+  lng: number;
+  /** 位置の精度（半径, m） */
+  accuracy: number;
+}
+
+/** 現在地の取得方法 */
+export interface GeolocationProvider {
+  getCurrentPosition(): Promise<UserLocation>;
+}
+
+/** 位置取得のタイムアウト (ms) */
+const POSITION_TIMEOUT = 10000;
+/** 直近に取得した位置を再利用してよい時間 (ms) */
+const POSITION_MAX_AGE = 30000;
+
+/** Geolocation API のエラーを表示用のメッセージに変換 */
+function toErrorMessage(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return t("geolocation.denied");
+    case error.TIMEOUT:
+      return t("geolocation.timeout");
+    default:
+      return t("geolocation.unavailable");
+  }
+}
+
+/** ブラウザの Geolocation API を使うプロバイダ */
+export function createBrowserGeolocationProvider(): GeolocationProvider {
+  return {
+    getCurrentPosition() {
+      return new Promise((resolve, reject) => {
+        if (!("geolocation" in navigator)) {
+          reject(new Error(t("geolocation.unsupported")));
+          return;
+        }
+        navigator.geolocation.getCurrentPosition(
+          (pos) =>
+            resolve({
+              lat: pos.coords.latitude,
+              lng: pos.coords.longitude,
+              accuracy: pos.coords.accuracy,
+            }),
+          (error) => reject(new Error(toErrorMessage(error))),
+          {
+            enableHighAccuracy: true,
+            timeout: POSITION_TIMEOUT,
+            maximumAge: POSITION_MAX_AGE,
+          },
+        );
+      });
+    },
+  };
+}
+
+/** 常に同じ位置を返すプロバイダ（テストやデモ用） */
+export function createFixedGeolocationProvider(
+  location: UserLocation,
+): GeolocationProvider {
+  return {
+    getCurrentPosition: () => Promise.resolve(location),
+  };
+}
+
+let activeProvider: GeolocationProvider | null = null;
+
+/** 現在のプロバイダを返す（初回呼び出し時はブラウザのものを使う） */
+export function getGeolocationProvider(): GeolocationProvider {
+  if (!activeProvider) activeProvider = createBrowserGeolocationProvider();
+  return activeProvider;
+}
+
+/** プロバイダを差し替える（テストで固定位置を使う場合など） */
+export function setGeolocationProvider(provider: GeolocationProvider): void {
+  activeProvider = provider;
+}
+
+/** 現在地を取得する。取得できない場合は表示用のメッセージ付きで reject する */
+export async function locateUser(): Promise<UserLocation> {
+  return getGeolocationProvider().getCurrentPosition();
+}
+
+/** 指定地点を中心とした範囲（半径 meters の正方形）を返す */
+export function boundsAround(
+  lat: number,
+  lng: number,
+  meters: number,
+): { minLat: number; maxLat: number; minLng: number; maxLng: number } {
+  const dLat = meters / 111320;
+  const dLng = meters / (111320 * Math.cos((lat * Math.PI) / 180));
+  return {
+    minLat: lat - dLat,
+    maxLat: lat + dLat,
+    minLng: lng - dLng,
+    maxLng: lng + dLng,
+  };
+}
@@ -0,0 +1,580 @@
+import type {
+  AgenciesData,
+  AppData,
+  CalendarData,
+  DatasetMetadata,
+  ExtraData,
+  NameTranslations,
+  RoutesData,
+  ShapeData,
+  ShapesData,
+  StopInfo,
+  StopsData,
+  TimetablesData,
+} from "./types";
+
+// ============================================================
+// GTFS パーサー
+// GTFS-JP の各ファイルの内容から stops / routes / timetables / calendar / extra を作る
+// 複数の事業者のデータは feedId で ID を区別して読み込み、mergeFeeds でまとめる
+// ブラウザでの zip 読み込みと tools/convert_to_json.js で同じ実装を使うため、
+// DOM や Node.js の API には依存しない（実行時の import も持たない）
+// ============================================================
+
+/** CSV の1行（列名 → 値） */
+export type GtfsRow = Record<string, string>;
+
+/** GTFS のファイル名（"stops.txt" など）→ ファイルの内容 */
+export type GtfsFiles = Record<string, string>;
+
+/** 読み込む GTFS のファイル */
+export const GTFS_FILE_NAMES = [
+  "agency.txt",
+  "calendar.txt",
+  "calendar_dates.txt",
+  "feed_info.txt",
+  "office_jp.txt",
+  "pattern_jp.txt",
+  "routes.txt",
+  "stop_times.txt",
+  "stops.txt",
+  "translations.txt",
+  "trips.txt",
+];
+
+/** 必須のファイル */
+const REQUIRED_FILE_NAMES = [
+  "routes.txt",
+  "stop_times.txt",
+  "stops.txt",
+  "trips.txt",
+];
+
+/**
+ * 事業者の色（データ内の順に割り当てる）
+ * 最初の色は仙台市営バスの路線カラーの既定値と同じ
+ */
+export const AGENCY_COLORS = [
+  "00703c",
+  "d32f2f",
+  "1e88e5",
+  "f57c00",
+  "6a1b9a",
+  "00838f",
+  "5d4037",
+  "c2185b",
+];
+
+// ==================== CSV ====================
+
+/**
+ * CSV を1行目を列名とした行の配列に変換する
+ * ダブルクォートで囲んだ値（区切り文字・改行・"" を含むもの）と BOM に対応し、空行は読み飛ばす
+ */
+export function parseCsv(text: string): GtfsRow[] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRecord = () => {
+    record.push(field);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    field = "";
+  };
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c !== '"') {
+        field += c;
+      } else if (input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        inQuotes = false;
+      }
+    } else if (c === '"') {
+      inQuotes = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && input[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || record.length > 0) endRecord();
+
+  const [header, ...rows] = records;
+  if (!header) return [];
+  const columns = header.map((h) => h.trim());
+  return rows.map((values) =>
+    Object.fromEntries(columns.map((col, i) => [col, values[i] ?? ""])),
+  );
+}
+
+// ==================== 変換 ====================
+
+/** 運行パターン（停車するバス停の並び）。経路形状の作成に使う */
+export interface GtfsPattern {
+  route_id: string;
+  headsign: string;
+  stop_ids: string[];
+}
+
+/** GTFS から作ったデータ一式（経路形状を除く） */
+export interface GtfsDataset {
+  stops: StopsData;
+  routes: RoutesData;
+  timetables: TimetablesData;
+  calendar: CalendarData;
+  extra: ExtraData;
+  /** パターンキー (stop_id をパイプ区切り) → 運行パターン */
+  patterns: Record<string, GtfsPattern>;
+}
+
+export interface ParseGtfsOptions {
+  /** データの生成日時（既定: 現在時刻） */
+  generatedAt?: Date;
+  /**
+   * データ（フィード）の識別子。指定すると全ての ID を "<feedId>:<ID>" にする
+   * 複数のデータを並べて読み込むときに、ID の重複を避けるために使う
+   */
+  feedId?: string;
+}
+
+/**
+ * GTFS の各ファイルの内容からアプリのデータを作る
+ * 必須のファイル（stops / routes / trips / stop_times）がなければ例外を投げる
+ */
+export function parseGtfs(
+  files: GtfsFiles,
+  options: ParseGtfsOptions = {},
+): GtfsDataset {
+  const missing = REQUIRED_FILE_NAMES.filter((name) => !files[name]);
+  if (missing.length > 0) {
+    throw new Error(`GTFS に ${missing.join(", ")} がありません`);
+  }
+
+  const read = (name: string): GtfsRow[] =>
+    files[name] ? parseCsv(files[name]) : [];
+  const { feedId } = options;
+  const toId = (id: string) => (feedId ? `${feedId}:${id}` : id);
+
+  const agencyRows = read("agency.txt");
+  const calendarRows = read("calendar.txt");
+  const calendarDates = read("calendar_dates.txt");
+  const feedInfo = read("feed_info.txt");
+  const offices = read("office_jp.txt");
+  const patternRows = read("pattern_jp.txt");
+  const routeRows = read("routes.txt");
+  const stopTimes = read("stop_times.txt");
+  const translations = read("translations.txt");
+  const stopRows = read("stops.txt");
+  const trips = read("trips.txt");
+
+  // バス停名 → 読み仮名、バス停名・行先 → 各言語の訳
+  // 元の名前は field_value で指定するほか、record_id（stop_id / trip_id）で指定することもある
+  const rawStopNames: Record<string, string> = {};
+  stopRows.forEach((s) => (rawStopNames[s.stop_id] = s.stop_name));
+  const rawHeadsigns: Record<string, string> = {};
+  trips.forEach((t) => (rawHeadsigns[t.trip_id] = t.trip_headsign || ""));
+  const stopYomiMap: Record<string, string> = {};
+  const nameTranslations: NameTranslations = {};
+  translations.forEach((t) => {
+    let original: string | undefined;
+    if (t.table_name === "stops" && t.field_name === "stop_name") {
+      original = t.field_value || rawStopNames[t.record_id];
+    } else if (t.table_name === "trips" && t.field_name === "trip_headsign") {
+      original = t.field_value || rawHeadsigns[t.record_id];
+    }
+    if (!original || !t.translation || t.language === "ja") return;
+    if (t.language === "ja-Hrkt") {
+      // 読み仮名はバス停名のみ使う
+      if (t.table_name === "stops") stopYomiMap[original] = t.translation;
+      return;
+    }
+    if (!nameTranslations[original]) nameTranslations[original] = {};
+    nameTranslations[original][t.language] = t.translation;
+  });
+
+  // 事業者（agency_id は1事業者のみのデータでは省略できる）
+  const agencies: AgenciesData = {};
+  agencyRows.forEach((a, i) => {
+    agencies[toId(a.agency_id || String(i))] = {
+      name: a.agency_name,
+      color: AGENCY_COLORS[i % AGENCY_COLORS.length],
+    };
+  });
+  const defaultAgencyId = Object.keys(agencies)[0];
+
+  const stops: StopsData = {};
+  stopRows.forEach((s) => {
+    stops[toId(s.stop_id)] = {
+      name: s.stop_name,
+      yomi: stopYomiMap[s.stop_name] || "",
+      lat: parseFloat(s.stop_lat),
+      lng: parseFloat(s.stop_lon),
+      platform: s.platform_code || "",
+    };
+  });
+
+  const routes: RoutesData = {};
+  routeRows.forEach((r) => {
+    const agencyId = r.agency_id ? toId(r.agency_id) : defaultAgencyId;
+    routes[toId(r.route_id)] = {
+      short_name: r.route_short_name || r.route_long_name || r.route_id,
+      color: r.route_color || agencies[agencyId]?.color || AGENCY_COLORS[0],
+      office_id: r.jp_office_id && toId(r.jp_office_id),
+      agency_id: agencyId,
+    };
+  });
+
+  const officeMap: Record<string, string> = {};
+  offices.forEach((o) => (officeMap[toId(o.office_id)] = o.office_name));
+
+  const viaMap: Record<string, string> = {};
+  patternRows.forEach((p) => {
+    viaMap[p.jp_pattern_id] = p.via_stop || "";
+  });
+
+  const calendar: CalendarData = {};
+  calendarRows.forEach((c) => {
+    calendar[toId(c.service_id)] = {
+      days: [
+        c.monday,
+        c.tuesday,
+        c.wednesday,
+        c.thursday,
+        c.friday,
+        c.saturday,
+        c.sunday,
+      ],
+      start: c.start_date,
+      end: c.end_date,
+    };
+  });
+
+  const stopTimesMap = new Map<string, GtfsRow[]>();
+  stopTimes.forEach((st) => {
+    if (!stopTimesMap.has(st.trip_id)) stopTimesMap.set(st.trip_id, []);
+    stopTimesMap.get(st.trip_id)!.push(st);
+  });
+
+  const timetables: TimetablesData = {};
+  const patterns: Record<string, GtfsPattern> = {};
+  trips
+    .filter((t) => routes[toId(t.route_id)])
+    .forEach((trip) => {
+      const routeId = toId(trip.route_id);
+      const agencyId = routes[routeId].agency_id;
+      const tripStopTimes = (stopTimesMap.get(trip.trip_id) || []).sort(
+        (a, b) => parseInt(a.stop_sequence) - parseInt(b.stop_sequence),
+      );
+      if (tripStopTimes.length < 2) return;
+
+      if (!timetables[routeId]) timetables[routeId] = {};
+      const stopIds = tripStopTimes.map((st) => toId(st.stop_id));
+      const headsign = trip.trip_headsign || "";
+      const via = viaMap[trip.jp_pattern_id] || "";
+      timetables[routeId][toId(trip.trip_id)] = {
+        headsign,
+        service_id: toId(trip.service_id),
+        office_id: trip.jp_office_id ? toId(trip.jp_office_id) : "",
+        via,
+        stops: tripStopTimes.map((st, i) => ({
+          time: st.departure_time || st.arrival_time,
+          stop_id: stopIds[i],
+        })),
+        agency_id: agencyId,
+      };
+
+      // 路線の行先・経由地を記録する（行先での検索に使う）
+      const route = routes[routeId];
+      if (headsign) {
+        if (!route.headsigns) route.headsigns = [];
+        if (
+          !route.headsigns.some((h) => h.headsign === headsign && h.via === via)
+        ) {
+          route.headsigns.push({ headsign, via });
+        }
+      }
+
+      // バス停に停車する便の数と事業者を記録する
+      new Set(stopIds).forEach((id) => {
+        const stop = stops[id];
+        if (!stop) return;
+        stop.trip_count = (stop.trip_count || 0) + 1;
+        if (!agencyId) return;
+        if (!stop.agency_ids) stop.agency_ids = [];
+        if (!stop.agency_ids.includes(agencyId)) {
+          stop.agency_ids.push(agencyId);
+        }
+      });
+
+      const patternKey = stopIds.join("|");
+      if (!patterns[patternKey]) {
+        patterns[patternKey] = {
+          route_id: routeId,
+          headsign,
+          stop_ids: stopIds,
+        };
+      }
+    });
+
+  return {
+    stops,
+    routes,
+    timetables,
+    calendar,
+    extra: {
+      offices: officeMap,
+      calendar_dates: calendarDates.map((d) => ({
+        service_id: toId(d.service_id),
+        date: d.date,
+        exception_type: d.exception_type,
+      })),
+      dataset: buildDatasetMetadata(
+        feedInfo[0],
+        calendar,
+        options.generatedAt ?? new Date(),
+      ),
+      agencies,
+      translations: nameTranslations,
+    },
+    patterns,
+  };
+}
+
+/**
+ * データセットの版と有効期間
+ * feed_info.txt がなければ calendar.txt の運行期間から求める
+ */
+function buildDatasetMetadata(
+  feed: GtfsRow | undefined,
+  calendar: CalendarData,
+  generatedAt: Date,
+): DatasetMetadata {
+  const entries = Object.values(calendar);
+  const starts = entries.map((c) => c.start).sort();
+  const ends = entries.map((c) => c.end).sort();
+  const validFrom = feed?.feed_start_date || starts[0] || "";
+  return {
+    feed_version: feed?.feed_version || validFrom,
+    valid_from: validFrom,
+    valid_to: feed?.feed_end_date || ends[ends.length - 1] || "",
+    generated_at: generatedAt.toISOString(),
+  };
+}
+
+// ==================== 複数データの統合 ====================
+// 事業者ごとのデータを1つの地図に並べるため、feedId を指定して読み込んだ結果をまとめる
+
+/** 同じバス停とみなす距離の既定値 (m) */
+const DEFAULT_STOP_MERGE_METERS = 30;
+
+export interface MergeFeedsOptions {
+  /** この距離 (m) 以内の同名バス停を1つにまとめる */
+  stopMergeMeters?: number;
+}
+
+/** 表記の揺れ（全角・半角、空白）をなくしたバス停名 */
+function normalizeStopName(name: string): string {
+  return name.normalize("NFKC").replace(/\s/g, "");
+}
+
+/** 2地点間のおおよその距離 (m)。バス停の統合に使う短い距離向けの近似 */
+function approxDistanceMeters(a: StopInfo, b: StopInfo): number {
+  const dLat = (a.lat - b.lat) * 111320;
+  const dLng =
+    (a.lng - b.lng) *
+    111320 *
+    Math.cos((((a.lat + b.lat) / 2) * Math.PI) / 180);
+  return Math.sqrt(dLat * dLat + dLng * dLng);
+}
+
+/** のりば番号が食い違わないか（どちらかが空なら同じとみなす） */
+function isSamePlatform(a: StopInfo, b: StopInfo): boolean {
+  return !a.platform || !b.platform || a.platform === b.platform;
+}
+
+/** 重ならないよう事業者の色を割り当て直す（路線カラーのない路線の色も合わせる） */
+function reassignAgencyColors(feeds: GtfsDataset[]): AgenciesData {
+  const agencies: AgenciesData = {};
+  const used = new Set<string>();
+  feeds.forEach((feed) => {
+    Object.entries(feed.extra.agencies || {}).forEach(([id, agency]) => {
+      const color = used.has(agency.color)
+        ? AGENCY_COLORS.find((c) => !used.has(c)) || agency.color
+        : agency.color;
+      used.add(color);
+      agencies[id] = { ...agency, color };
+      if (color === agency.color) return;
+      Object.values(feed.routes).forEach((route) => {
+        if (route.agency_id === id && route.color === agency.color) {
+          route.color = color;
+        }
+      });
+    });
+  });
+  return agencies;
+}
+
+/** 各データの版・有効期間をまとめる */
+function mergeDatasetMetadata(
+  datasets: DatasetMetadata[],
+): DatasetMetadata | undefined {
+  if (datasets.length === 0) return undefined;
+  const min = (values: string[]) => values.filter((v) => !!v).sort()[0] || "";
+  const max = (values: string[]) =>
+    values
+      .filter((v) => !!v)
+      .sort()
+      .pop() || "";
+  return {
+    feed_version: datasets
+      .map((d) => d.feed_version)
+      .filter((v) => !!v)
+      .join(" / "),
+    valid_from: min(datasets.map((d) => d.valid_from)),
+    valid_to: max(datasets.map((d) => d.valid_to)),
+    generated_at: max(datasets.map((d) => d.generated_at)),
+  };
+}
+
+/**
+ * 複数のデータを1つにまとめる
+ * 後のデータのバス停は、先のデータにある近くの同名バス停（のりば番号が食い違わないもの）にまとめ、
+ * 便の停車バス停と運行パターンの ID を付け替える。事業者の色は重ならないよう割り当て直す
+ */
+export function mergeFeeds(
+  feeds: GtfsDataset[],
+  options: MergeFeedsOptions = {},
+): GtfsDataset {
+  const mergeMeters = options.stopMergeMeters ?? DEFAULT_STOP_MERGE_METERS;
+  const agencies = reassignAgencyColors(feeds);
+
+  const stops: StopsData = {};
+  // 正規化したバス停名 → まとめた後のバス停ID（先のデータのもの）
+  const stopsByName = new Map<string, string[]>();
+  const timetables: TimetablesData = {};
+  const patterns: Record<string, GtfsPattern> = {};
+  const translations: NameTranslations = {};
+  const merged: GtfsDataset = {
+    stops,
+    routes: {},
+    timetables,
+    calendar: {},
+    extra: { offices: {}, calendar_dates: [], agencies, translations },
+    patterns,
+  };
+
+  feeds.forEach((feed) => {
+    // このデータのバス停ID → まとめた後のバス停ID
+    const idMap = new Map<string, string>();
+    const added: [string, string][] = [];
+
+    Object.entries(feed.stops).forEach(([id, stop]) => {
+      const name = normalizeStopName(stop.name);
+      const targetId = (stopsByName.get(name) || []).find(
+        (candidate) =>
+          isSamePlatform(stops[candidate], stop) &&
+          approxDistanceMeters(stops[candidate], stop) <= mergeMeters,
+      );
+      if (!targetId) {
+        stops[id] = { ...stop, agency_ids: [...(stop.agency_ids || [])] };
+        idMap.set(id, id);
+        added.push([name, id]);
+        return;
+      }
+      const target = stops[targetId];
+      target.yomi = target.yomi || stop.yomi;
+      target.platform = target.platform || stop.platform;
+      if (stop.trip_count) {
+        target.trip_count = (target.trip_count || 0) + stop.trip_count;
+      }
+      (stop.agency_ids || []).forEach((agencyId) => {
+        if (!target.agency_ids!.includes(agencyId)) {
+          target.agency_ids!.push(agencyId);
+        }
+      });
+      idMap.set(id, targetId);
+    });
+    // 同じデータ内のバス停同士はまとめない
+    added.forEach(([name, id]) => {
+      stopsByName.set(name, [...(stopsByName.get(name) || []), id]);
+    });
+
+    const toStopId = (id: string) => idMap.get(id) || id;
+    Object.entries(feed.timetables).forEach(([routeId, trips]) => {
+      timetables[routeId] = { ...timetables[routeId] };
+      Object.entries(trips).forEach(([tripId, trip]) => {
+        timetables[routeId][tripId] = {
+          ...trip,
+          stops: trip.stops.map((s) => ({
+            ...s,
+            stop_id: toStopId(s.stop_id),
+          })),
+        };
+      });
+    });
+    Object.values(feed.patterns).forEach((pattern) => {
+      const stopIds = pattern.stop_ids.map(toStopId);
+      const key = stopIds.join("|");
+      if (!patterns[key]) patterns[key] = { ...pattern, stop_ids: stopIds };
+    });
+
+    Object.assign(merged.routes, feed.routes);
+    Object.assign(merged.calendar, feed.calendar);
+    Object.assign(merged.extra.offices, feed.extra.offices);
+    merged.extra.calendar_dates.push(...feed.extra.calendar_dates);
+    Object.entries(feed.extra.translations || {}).forEach(([name, names]) => {
+      translations[name] = { ...translations[name], ...names };
+    });
+  });
+
+  merged.extra.dataset = mergeDatasetMetadata(
+    feeds
+      .map((feed) => feed.extra.dataset)
+      .filter((d): d is DatasetMetadata => !!d),
+  );
+  return merged;
+}
+
+// ==================== 経路形状 ====================
+
+/**
+ * バス停間を直線で結んだ経路形状
+ * 道路に沿った形状を作れない場合（ブラウザでの読み込みなど）に使う。位置の分からないバス停があれば null
+ */
+export function buildStraightShape(
+  stops: StopsData,
+  stopIds: string[],
+): ShapeData | null {
+  const coordinates: [number, number][] = [];
+  for (const id of stopIds) {
+    const stop = stops[id];
+    if (!stop || Number.isNaN(stop.lat) || Number.isNaN(stop.lng)) return null;
+    coordinates.push([stop.lng, stop.lat]);
+  }
+  return { coordinates, stop_indices: stopIds.map((_, i) => i) };
+}
+
+/**
+ * GTFS から作ったデータを地図で表示できる AppData にする
+ * 経路形状はバス停間を直線で結んだもの
+ */
+export function toAppData(dataset: GtfsDataset): AppData {
+  const { patterns, ...data } = dataset;
+  const shapes: ShapesData = {};
+  Object.keys(patterns).forEach((key) => {
+    const shape = buildStraightShape(data.stops, patterns[key].stop_ids);
+    if (shape) shapes[key] = shape;
+  });
+  return { ...data, shapes };
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { decodeFeedMessage } from "./gtfsRealtime";
+import { pbFloat, pbMessage, pbString, pbVarint } from "./testHelpers";
+
+/** TripDescriptor */
+const trip = (tripId: string, routeId: string) =>
+  pbMessage(1, pbString(1, tripId), pbString(5, routeId));
+
+/** 車両位置の FeedEntity */
+const vehicleEntity = (...fields: number[][]) =>
+  pbMessage(2, pbString(1, "v1"), pbMessage(4, ...fields));
+
+/** 遅れの FeedEntity */
+const tripUpdateEntity = (...fields: number[][]) =>
+  pbMessage(2, pbString(1, "u1"), pbMessage(3, ...fields));
+
+const decode = (...fields: number[][]) =>
+  decodeFeedMessage(new Uint8Array(fields.flat()));
+
+describe("GTFS-Realtime のデコード", () => {
+  it("車両位置の緯度経度を fixed32 の float として読む", () => {
+    const feed = decode(
+      vehicleEntity(
+        trip("T1", "R1"),
+        pbMessage(2, pbFloat(1, 38.26), pbFloat(2, 140.88), pbFloat(3, 90)),
+        pbVarint(3, 4),
+        pbVarint(5, 1767225600),
+        pbString(7, "S1"),
+      ),
+    );
+    expect(feed.vehicles).toHaveLength(1);
+    const [vehicle] = feed.vehicles;
+    expect(vehicle).toMatchObject({
+      tripId: "T1",
+      routeId: "R1",
+      bearing: 90,
+      timestamp: 1767225600,
+      stopSequence: 4,
+      stopId: "S1",
+    });
+    expect(vehicle.lat).toBeCloseTo(38.26, 5);
+    expect(vehicle.lng).toBeCloseTo(140.88, 4);
+  });
+
+  it("varint と 32 bit を超える varint を読む", () => {
+    const feed = decode(
+      pbMessage(1, pbString(1, "2.0"), pbVarint(3, 2 ** 40 + 5)),
+      tripUpdateEntity(trip("T1", "R1"), pbVarint(4, 300), pbVarint(5, 150)),
+    );
+    expect(feed.timestamp).toBe(2 ** 40 + 5);
+    expect(feed.tripUpdates[0]).toMatchObject({
+      tripId: "T1",
+      timestamp: 300,
+      delay: 150,
+    });
+  });
+
+  it("負の int32（10 バイトの varint）の遅れを読む", () => {
+    const feed = decode(
+      tripUpdateEntity(
+        trip("T1", "R1"),
+        pbVarint(5, -90),
+        pbMessage(
+          2,
+          pbVarint(1, 3),
+          pbMessage(2, pbVarint(1, -120)),
+          pbMessage(3, pbVarint(1, -60), pbVarint(2, 1767225600)),
+          pbString(4, "S3"),
+        ),
+      ),
+    );
+    expect(pbVarint(5, -90)).toHaveLength(11);
+    const [update] = feed.tripUpdates;
+    expect(update.delay).toBe(-90);
+    // 発車時刻の遅れを優先する
+    expect(update.stopDelays).toEqual([
+      { stopId: "S3", stopSequence: 3, delay: -60, time: 1767225600 },
+    ]);
+  });
+
+  it("知らないフィールドはワイヤータイプに応じて読み飛ばす", () => {
+    // フィールド 99: fixed64 (ワイヤータイプ 1) と fixed32 (ワイヤータイプ 5)
+    const fixed64 = [0x99, 0x06, 1, 2, 3, 4, 5, 6, 7, 8];
+    const fixed32 = [0x9d, 0x06, 1, 2, 3, 4];
+    const feed = decode(
+      pbVarint(99, 2 ** 35),
+      fixed64,
+      vehicleEntity(
+        pbString(98, "unknown"),
+        fixed32,
+        trip("T1", "R1"),
+        pbMessage(2, pbVarint(9, 1), pbFloat(1, 38.26), pbFloat(2, 140.88)),
+        fixed64,
+      ),
+      pbString(99, "unknown"),
+    );
+    expect(feed.vehicles.map((v) => v.tripId)).toEqual(["T1"]);
+  });
+
+  it("削除済みのエンティティと位置のない車両は含めない", () => {
+    const feed = decode(
+      pbMessage(
+        2,
+        pbString(1, "v1"),
+        pbVarint(2, 1),
+        pbMessage(
+          4,
+          trip("T1", "R1"),
+          pbMessage(2, pbFloat(1, 38.26), pbFloat(2, 140.88)),
+        ),
+      ),
+      vehicleEntity(trip("T2", "R1")),
+    );
+    expect(feed.vehicles).toEqual([]);
+  });
+
+  it("未対応のワイヤータイプ（グループ）はエラーにする", () => {
+    // フィールド 7, ワイヤータイプ 3 (start group)
+    expect(() => decode([0x3b])).toThrow("未対応のワイヤータイプです (3)");
+  });
+
+  it("途中で切れたデータはエラーにする", () => {
+    const bytes = new Uint8Array(
+      vehicleEntity(
+        trip("T1", "R1"),
+        pbMessage(2, pbFloat(1, 38.26), pbFloat(2, 140.88)),
+        pbVarint(5, 1767225600),
+      ),
+    );
+    expect(decodeFeedMessage(bytes).vehicles).toHaveLength(1);
+    for (let length = 1; length < bytes.length; length++) {
+      expect(() => decodeFeedMessage(bytes.subarray(0, length))).toThrow(
+        "GTFS-RT のデータが壊れています",
+      );
+    }
+  });
+
+  it("終わらない varint はエラーにする", () => {
+    expect(() => decode([0x08, ...new Array(11).fill(0xff)])).toThrow(
+      "GTFS-RT のデータが壊れています",
+    );
+  });
+});
@@ -0,0 +1,341 @@
+// ============================================================
+// GTFS-Realtime のデコード
+// FeedMessage（Protocol Buffers）のうち、VehiclePosition と TripUpdate で使う項目だけを読む
+// フィールド番号は https://gtfs.org/realtime/reference/ の gtfs-realtime.proto に従う
+// ============================================================
+
+/** 車両の位置（VehiclePosition） */
+export interface RealtimeVehicle {
+  tripId: string;
+  routeId: string;
+  lat: number;
+  lng: number;
+  /** 進行方向（真北から時計回りの度）。ない場合は null */
+  bearing: number | null;
+  /** 位置の計測時刻 (UNIX 秒)。ない場合は null */
+  timestamp: number | null;
+  /** 停車中または向かっている停車地点の stop_sequence。ない場合は null */
+  stopSequence: number | null;
+  /** 停車中または向かっている停車地点。ない場合は空文字 */
+  stopId: string;
+}
+
+/** 停車地点ごとの遅れ（StopTimeUpdate） */
+export interface RealtimeStopDelay {
+  stopId: string;
+  stopSequence: number | null;
+  /** 遅れ (秒)。早発は負の値 */
+  delay: number;
+  /** 遅れを含めた発車（または到着）予定時刻 (UNIX 秒)。ない場合は null */
+  time: number | null;
+}
+
+/** 便の遅れ（TripUpdate） */
+export interface RealtimeTripUpdate {
+  tripId: string;
+  routeId: string;
+  /** 便全体の遅れ (秒)。ない場合は null */
+  delay: number | null;
+  stopDelays: RealtimeStopDelay[];
+  timestamp: number | null;
+}
+
+/** デコードした FeedMessage */
+export interface RealtimeFeed {
+  /** フィードの生成時刻 (UNIX 秒)。ない場合は null */
+  timestamp: number | null;
+  vehicles: RealtimeVehicle[];
+  tripUpdates: RealtimeTripUpdate[];
+}
+
+// ==================== Protocol Buffers ====================
+
+/** ワイヤータイプ */
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+/** 1つのメッセージを先頭から読むリーダー */
+class ProtoReader {
+  private pos: number;
+  private readonly view: DataView;
+  private readonly bytes: Uint8Array;
+  private readonly end: number;
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.pos = 0;
+    this.end = bytes.byteLength;
+  }
+
+  /** 各フィールドについて handler を呼ぶ（読まなかったフィールドは読み飛ばす） */
+  forEachField(
+    handler: (field: number, wireType: number, reader: ProtoReader) => void,
+  ): void {
+    while (this.pos < this.end) {
+      const key = this.readVarint();
+      const field = Math.floor(key / 8);
+      const wireType = key % 8;
+      const start = this.pos;
+      handler(field, wireType, this);
+      if (this.pos === start) this.skip(wireType);
+    }
+  }
+
+  /** length バイト進めて、進める前の位置を返す（データが途中で切れていればエラー） */
+  private advance(length: number): number {
+    if (this.pos + length > this.end) {
+      throw new Error("GTFS-RT のデータが壊れています");
+    }
+    const start = this.pos;
+    this.pos += length;
+    return start;
+  }
+
+  /** varint を下位・上位 32 bit に分けて読む */
+  private readVarint64(): [number, number] {
+    let lo = 0;
+    let hi = 0;
+    for (let i = 0; i < 10; i++) {
+      if (this.pos >= this.end) {
+        throw new Error("GTFS-RT のデータが壊れています");
+      }
+      const byte = this.bytes[this.pos++];
+      if (i < 4) {
+        lo |= (byte & 0x7f) << (7 * i);
+      } else if (i === 4) {
+        lo |= (byte & 0x0f) << 28;
+        hi |= (byte & 0x7f) >> 4;
+      } else {
+        hi |= (byte & 0x7f) << (7 * i - 32);
+      }
+      if (byte < 0x80) return [lo >>> 0, hi >>> 0];
+    }
+    throw new Error("GTFS-RT のデータが壊れています");
+  }
+
+  /** 符号なしの varint を読む（2^53 未満の値まで正確） */
+  readVarint(): number {
+    const [lo, hi] = this.readVarint64();
+    return hi * 2 ** 32 + lo;
+  }
+
+  /** int32 を読む（負の値は 10 バイトの varint で表される） */
+  readInt32(): number {
+    return this.readVarint64()[0] | 0;
+  }
+
+  readFloat(): number {
+    const start = this.advance(4);
+    return this.view.getFloat32(start, true);
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    const start = this.advance(length);
+    return this.bytes.subarray(start, start + length);
+  }
+
+  readString(): string {
+    return new TextDecoder().decode(this.readBytes());
+  }
+
+  /** 埋め込みメッセージを読むリーダー */
+  readMessage(): ProtoReader {
+    return new ProtoReader(this.readBytes());
+  }
+
+  private skip(wireType: number): void {
+    switch (wireType) {
+      case WIRE_VARINT:
+        this.readVarint();
+        break;
+      case WIRE_FIXED64:
+        this.advance(8);
+        break;
+      case WIRE_LENGTH_DELIMITED:
+        this.advance(this.readVarint());
+        break;
+      case WIRE_FIXED32:
+        this.advance(4);
+        break;
+      default:
+        throw new Error(`未対応のワイヤータイプです (${wireType})`);
+    }
+  }
+}
+
+// ==================== GTFS-Realtime ====================
+
+/** TripDescriptor: trip_id (1), route_id (5) */
+function readTripDescriptor(reader: ProtoReader): {
+  tripId: string;
+  routeId: string;
+} {
+  const trip = { tripId: "", routeId: "" };
+  reader.forEachField((field, _, r) => {
+    if (field === 1) trip.tripId = r.readString();
+    else if (field === 5) trip.routeId = r.readString();
+  });
+  return trip;
+}
+
+/** 到着・発車ごとの遅れと予定時刻 */
+interface StopTimeEvent {
+  delay: number | null;
+  time: number | null;
+}
+
+/** StopTimeEvent: delay (1), time (2) */
+function readStopTimeEvent(reader: ProtoReader): StopTimeEvent {
+  const event: StopTimeEvent = { delay: null, time: null };
+  reader.forEachField((field, _, r) => {
+    if (field === 1) event.delay = r.readInt32();
+    else if (field === 2) event.time = r.readVarint();
+  });
+  return event;
+}
+
+/** StopTimeUpdate: stop_sequence (1), arrival (2), departure (3), stop_id (4) */
+function readStopTimeUpdate(reader: ProtoReader): RealtimeStopDelay | null {
+  const update = {
+    stopId: "",
+    stopSequence: null as number | null,
+    arrival: null as StopTimeEvent | null,
+    departure: null as StopTimeEvent | null,
+  };
+  reader.forEachField((field, _, r) => {
+    if (field === 1) {
+      update.stopSequence = r.readVarint();
+    } else if (field === 2) {
+      update.arrival = readStopTimeEvent(r.readMessage());
+    } else if (field === 3) {
+      update.departure = readStopTimeEvent(r.readMessage());
+    } else if (field === 4) {
+      update.stopId = r.readString();
+    }
+  });
+  // 発車時刻の遅れを優先する（発車時刻で表示しているため）
+  const delay = update.departure?.delay ?? update.arrival?.delay ?? null;
+  if (delay === null) return null;
+  return {
+    stopId: update.stopId,
+    stopSequence: update.stopSequence,
+    delay,
+    time: update.departure?.time ?? update.arrival?.time ?? null,
+  };
+}
+
+/** TripUpdate: trip (1), stop_time_update (2), timestamp (4), delay (5) */
+function readTripUpdate(reader: ProtoReader): RealtimeTripUpdate {
+  const update: RealtimeTripUpdate = {
+    tripId: "",
+    routeId: "",
+    delay: null,
+    stopDelays: [],
+    timestamp: null,
+  };
+  reader.forEachField((field, _, r) => {
+    if (field === 1) {
+      Object.assign(update, readTripDescriptor(r.readMessage()));
+    } else if (field === 2) {
+      const stopDelay = readStopTimeUpdate(r.readMessage());
+      if (stopDelay) update.stopDelays.push(stopDelay);
+    } else if (field === 4) {
+      update.timestamp = r.readVarint();
+    } else if (field === 5) {
+      update.delay = r.readInt32();
+    }
+  });
+  return update;
+}
+
+/** Position: latitude (1), longitude (2), bearing (3) */
+function readPosition(
+  reader: ProtoReader,
+): Pick<RealtimeVehicle, "lat" | "lng" | "bearing"> {
+  const position = { lat: NaN, lng: NaN, bearing: null as number | null };
+  reader.forEachField((field, wireType, r) => {
+    if (wireType !== WIRE_FIXED32) return;
+    if (field === 1) position.lat = r.readFloat();
+    else if (field === 2) position.lng = r.readFloat();
+    else if (field === 3) position.bearing = r.readFloat();
+  });
+  return position;
+}
+
+/**
+ * VehiclePosition: trip (1), position (2), current_stop_sequence (3),
+ * timestamp (5), stop_id (7)
+ */
+function readVehiclePosition(reader: ProtoReader): RealtimeVehicle {
+  const vehicle: RealtimeVehicle = {
+    tripId: "",
+    routeId: "",
+    lat: NaN,
+    lng: NaN,
+    bearing: null,
+    timestamp: null,
+    stopSequence: null,
+    stopId: "",
+  };
+  reader.forEachField((field, _, r) => {
+    if (field === 1) {
+      Object.assign(vehicle, readTripDescriptor(r.readMessage()));
+    } else if (field === 2) {
+      Object.assign(vehicle, readPosition(r.readMessage()));
+    } else if (field === 3) {
+      vehicle.stopSequence = r.readVarint();
+    } else if (field === 5) {
+      vehicle.timestamp = r.readVarint();
+    } else if (field === 7) {
+      vehicle.stopId = r.readString();
+    }
+  });
+  return vehicle;
+}
+
+/**
+ * GTFS-Realtime の FeedMessage をデコードする
+ * 便の分からない車両・位置のない車両と、削除済み (is_deleted) のエンティティは含めない
+ */
+export function decodeFeedMessage(
+  data: ArrayBuffer | Uint8Array,
+): RealtimeFeed {
+  const feed: RealtimeFeed = { timestamp: null, vehicles: [], tripUpdates: [] };
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+  new ProtoReader(bytes).forEachField((field, _, reader) => {
+    if (field === 1) {
+      // FeedHeader: timestamp (3)
+      reader.readMessage().forEachField((f, __, r) => {
+        if (f === 3) feed.timestamp = r.readVarint();
+      });
+    } else if (field === 2) {
+      // FeedEntity: is_deleted (2), trip_update (3), vehicle (4)
+      const entity: {
+        isDeleted: boolean;
+        tripUpdate: RealtimeTripUpdate | null;
+        vehicle: RealtimeVehicle | null;
+      } = { isDeleted: false, tripUpdate: null, vehicle: null };
+      reader.readMessage().forEachField((f, __, r) => {
+        if (f === 2) entity.isDeleted = r.readVarint() !== 0;
+        else if (f === 3) entity.tripUpdate = readTripUpdate(r.readMessage());
+        else if (f === 4) entity.vehicle = readVehiclePosition(r.readMessage());
+      });
+      const { isDeleted, tripUpdate, vehicle } = entity;
+      if (isDeleted) return;
+      if (tripUpdate?.tripId) feed.tripUpdates.push(tripUpdate);
+      if (
+        vehicle?.tripId &&
+        !Number.isNaN(vehicle.lat) &&
+        !Number.isNaN(vehicle.lng)
+      ) {
+        feed.vehicles.push(vehicle);
+      }
+    }
+  });
+  return feed;
+}
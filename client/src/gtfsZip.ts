@@ -0,0 +1,121 @@
+import type { GtfsFiles } from "./gtfsParser";
+import { GTFS_FILE_NAMES } from "./gtfsParser";
+
+// ============================================================
+// GTFS zip の展開
+// zip の中央ディレクトリを読み、deflate は DecompressionStream（ブラウザ・Node.js 18 以降）で展開する
+// ZIP64・暗号化された zip には対応しない
+// ============================================================
+
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+/** 中央ディレクトリ終端レコードの最小サイズ（コメントなし） */
+const END_OF_CENTRAL_DIR_SIZE = 22;
+
+/** 圧縮方式 */
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+/** zip 内の1ファイル */
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+/** 中央ディレクトリ終端レコードの位置を末尾から探す */
+function findEndOfCentralDir(view: DataView): number {
+  const min = Math.max(0, view.byteLength - END_OF_CENTRAL_DIR_SIZE - 0xffff);
+  for (let i = view.byteLength - END_OF_CENTRAL_DIR_SIZE; i >= min; i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIR_SIGNATURE) return i;
+  }
+  throw new Error("zip ファイルとして読み込めません");
+}
+
+/** 中央ディレクトリからファイルの一覧を読む */
+function readEntries(bytes: Uint8Array, view: DataView): ZipEntry[] {
+  const end = findEndOfCentralDir(view);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 形式の zip には対応していません");
+  }
+
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIR_SIGNATURE) {
+      throw new Error("zip ファイルが壊れています");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    if (flags & 0x1) {
+      throw new Error("暗号化された zip には対応していません");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    entries.push({
+      name: decoder.decode(
+        bytes.subarray(offset + 46, offset + 46 + nameLength),
+      ),
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/** 1ファイル分を展開する */
+async function extractEntry(
+  bytes: Uint8Array<ArrayBuffer>,
+  view: DataView,
+  entry: ZipEntry,
+): Promise<Uint8Array> {
+  const header = entry.localHeaderOffset;
+  if (view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error("zip ファイルが壊れています");
+  }
+  const start =
+    header +
+    30 +
+    view.getUint16(header + 26, true) +
+    view.getUint16(header + 28, true);
+  const compressed = bytes.subarray(start, start + entry.compressedSize);
+
+  switch (entry.method) {
+    case METHOD_STORED:
+      return compressed;
+    case METHOD_DEFLATE: {
+      const stream = new Blob([compressed])
+        .stream()
+        .pipeThrough(new DecompressionStream("deflate-raw"));
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    default:
+      throw new Error(`未対応の圧縮方式です (${entry.method}): ${entry.name}`);
+  }
+}
+
+/**
+ * GTFS zip から GTFS のファイル（stops.txt など）を取り出す
+ * フォルダに入っている場合もファイル名で扱い、GTFS 以外のファイルは無視する
+ */
+export async function readGtfsZip(data: ArrayBuffer): Promise<GtfsFiles> {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  const decoder = new TextDecoder();
+  const files: GtfsFiles = {};
+
+  const targets = readEntries(bytes, view).filter((entry) =>
+    GTFS_FILE_NAMES.includes(entry.name.split("/").pop() || ""),
+  );
+  for (const entry of targets) {
+    const name = entry.name.split("/").pop()!;
+    files[name] = decoder.decode(await extractEntry(bytes, view, entry));
+  }
+  return files;
+}
@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setLocale, t } from "./i18n";
+import { DAY_TYPE_LABELS, formatGridHour } from "./stopTimetable";
+import { formatMonthDay, formatServiceTime } from "./utils";
+import { jst } from "./testHelpers";
+
+beforeEach(() => {
+  vi.stubGlobal("localStorage", { getItem: () => null, setItem: () => {} });
+  vi.stubGlobal("document", { documentElement: { lang: "ja" } });
+});
+
+afterEach(() => {
+  setLocale("ja");
+  vi.unstubAllGlobals();
+});
+
+describe("メッセージ", () => {
+  it("プレースホルダを埋める", () => {
+    setLocale("en");
+    expect(t("delay.early", { minutes: 2 })).toBe("2 min early");
+  });
+});
+
+describe("時刻・日付の表示", () => {
+  it("24 時以降の時刻は表示言語に合わせて翌日と分かるようにする", () => {
+    expect(formatServiceTime("23:59:00")).toBe("23:59");
+    expect(formatServiceTime("8:15:00")).toBe("08:15");
+    expect(formatServiceTime("25:05:00")).toBe("翌1:05");
+    setLocale("en");
+    expect(formatServiceTime("25:05:00")).toBe("1:05 (+1)");
+    setLocale("ko");
+    expect(formatServiceTime("24:00:00")).toBe("익일 0:00");
+  });
+
+  it("曜日は表示言語で表示する", () => {
+    const date = jst("2026-01-05T12:00"); // 月曜日
+    expect(formatMonthDay(date)).toBe("1/5(月)");
+    setLocale("en");
+    expect(formatMonthDay(date)).toBe("1/5 (Mon)");
+    setLocale("zh");
+    expect(formatMonthDay(date)).toBe("1/5(周一)");
+  });
+});
+
+describe("紙の時刻表", () => {
+  it("曜日区分と深夜の時の見出しを表示言語で表示する", () => {
+    setLocale("en");
+    expect(t(DAY_TYPE_LABELS.holiday)).toBe("Sundays & holidays");
+    expect(formatGridHour(24)).toBe("0 (+1)");
+    expect(formatGridHour(23)).toBe("23");
+  });
+});
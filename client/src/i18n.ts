@@ -0,0 +1,744 @@
+import { useSyncExternalStore } from "react";
+import type { NameTranslations } from "./types";
+
+// ============================================================
+// 多言語対応
+// 画面の文言を表示言語（日本語・英語・中国語・韓国語）に切り替える
+// バス停名・行先は GTFS の translations.txt から作った訳（extra.json の translations）を使い、
+// 訳のないものは日本語のまま表示する
+// ============================================================
+
+/** 表示言語 */
+export type Locale = "ja" | "en" | "zh" | "ko";
+
+/** 選べる表示言語（label はその言語での名前） */
+export const LOCALES: { id: Locale; label: string }[] = [
+  { id: "ja", label: "日本語" },
+  { id: "en", label: "English" },
+  { id: "zh", label: "中文" },
+  { id: "ko", label: "한국어" },
+];
+
+/** 表示言語ごとに使う translations.txt の言語コード（先にあるものを優先） */
+const GTFS_LANGUAGES: Record<Locale, string[]> = {
+  ja: [],
+  en: ["en"],
+  zh: ["zh-Hans", "zh-CN", "zh", "zh-Hant", "zh-TW"],
+  ko: ["ko"],
+};
+
+// ==================== 文言 ====================
+
+/** 日本語の文言（{name} の部分は t() の引数で置き換える） */
+const JA = {
+  route: "{route}系統",
+  headsign: "{name}行",
+  via: "{via} 経由",
+  platform: "{platform}番のりば",
+  platformShort: "{platform}番",
+  loading: "読み込み中...",
+  close: "閉じる",
+  back: "戻る",
+  listSeparator: "、",
+  departsAt: "{time} 発",
+  "delay.late": "+{minutes}分",
+  "delay.lateSpoken": "{minutes}分遅れ",
+  "delay.onTime": "定刻",
+  "delay.early": "{minutes}分早発",
+  "time.nextDay": "翌{time}",
+  "date.monthDay": "{month}/{day}({weekday})",
+  /** 月曜日から日曜日（GTFS の曜日の順） */
+  "date.weekdays": "月,火,水,木,金,土,日",
+
+  "search.placeholder": "バス停・路線番号・行先を検索",
+  "search.suggestions": "検索候補",
+  "search.favorites": "お気に入り",
+  "search.history": "最近の検索",
+  "search.stops": "バス停",
+  "search.routes": "路線",
+  "search.headsigns": "行先",
+  "search.removeHistory": "履歴から削除",
+  "search.resultCount": "{count}件の候補があります",
+  "search.journeyPlanner": "経路検索",
+  "search.routeBrowser": "路線一覧",
+  "search.nearby": "現在地周辺のバス停",
+  "search.isochrone": "到達圏（◯分で行ける範囲）",
+
+  "favorite.add": "お気に入りに追加",
+  "favorite.remove": "お気に入りから削除",
+  "favorite.from": "{name} から",
+  "favorite.endedToday": "本日の運行は終了しました",
+  "favorite.endedOnDate": "この日の運行は終了しました",
+
+  "panel.board": "発車案内",
+  "panel.timetable": "時刻表",
+  "panel.timetableGrid": "時刻表（平日・土曜・日曜祝日）",
+  "panel.nextStop": "次の停車",
+  "panel.nextDeparture": "次の発車",
+  "panel.passed": "通過済み",
+  "panel.departed": "発車済み",
+  "panel.noServiceToday": "本日の運行はありません",
+  "panel.noServiceOnDate": "この日の運行はありません",
+  "panel.nextServiceDate": "（次の運行日: {date}）",
+  "panel.noFilteredService": "選択した系統・行先の運行はありません",
+
+  "journey.board": "{stop} 乗車",
+  "journey.alight": "{stop} 降車",
+  "journey.times": "{departure} 発 → {arrival} 着",
+  "journey.direct": "直通",
+  "journey.transfers": "乗換{count}回",
+  "journey.walkTransfer": "徒歩 約{meters}m（約{minutes}分）で乗り換え",
+  "journey.samePlatform": "同じのりばで乗り換え",
+
+  "layer.toggle": "地図レイヤー切り替え",
+  "layer.pale": "淡色地図",
+  "layer.ortho": "航空写真",
+  "layer.agencies": "事業者",
+  "layer.language": "言語",
+
+  "journey.origin": "出発バス停",
+  "journey.destination": "到着バス停",
+  "journey.swap": "出発と到着を入れ替え",
+  "journey.search": "検索",
+  "journey.searching": "検索中...",
+  "journey.resultsToday": "本日の経路",
+  "journey.resultsOnDate": "指定日時からの経路",
+  "journey.notFound": "経路が見つかりませんでした",
+  "journey.duration": "{minutes}分",
+
+  "isochrone.title": "到達圏",
+  "isochrone.budget": "{minutes}分以内",
+  "isochrone.noTransfer": "乗り換えなし",
+  "isochrone.oneTransfer": "乗り換え1回まで",
+  "isochrone.calculate": "計算",
+  "isochrone.calculating": "計算中...",
+  "isochrone.failed": "計算に失敗しました: {error}",
+  "isochrone.summaryToday":
+    "本日 {time} 発 ・ {minutes}分以内に行けるバス停（{count}か所）",
+  "isochrone.summaryOnDate":
+    "指定日時 {time} 発 ・ {minutes}分以内に行けるバス停（{count}か所）",
+  "isochrone.upTo": "〜{minutes}分",
+  "isochrone.about": "約{minutes}分",
+
+  "nearby.relocate": "現在地を再取得",
+  "nearby.locating": "現在地を取得しています...",
+  "nearby.notFound": "近くにバス停が見つかりませんでした",
+  "nearby.walk": "徒歩 約{minutes}分（{meters}m）",
+  "geolocation.denied": "位置情報の利用が許可されていません",
+  "geolocation.timeout": "現在地の取得がタイムアウトしました",
+  "geolocation.unavailable": "現在地を取得できませんでした",
+  "geolocation.unsupported": "この端末では現在地を取得できません",
+
+  "routes.filter": "路線番号で絞り込み",
+  "routes.notFound": "路線が見つかりませんでした",
+  "routes.variantsToday": "本日の運行系統",
+  "routes.variantsOnDate": "指定日の運行系統",
+  "routes.tripCount": "{count}便（{first}〜{last}）",
+  "routes.showTrip": "この便を表示",
+
+  "board.soon": "まもなく",
+  "board.countdown": "あと{minutes}分",
+  "board.platform": "のりば",
+  "board.noDepartures": "この後の発車予定はありません",
+
+  "timetable.weekday": "平日",
+  "timetable.saturday": "土曜",
+  "timetable.holiday": "日曜・祝日",
+  "timetable.saveCsv": "CSV で保存",
+  "timetable.print": "印刷・PDF で保存",
+  "timetable.noService": "運行はありません",
+  "timetable.noMarker": "無印",
+  "timetable.hour": "時",
+  "timetable.minute": "分",
+  "timetable.marker": "記号",
+  "timetable.route": "系統",
+  "timetable.headsign": "行先",
+  "timetable.via": "経由",
+
+  "timeTravel.open": "日時を指定して表示",
+  "timeTravel.title": "表示する日時",
+  "timeTravel.apply": "この日時で表示",
+  "timeTravel.reset": "現在時刻に戻る",
+  "timeTravel.showing": "{moment} の運行を表示中",
+
+  "validity.expired":
+    "時刻表データの有効期限（{date}）を過ぎています。曜日ごとのダイヤで運行しているとみなして表示しているため、実際の運行と異なる場合があります",
+  "validity.notYetValid":
+    "時刻表データの有効期間（{date}〜）より前の日付です。実際の運行と異なる場合があります",
+  "validity.outOfRange":
+    "表示中の日付は時刻表データのどの運行期間にも含まれていません。実際の運行と異なる場合があります",
+  "validity.feedVersion": "データ版 {version}",
+  "validity.generatedAt": "{date} 生成",
+  "offline.usingCache": "保存済みのデータで表示中",
+  "offline.offline": "オフライン",
+  "offline.revisedOn": "{date} 改正ダイヤ",
+  "offline.savedAt": "{date} 保存",
+
+  "import.open": "GTFS データ (zip) を読み込む",
+  "import.drop": "GTFS データ (zip) をドロップして読み込み",
+  "import.loading": "{names} を読み込み中...",
+  "import.done": "{names} を読み込みました（{details}）",
+  "import.version": "版 {version}",
+  "import.agencies": "{count} 事業者",
+  "import.routes": "{count} 路線",
+  "import.stops": "{count} バス停",
+  "import.failed": "読み込みに失敗しました: {error}",
+
+  "map.resume": "自動更新を停止しました。再開するにはここをクリック",
+};
+
+/** 文言のキー */
+export type MessageKey = keyof typeof JA;
+
+const EN: Record<MessageKey, string> = {
+  route: "Route {route}",
+  headsign: "for {name}",
+  via: "via {via}",
+  platform: "Platform {platform}",
+  platformShort: "P{platform}",
+  loading: "Loading...",
+  close: "Close",
+  back: "Back",
+  listSeparator: ", ",
+  departsAt: "Dep. {time}",
+  "delay.late": "+{minutes} min",
+  "delay.lateSpoken": "{minutes} min late",
+  "delay.onTime": "On time",
+  "delay.early": "{minutes} min early",
+  "time.nextDay": "{time} (+1)",
+  "date.monthDay": "{month}/{day} ({weekday})",
+  "date.weekdays": "Mon,Tue,Wed,Thu,Fri,Sat,Sun",
+
+  "search.placeholder": "Search stops, routes, destinations",
+  "search.suggestions": "Suggestions",
+  "search.favorites": "Favorites",
+  "search.history": "Recent searches",
+  "search.stops": "Stops",
+  "search.routes": "Routes",
+  "search.headsigns": "Destinations",
+  "search.removeHistory": "Remove from history",
+  "search.resultCount": "{count} suggestions available",
+  "search.journeyPlanner": "Journey planner",
+  "search.routeBrowser": "All routes",
+  "search.nearby": "Stops near me",
+  "search.isochrone": "Reachable area",
+
+  "favorite.add": "Add to favorites",
+  "favorite.remove": "Remove from favorites",
+  "favorite.from": "from {name}",
+  "favorite.endedToday": "No more departures today",
+  "favorite.endedOnDate": "No more departures on this day",
+
+  "panel.board": "Departure board",
+  "panel.timetable": "Timetable",
+  "panel.timetableGrid": "Timetable (weekdays, Saturdays, Sundays/holidays)",
+  "panel.nextStop": "Next stop",
+  "panel.nextDeparture": "Next departure",
+  "panel.passed": "Passed",
+  "panel.departed": "Departed",
+  "panel.noServiceToday": "No service today",
+  "panel.noServiceOnDate": "No service on this day",
+  "panel.nextServiceDate": " (next service: {date})",
+  "panel.noFilteredService": "No service for the selected routes",
+
+  "journey.board": "Board at {stop}",
+  "journey.alight": "Get off at {stop}",
+  "journey.times": "Dep. {departure} → Arr. {arrival}",
+  "journey.direct": "Direct",
+  "journey.transfers": "{count} transfer(s)",
+  "journey.walkTransfer":
+    "Walk about {meters} m (about {minutes} min) to transfer",
+  "journey.samePlatform": "Transfer at the same platform",
+
+  "layer.toggle": "Map layers",
+  "layer.pale": "Standard map",
+  "layer.ortho": "Aerial photo",
+  "layer.agencies": "Operators",
+  "layer.language": "Language",
+
+  "journey.origin": "From",
+  "journey.destination": "To",
+  "journey.swap": "Swap origin and destination",
+  "journey.search": "Search",
+  "journey.searching": "Searching...",
+  "journey.resultsToday": "Routes for today",
+  "journey.resultsOnDate": "Routes from the selected time",
+  "journey.notFound": "No routes found",
+  "journey.duration": "{minutes} min",
+
+  "isochrone.title": "Reachable area",
+  "isochrone.budget": "Within {minutes} min",
+  "isochrone.noTransfer": "No transfers",
+  "isochrone.oneTransfer": "Up to 1 transfer",
+  "isochrone.calculate": "Calculate",
+  "isochrone.calculating": "Calculating...",
+  "isochrone.failed": "Calculation failed: {error}",
+  "isochrone.summaryToday":
+    "Today, departing {time} · {count} stops within {minutes} min",
+  "isochrone.summaryOnDate":
+    "Selected date, departing {time} · {count} stops within {minutes} min",
+  "isochrone.upTo": "≤{minutes} min",
+  "isochrone.about": "About {minutes} min",
+
+  "nearby.relocate": "Update current location",
+  "nearby.locating": "Getting your location...",
+  "nearby.notFound": "No stops nearby",
+  "nearby.walk": "{minutes} min walk ({meters} m)",
+  "geolocation.denied": "Location access is not allowed",
+  "geolocation.timeout": "Getting your location timed out",
+  "geolocation.unavailable": "Could not get your location",
+  "geolocation.unsupported": "This device cannot get your location",
+
+  "routes.filter": "Filter by route number",
+  "routes.notFound": "No routes found",
+  "routes.variantsToday": "Today's services",
+  "routes.variantsOnDate": "Services on the selected date",
+  "routes.tripCount": "{count} trips ({first}–{last})",
+  "routes.showTrip": "Show this trip",
+
+  "board.soon": "Now",
+  "board.countdown": "in {minutes} min",
+  "board.platform": "Platform",
+  "board.noDepartures": "No more departures",
+
+  "timetable.weekday": "Weekdays",
+  "timetable.saturday": "Saturdays",
+  "timetable.holiday": "Sundays & holidays",
+  "timetable.saveCsv": "Save as CSV",
+  "timetable.print": "Print or save as PDF",
+  "timetable.noService": "No service",
+  "timetable.noMarker": "Unmarked",
+  "timetable.hour": "Hour",
+  "timetable.minute": "Minute",
+  "timetable.marker": "Mark",
+  "timetable.route": "Route",
+  "timetable.headsign": "Destination",
+  "timetable.via": "Via",
+
+  "timeTravel.open": "Show a specific date and time",
+  "timeTravel.title": "Date and time to show",
+  "timeTravel.apply": "Show this date and time",
+  "timeTravel.reset": "Back to now",
+  "timeTravel.showing": "Showing service at {moment}",
+
+  "validity.expired":
+    "The timetable data expired on {date}. Services are shown assuming the weekly schedule continues, so they may differ from actual operation",
+  "validity.notYetValid":
+    "This date is before the timetable data takes effect ({date}). Services may differ from actual operation",
+  "validity.outOfRange":
+    "The displayed date is not covered by any service period in the timetable data. Services may differ from actual operation",
+  "validity.feedVersion": "Data version {version}",
+  "validity.generatedAt": "Generated {date}",
+  "offline.usingCache": "Showing saved data",
+  "offline.offline": "Offline",
+  "offline.revisedOn": "Timetable revised {date}",
+  "offline.savedAt": "Saved {date}",
+
+  "import.open": "Load GTFS data (zip)",
+  "import.drop": "Drop GTFS data (zip) to load",
+  "import.loading": "Loading {names}...",
+  "import.done": "Loaded {names} ({details})",
+  "import.version": "Version {version}",
+  "import.agencies": "{count} operators",
+  "import.routes": "{count} routes",
+  "import.stops": "{count} stops",
+  "import.failed": "Failed to load: {error}",
+
+  "map.resume": "Auto-refresh paused. Click here to resume",
+};
+
+const ZH: Record<MessageKey, string> = {
+  route: "{route}路",
+  headsign: "开往{name}",
+  via: "经由{via}",
+  platform: "{platform}号站台",
+  platformShort: "{platform}号",
+  loading: "加载中...",
+  close: "关闭",
+  back: "返回",
+  listSeparator: "、",
+  departsAt: "{time} 出发",
+  "delay.late": "+{minutes}分钟",
+  "delay.lateSpoken": "晚点{minutes}分钟",
+  "delay.onTime": "准点",
+  "delay.early": "提前{minutes}分钟",
+  "time.nextDay": "次日{time}",
+  "date.monthDay": "{month}/{day}({weekday})",
+  "date.weekdays": "周一,周二,周三,周四,周五,周六,周日",
+
+  "search.placeholder": "搜索车站、线路、目的地",
+  "search.suggestions": "搜索建议",
+  "search.favorites": "收藏",
+  "search.history": "最近搜索",
+  "search.stops": "车站",
+  "search.routes": "线路",
+  "search.headsigns": "目的地",
+  "search.removeHistory": "从历史记录中删除",
+  "search.resultCount": "共有{count}个候选",
+  "search.journeyPlanner": "路线规划",
+  "search.routeBrowser": "线路一览",
+  "search.nearby": "附近的车站",
+  "search.isochrone": "可到达范围",
+
+  "favorite.add": "添加到收藏",
+  "favorite.remove": "从收藏中删除",
+  "favorite.from": "{name} 出发",
+  "favorite.endedToday": "今天的运营已结束",
+  "favorite.endedOnDate": "当天的运营已结束",
+
+  "panel.board": "发车信息",
+  "panel.timetable": "时刻表",
+  "panel.timetableGrid": "时刻表（工作日・周六・周日节假日）",
+  "panel.nextStop": "下一站",
+  "panel.nextDeparture": "下一班",
+  "panel.passed": "已通过",
+  "panel.departed": "已发车",
+  "panel.noServiceToday": "今天没有运营",
+  "panel.noServiceOnDate": "当天没有运营",
+  "panel.nextServiceDate": "（下次运营日: {date}）",
+  "panel.noFilteredService": "所选线路・目的地没有运营",
+
+  "journey.board": "在{stop}上车",
+  "journey.alight": "在{stop}下车",
+  "journey.times": "{departure} 出发 → {arrival} 到达",
+  "journey.direct": "直达",
+  "journey.transfers": "换乘{count}次",
+  "journey.walkTransfer": "步行约{meters}米（约{minutes}分钟）换乘",
+  "journey.samePlatform": "在同一站台换乘",
+
+  "layer.toggle": "切换地图图层",
+  "layer.pale": "浅色地图",
+  "layer.ortho": "航拍照片",
+  "layer.agencies": "运营商",
+  "layer.language": "语言",
+
+  "journey.origin": "出发站",
+  "journey.destination": "到达站",
+  "journey.swap": "交换出发站和到达站",
+  "journey.search": "搜索",
+  "journey.searching": "正在搜索...",
+  "journey.resultsToday": "今天的路线",
+  "journey.resultsOnDate": "从指定时间出发的路线",
+  "journey.notFound": "未找到路线",
+  "journey.duration": "{minutes}分钟",
+
+  "isochrone.title": "可达范围",
+  "isochrone.budget": "{minutes}分钟以内",
+  "isochrone.noTransfer": "不换乘",
+  "isochrone.oneTransfer": "最多换乘1次",
+  "isochrone.calculate": "计算",
+  "isochrone.calculating": "正在计算...",
+  "isochrone.failed": "计算失败：{error}",
+  "isochrone.summaryToday":
+    "今天 {time} 出发 ・ {minutes}分钟以内可到达的车站（{count}个）",
+  "isochrone.summaryOnDate":
+    "指定日期 {time} 出发 ・ {minutes}分钟以内可到达的车站（{count}个）",
+  "isochrone.upTo": "≤{minutes}分钟",
+  "isochrone.about": "约{minutes}分钟",
+
+  "nearby.relocate": "重新获取当前位置",
+  "nearby.locating": "正在获取当前位置...",
+  "nearby.notFound": "附近没有找到车站",
+  "nearby.walk": "步行约{minutes}分钟（{meters}米）",
+  "geolocation.denied": "未允许使用位置信息",
+  "geolocation.timeout": "获取当前位置超时",
+  "geolocation.unavailable": "无法获取当前位置",
+  "geolocation.unsupported": "此设备无法获取当前位置",
+
+  "routes.filter": "按线路编号筛选",
+  "routes.notFound": "未找到线路",
+  "routes.variantsToday": "今天运行的线路",
+  "routes.variantsOnDate": "指定日期运行的线路",
+  "routes.tripCount": "{count}班（{first}～{last}）",
+  "routes.showTrip": "显示此班次",
+
+  "board.soon": "即将发车",
+  "board.countdown": "{minutes}分钟后",
+  "board.platform": "站台",
+  "board.noDepartures": "之后没有发车班次",
+
+  "timetable.weekday": "工作日",
+  "timetable.saturday": "周六",
+  "timetable.holiday": "周日・节假日",
+  "timetable.saveCsv": "保存为 CSV",
+  "timetable.print": "打印・保存为 PDF",
+  "timetable.noService": "无运行班次",
+  "timetable.noMarker": "无标记",
+  "timetable.hour": "时",
+  "timetable.minute": "分",
+  "timetable.marker": "标记",
+  "timetable.route": "线路",
+  "timetable.headsign": "目的地",
+  "timetable.via": "经由",
+
+  "timeTravel.open": "指定日期和时间显示",
+  "timeTravel.title": "显示的日期和时间",
+  "timeTravel.apply": "按此日期和时间显示",
+  "timeTravel.reset": "返回当前时间",
+  "timeTravel.showing": "正在显示 {moment} 的运行",
+
+  "validity.expired":
+    "时刻表数据已超过有效期（{date}）。按每周相同的时刻表显示，可能与实际运行不同",
+  "validity.notYetValid":
+    "该日期早于时刻表数据的生效日期（{date}）。可能与实际运行不同",
+  "validity.outOfRange":
+    "所显示的日期不在时刻表数据的任何运行期间内。可能与实际运行不同",
+  "validity.feedVersion": "数据版本 {version}",
+  "validity.generatedAt": "{date} 生成",
+  "offline.usingCache": "正在显示已保存的数据",
+  "offline.offline": "离线",
+  "offline.revisedOn": "{date} 修订的时刻表",
+  "offline.savedAt": "{date} 保存",
+
+  "import.open": "加载 GTFS 数据 (zip)",
+  "import.drop": "拖放 GTFS 数据 (zip) 以加载",
+  "import.loading": "正在加载 {names}...",
+  "import.done": "已加载 {names}（{details}）",
+  "import.version": "版本 {version}",
+  "import.agencies": "{count} 个运营商",
+  "import.routes": "{count} 条线路",
+  "import.stops": "{count} 个车站",
+  "import.failed": "加载失败：{error}",
+
+  "map.resume": "已暂停自动更新。点击此处恢复",
+};
+
+const KO: Record<MessageKey, string> = {
+  route: "{route}번",
+  headsign: "{name}행",
+  via: "{via} 경유",
+  platform: "{platform}번 승강장",
+  platformShort: "{platform}번",
+  loading: "불러오는 중...",
+  close: "닫기",
+  back: "뒤로",
+  listSeparator: ", ",
+  departsAt: "{time} 출발",
+  "delay.late": "+{minutes}분",
+  "delay.lateSpoken": "{minutes}분 지연",
+  "delay.onTime": "정시",
+  "delay.early": "{minutes}분 일찍 출발",
+  "time.nextDay": "익일 {time}",
+  "date.monthDay": "{month}/{day}({weekday})",
+  "date.weekdays": "월,화,수,목,금,토,일",
+
+  "search.placeholder": "정류장・노선 번호・행선지 검색",
+  "search.suggestions": "검색 후보",
+  "search.favorites": "즐겨찾기",
+  "search.history": "최근 검색",
+  "search.stops": "정류장",
+  "search.routes": "노선",
+  "search.headsigns": "행선지",
+  "search.removeHistory": "기록에서 삭제",
+  "search.resultCount": "후보가 {count}개 있습니다",
+  "search.journeyPlanner": "경로 검색",
+  "search.routeBrowser": "노선 목록",
+  "search.nearby": "주변 정류장",
+  "search.isochrone": "도달 가능 범위",
+
+  "favorite.add": "즐겨찾기에 추가",
+  "favorite.remove": "즐겨찾기에서 삭제",
+  "favorite.from": "{name} 출발",
+  "favorite.endedToday": "오늘 운행이 종료되었습니다",
+  "favorite.endedOnDate": "이날 운행이 종료되었습니다",
+
+  "panel.board": "출발 안내",
+  "panel.timetable": "시간표",
+  "panel.timetableGrid": "시간표 (평일・토요일・일요일 공휴일)",
+  "panel.nextStop": "다음 정류장",
+  "panel.nextDeparture": "다음 출발",
+  "panel.passed": "통과",
+  "panel.departed": "출발함",
+  "panel.noServiceToday": "오늘은 운행하지 않습니다",
+  "panel.noServiceOnDate": "이날은 운행하지 않습니다",
+  "panel.nextServiceDate": " (다음 운행일: {date})",
+  "panel.noFilteredService": "선택한 노선・행선지의 운행이 없습니다",
+
+  "journey.board": "{stop} 승차",
+  "journey.alight": "{stop} 하차",
+  "journey.times": "{departure} 출발 → {arrival} 도착",
+  "journey.direct": "직통",
+  "journey.transfers": "환승 {count}회",
+  "journey.walkTransfer": "도보 약 {meters}m (약 {minutes}분) 환승",
+  "journey.samePlatform": "같은 승강장에서 환승",
+
+  "layer.toggle": "지도 레이어 전환",
+  "layer.pale": "기본 지도",
+  "layer.ortho": "항공 사진",
+  "layer.agencies": "운행 회사",
+  "layer.language": "언어",
+
+  "journey.origin": "출발 정류장",
+  "journey.destination": "도착 정류장",
+  "journey.swap": "출발과 도착 바꾸기",
+  "journey.search": "검색",
+  "journey.searching": "검색 중...",
+  "journey.resultsToday": "오늘의 경로",
+  "journey.resultsOnDate": "지정한 시간부터의 경로",
+  "journey.notFound": "경로를 찾을 수 없습니다",
+  "journey.duration": "{minutes}분",
+
+  "isochrone.title": "도달 범위",
+  "isochrone.budget": "{minutes}분 이내",
+  "isochrone.noTransfer": "환승 없음",
+  "isochrone.oneTransfer": "환승 1회까지",
+  "isochrone.calculate": "계산",
+  "isochrone.calculating": "계산 중...",
+  "isochrone.failed": "계산 실패: {error}",
+  "isochrone.summaryToday":
+    "오늘 {time} 출발 ・ {minutes}분 이내에 갈 수 있는 정류장({count}곳)",
+  "isochrone.summaryOnDate":
+    "지정일 {time} 출발 ・ {minutes}분 이내에 갈 수 있는 정류장({count}곳)",
+  "isochrone.upTo": "~{minutes}분",
+  "isochrone.about": "약 {minutes}분",
+
+  "nearby.relocate": "현재 위치 다시 가져오기",
+  "nearby.locating": "현재 위치를 가져오는 중...",
+  "nearby.notFound": "근처에 정류장이 없습니다",
+  "nearby.walk": "도보 약 {minutes}분({meters}m)",
+  "geolocation.denied": "위치 정보 사용이 허용되지 않았습니다",
+  "geolocation.timeout": "현재 위치 가져오기 시간이 초과되었습니다",
+  "geolocation.unavailable": "현재 위치를 가져올 수 없습니다",
+  "geolocation.unsupported": "이 기기에서는 현재 위치를 가져올 수 없습니다",
+
+  "routes.filter": "노선 번호로 필터",
+  "routes.notFound": "노선을 찾을 수 없습니다",
+  "routes.variantsToday": "오늘 운행 계통",
+  "routes.variantsOnDate": "지정일 운행 계통",
+  "routes.tripCount": "{count}편({first}~{last})",
+  "routes.showTrip": "이 편 보기",
+
+  "board.soon": "곧 출발",
+  "board.countdown": "{minutes}분 후",
+  "board.platform": "승강장",
+  "board.noDepartures": "이후 출발 예정이 없습니다",
+
+  "timetable.weekday": "평일",
+  "timetable.saturday": "토요일",
+  "timetable.holiday": "일요일・공휴일",
+  "timetable.saveCsv": "CSV로 저장",
+  "timetable.print": "인쇄・PDF로 저장",
+  "timetable.noService": "운행 없음",
+  "timetable.noMarker": "표시 없음",
+  "timetable.hour": "시",
+  "timetable.minute": "분",
+  "timetable.marker": "기호",
+  "timetable.route": "계통",
+  "timetable.headsign": "행선지",
+  "timetable.via": "경유",
+
+  "timeTravel.open": "날짜와 시간을 지정하여 표시",
+  "timeTravel.title": "표시할 날짜와 시간",
+  "timeTravel.apply": "이 날짜와 시간으로 표시",
+  "timeTravel.reset": "현재 시간으로 돌아가기",
+  "timeTravel.showing": "{moment} 운행 표시 중",
+
+  "validity.expired":
+    "시간표 데이터의 유효 기간({date})이 지났습니다. 요일별 시간표대로 운행한다고 가정하여 표시하므로 실제 운행과 다를 수 있습니다",
+  "validity.notYetValid":
+    "시간표 데이터의 유효 기간({date}~) 이전 날짜입니다. 실제 운행과 다를 수 있습니다",
+  "validity.outOfRange":
+    "표시 중인 날짜는 시간표 데이터의 어느 운행 기간에도 포함되지 않습니다. 실제 운행과 다를 수 있습니다",
+  "validity.feedVersion": "데이터 버전 {version}",
+  "validity.generatedAt": "{date} 생성",
+  "offline.usingCache": "저장된 데이터로 표시 중",
+  "offline.offline": "오프라인",
+  "offline.revisedOn": "{date} 개정 시간표",
+  "offline.savedAt": "{date} 저장",
+
+  "import.open": "GTFS 데이터(zip) 불러오기",
+  "import.drop": "GTFS 데이터(zip)를 놓아서 불러오기",
+  "import.loading": "{names} 불러오는 중...",
+  "import.done": "{names}을(를) 불러왔습니다({details})",
+  "import.version": "버전 {version}",
+  "import.agencies": "사업자 {count}곳",
+  "import.routes": "노선 {count}개",
+  "import.stops": "정류장 {count}곳",
+  "import.failed": "불러오기 실패: {error}",
+
+  "map.resume":
+    "자동 업데이트가 중지되었습니다. 다시 시작하려면 여기를 클릭하세요",
+};
+
+const MESSAGES: Record<Locale, Record<MessageKey, string>> = {
+  ja: JA,
+  en: EN,
+  zh: ZH,
+  ko: KO,
+};
+
+// ==================== 表示言語 ====================
+
+const LOCALE_KEY = "bus_locale";
+
+/** 保存した表示言語、なければブラウザの言語設定から選ぶ */
+function getInitialLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (LOCALES.some((l) => l.id === saved)) return saved as Locale;
+  } catch {
+    // localStorage が使えない場合はブラウザの言語設定を使う
+  }
+  const language = (
+    (typeof navigator !== "undefined" && navigator.language) ||
+    "ja"
+  ).toLowerCase();
+  return LOCALES.find((l) => language.startsWith(l.id))?.id ?? "ja";
+}
+
+let locale: Locale = getInitialLocale();
+const listeners = new Set<() => void>();
+// Web Worker（到達圏の計算）から読み込まれた場合は document がない
+if (typeof document !== "undefined") document.documentElement.lang = locale;
+
+/** 現在の表示言語（useSyncExternalStore 用） */
+export function getLocale(): Locale {
+  return locale;
+}
+
+/** 表示言語の変更を購読する */
+export function subscribeLocale(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** 現在の表示言語（切り替えたときに再描画する） */
+export function useLocale(): Locale {
+  return useSyncExternalStore(subscribeLocale, getLocale);
+}
+
+/** 表示言語を切り替えて保存する */
+export function setLocale(next: Locale): void {
+  if (next === locale) return;
+  locale = next;
+  localStorage.setItem(LOCALE_KEY, next);
+  document.documentElement.lang = next;
+  listeners.forEach((l) => l());
+}
+
+/** 表示言語での文言（{name} の部分を params の値で置き換える） */
+export function t(
+  key: MessageKey,
+  params: Record<string, string | number> = {},
+): string {
+  return MESSAGES[locale][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
+
+// ==================== バス停名・行先の訳 ====================
+
+let nameTranslations: NameTranslations = {};
+
+/** 読み込んだデータのバス停名・行先の訳を使う（データを読み込むたびに呼ぶ） */
+export function setNameTranslations(translations: NameTranslations = {}): void {
+  nameTranslations = translations;
+}
+
+/** バス停名・行先を表示言語にする（訳がなければ日本語のまま） */
+export function translateName(name: string): string {
+  const names = nameTranslations[name];
+  if (!names) return name;
+  const language = GTFS_LANGUAGES[locale].find((l) => names[l]);
+  return language ? names[language] : name;
+}
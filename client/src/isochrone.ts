@@ -0,0 +1,213 @@
+import type { FeatureCollection, Polygon } from "geojson";
+import type { StopsData } from "./types";
+import type { PlannerData, RunningTrip } from "./journeyPlanner";
+import {
+  TRANSFER_MARGIN_SEC,
+  WALK_SPEED,
+  buildNetwork,
+  walkNeighbors,
+} from "./journeyPlanner";
+import { distanceMeters } from "./utils";
+
+// ============================================================
+// 到達圏（◯分でどこまで行けるか）
+// 出発バス停・出発時刻から、時間内にバスと徒歩で到達できるバス停を求め、
+// 到達したバス停からさらに歩ける範囲を所要時間で色分けしたメッシュにする
+// 計算は isochroneWorker.ts（Web Worker）で行う
+// ============================================================
+
+/** 到達したバス停から歩く最大距離 (m) */
+const MAX_FINAL_WALK_METERS = 1000;
+/** メッシュのセルの大きさ (m) */
+const CELL_METERS = 150;
+/** 緯度1度あたりの距離 (m) */
+const METERS_PER_LAT = 111320;
+
+/** 所要時間の区分（上限の分と表示色） */
+export const ISOCHRONE_BANDS: { minutes: number; color: string }[] = [
+  { minutes: 10, color: "#1a9850" },
+  { minutes: 20, color: "#66bd63" },
+  { minutes: 30, color: "#d9ef8b" },
+  { minutes: 45, color: "#fdae61" },
+  { minutes: 60, color: "#d73027" },
+];
+
+/** 到達圏の計算条件 */
+export interface IsochroneQuery {
+  /** 出発バス停ID（同名のりばをまとめて指定） */
+  originIds: string[];
+  /** 出発時刻（0時からの秒数） */
+  departureSec: number;
+  /** 検索する日付 */
+  date: Date;
+  /** 所要時間の上限 (秒) */
+  budgetSec: number;
+  /** 最大乗り継ぎ回数 */
+  maxTransfers: number;
+}
+
+/** 到達圏の計算結果 */
+export interface IsochroneResult {
+  /** 到達できるバス停ID → 出発からの所要時間 (秒) */
+  reachable: Record<string, number>;
+  /** 所要時間で色分けしたメッシュ（properties.minutes, properties.color） */
+  features: FeatureCollection<Polygon>;
+}
+
+/**
+ * 時間内に到達できるバス停と所要時間を求める
+ * RAPTOR 方式でラウンド（乗車回数）ごとに、乗車と徒歩での乗り継ぎによる到着時刻を更新する
+ */
+export function computeReachableStops(
+  data: PlannerData,
+  query: IsochroneQuery,
+): Record<string, number> {
+  const network = buildNetwork(data, query.date);
+  const limit = query.departureSec + query.budgetSec;
+  const bestArrival = new Map<string, number>();
+
+  // 出発バス停と、そこから徒歩で行けるバス停
+  query.originIds.forEach((id) => bestArrival.set(id, query.departureSec));
+  query.originIds.forEach((originId) => {
+    walkNeighbors(network, originId).forEach(({ stopId, meters }) => {
+      const time = query.departureSec + Math.ceil(meters / WALK_SPEED);
+      if (time <= limit && time < (bestArrival.get(stopId) ?? Infinity)) {
+        bestArrival.set(stopId, time);
+      }
+    });
+  });
+
+  let marked = new Set(bestArrival.keys());
+  for (let round = 1; round <= query.maxTransfers + 1; round++) {
+    // 乗車可能な便ごとに、最も手前で乗れる停車地点を求める
+    const boardings = new Map<RunningTrip, number>();
+    marked.forEach((stopId) => {
+      const ready =
+        bestArrival.get(stopId)! + (round > 1 ? TRANSFER_MARGIN_SEC : 0);
+      (network.tripsByStop.get(stopId) || []).forEach(({ trip, idx }) => {
+        if (idx >= trip.secs.length - 1) return;
+        if (trip.secs[idx] < ready || trip.secs[idx] > limit) return;
+        const prev = boardings.get(trip);
+        if (prev === undefined || idx < prev) boardings.set(trip, idx);
+      });
+    });
+
+    // 乗車して到達できるバス停を更新
+    const rides = new Set<string>();
+    boardings.forEach((idx, trip) => {
+      for (let j = idx + 1; j < trip.secs.length; j++) {
+        const time = trip.secs[j];
+        if (time > limit) break;
+        const target = trip.trip.stops[j].stop_id;
+        if (time < (bestArrival.get(target) ?? Infinity)) {
+          bestArrival.set(target, time);
+          rides.add(target);
+        }
+      }
+    });
+
+    // 降車したバス停から徒歩で乗り継げるバス停を更新
+    const walks = new Set<string>();
+    rides.forEach((stopId) => {
+      const arrival = bestArrival.get(stopId)!;
+      walkNeighbors(network, stopId).forEach(({ stopId: target, meters }) => {
+        const time = arrival + Math.ceil(meters / WALK_SPEED);
+        if (time <= limit && time < (bestArrival.get(target) ?? Infinity)) {
+          bestArrival.set(target, time);
+          walks.add(target);
+        }
+      });
+    });
+
+    marked = new Set([...rides, ...walks]);
+    if (marked.size === 0) break;
+  }
+
+  const reachable: Record<string, number> = {};
+  bestArrival.forEach((time, stopId) => {
+    if (data.stops[stopId]) reachable[stopId] = time - query.departureSec;
+  });
+  return reachable;
+}
+
+/** 所要時間 (分) の区分の色 */
+function bandColor(minutes: number): string {
+  const band = ISOCHRONE_BANDS.find((b) => minutes <= b.minutes);
+  return (band ?? ISOCHRONE_BANDS[ISOCHRONE_BANDS.length - 1]).color;
+}
+
+/**
+ * 到達できるバス停から歩ける範囲を、所要時間で色分けしたメッシュにする
+ * 各セルの所要時間は、到達したバス停のうち最も早く歩いて着けるものの時間
+ */
+export function buildIsochroneFeatures(
+  stops: StopsData,
+  reachable: Record<string, number>,
+  budgetSec: number,
+): FeatureCollection<Polygon> {
+  const ids = Object.keys(reachable);
+  if (ids.length === 0) return { type: "FeatureCollection", features: [] };
+
+  // セルの大きさ（度）。経度方向は到達範囲の中心付近の緯度で揃える
+  const centerLat =
+    ids.reduce((sum, id) => sum + stops[id].lat, 0) / ids.length;
+  const dLat = CELL_METERS / METERS_PER_LAT;
+  const dLng =
+    CELL_METERS / (METERS_PER_LAT * Math.cos((centerLat * Math.PI) / 180));
+
+  // セル（"行:列"）→ 所要時間 (秒)
+  const cells = new Map<string, number>();
+  ids.forEach((id) => {
+    const stop = stops[id];
+    const elapsed = reachable[id];
+    const radius = Math.min(
+      (budgetSec - elapsed) * WALK_SPEED,
+      MAX_FINAL_WALK_METERS,
+    );
+    const rowMin = Math.floor((stop.lat - radius / METERS_PER_LAT) / dLat);
+    const rowMax = Math.floor((stop.lat + radius / METERS_PER_LAT) / dLat);
+    const lngRadius = (radius / CELL_METERS) * dLng;
+    const colMin = Math.floor((stop.lng - lngRadius) / dLng);
+    const colMax = Math.floor((stop.lng + lngRadius) / dLng);
+
+    for (let row = rowMin; row <= rowMax; row++) {
+      for (let col = colMin; col <= colMax; col++) {
+        const meters = distanceMeters(
+          stop.lat,
+          stop.lng,
+          (row + 0.5) * dLat,
+          (col + 0.5) * dLng,
+        );
+        if (meters > radius) continue;
+        const time = elapsed + meters / WALK_SPEED;
+        const key = `${row}:${col}`;
+        if (time < (cells.get(key) ?? Infinity)) cells.set(key, time);
+      }
+    }
+  });
+
+  const features: FeatureCollection<Polygon>["features"] = [];
+  cells.forEach((time, key) => {
+    const [row, col] = key.split(":").map(Number);
+    const [south, west] = [row * dLat, col * dLng];
+    const [north, east] = [south + dLat, west + dLng];
+    const minutes = Math.ceil(time / 60);
+    features.push({
+      type: "Feature",
+      geometry: {
+        type: "Polygon",
+        coordinates: [
+          [
+            [west, south],
+            [east, south],
+            [east, north],
+            [west, north],
+            [west, south],
+          ],
+        ],
+      },
+      properties: { minutes, color: bandColor(minutes) },
+    });
+  });
+  return { type: "FeatureCollection", features };
+}
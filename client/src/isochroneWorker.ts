@@ -0,0 +1,38 @@
+import type { PlannerData } from "./journeyPlanner";
+import type { IsochroneQuery, IsochroneResult } from "./isochrone";
+import { buildIsochroneFeatures, computeReachableStops } from "./isochrone";
+
+// ============================================================
+// 到達圏の計算（Web Worker）
+// 便の多いデータでも地図の操作が止まらないよう、メインスレッドの外で計算する
+// ============================================================
+
+/** メインスレッドからの計算依頼 */
+export interface IsochroneRequest {
+  data: PlannerData;
+  query: IsochroneQuery;
+}
+
+/** 計算結果（失敗した場合は error） */
+export type IsochroneResponse = { result: IsochroneResult } | { error: string };
+
+self.addEventListener("message", (e: MessageEvent<IsochroneRequest>) => {
+  const { data, query } = e.data;
+  let response: IsochroneResponse;
+  try {
+    const reachable = computeReachableStops(data, query);
+    response = {
+      result: {
+        reachable,
+        features: buildIsochroneFeatures(
+          data.stops,
+          reachable,
+          query.budgetSec,
+        ),
+      },
+    };
+  } catch (err) {
+    response = { error: err instanceof Error ? err.message : String(err) };
+  }
+  self.postMessage(response);
+});
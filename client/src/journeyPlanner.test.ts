@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { PlannerData } from "./journeyPlanner";
+import { MAX_JOURNEY_SEC, planJourneys } from "./journeyPlanner";
+import { createMemoryDataSource } from "./dataSources";
+import { fixtureData } from "./fixtureData";
+import { jst } from "./testHelpers";
+
+const source = createMemoryDataSource(fixtureData, "fixture");
+
+/** 出発から MAX_JOURNEY_SEC の間に運行する便の時刻表を読み込んだ検索用データ */
+async function loadPlannerData(at: Date): Promise<PlannerData> {
+  const { stops, calendar, extra } = fixtureData;
+  const timetables = await source.fetchActiveTimetables(at, MAX_JOURNEY_SEC);
+  return { timetables, stops, calendar, extra };
+}
+
+// F1 系統: F_1 → F_3 → F_4、F2 系統: F_4 → F_5 → F_2
+const query = {
+  originIds: ["F_1"],
+  destinationIds: ["F_5"],
+  departureSec: 6 * 3600,
+  date: jst("2026-01-07T06:00"),
+};
+
+describe("経路検索", () => {
+  it("乗り継ぎを含む経路を返す", async () => {
+    const data = await loadPlannerData(query.date);
+    const [itinerary] = planJourneys(data, query);
+    expect(itinerary.transfers).toBe(1);
+    expect(itinerary.legs.map((l) => l.route_id)).toEqual(["F_R1", "F_R2"]);
+    expect(itinerary.departure).toBe("06:00:00");
+  });
+
+  it("乗り継ぎ回数の範囲外の経路は返さない", async () => {
+    const data = await loadPlannerData(query.date);
+    expect(planJourneys(data, { ...query, maxTransfers: 0 })).toEqual([]);
+  });
+});
+
+describe("深夜の経路検索", () => {
+  // 水曜の運行日の 24 時台（木曜 0 時台）に走る便
+  const data: PlannerData = {
+    ...fixtureData,
+    timetables: {
+      F_R1: {
+        F_R1_late: {
+          headsign: "西公園",
+          service_id: "F_WED",
+          office_id: "F",
+          via: "青葉通",
+          stops: [
+            { stop_id: "F_1", time: "24:10:00" },
+            { stop_id: "F_3", time: "24:20:00" },
+            { stop_id: "F_4", time: "24:30:00" },
+          ],
+        },
+      },
+    },
+    calendar: {
+      F_WED: {
+        days: ["0", "0", "1", "0", "0", "0", "0"],
+        start: "20000101",
+        end: "20991231",
+      },
+    },
+  };
+  const lateQuery = {
+    originIds: ["F_1"],
+    destinationIds: ["F_4"],
+    departureSec: 5 * 60,
+    date: jst("2026-01-08T00:05"),
+  };
+
+  it("前日の運行日の 24 時以降の便も当日の時刻で乗れる", () => {
+    const [itinerary] = planJourneys(data, lateQuery);
+    expect(itinerary.legs.map((l) => l.trip_id)).toEqual(["F_R1_late"]);
+    expect(itinerary.departure).toBe("00:10:00");
+    expect(itinerary.arrival).toBe("00:30:00");
+  });
+
+  it("前日に運行しない日は深夜便を含めない", () => {
+    expect(
+      planJourneys(data, { ...lateQuery, date: jst("2026-01-09T00:05") }),
+    ).toEqual([]);
+  });
+});
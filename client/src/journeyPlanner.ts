@@ -0,0 +1,372 @@
+import type {
+  AppData,
+  Itinerary,
+  JourneyLeg,
+  StopsData,
+  TripInfo,
+} from "./types";
+import {
+  DAY_SEC,
+  getActiveServiceDays,
+  getServiceCalendar,
+} from "./serviceCalendar";
+import { distanceMeters, shiftServiceTime, timeToSec } from "./utils";
+
+// ============================================================
+// 経路検索（乗り継ぎを含む）
+// RAPTOR 方式でラウンド（乗車回数）ごとに到着時刻を更新していく
+// ============================================================
+
+/** 乗り継ぎで歩ける最大距離 (m) */
+export const MAX_WALK_METERS = 300;
+/** 歩行速度 (m/秒)。分速 80m */
+export const WALK_SPEED = 80 / 60;
+/** 乗り継ぎに必要な最低余裕時間 (秒) */
+export const TRANSFER_MARGIN_SEC = 60;
+/** 最大乗り継ぎ回数の既定値 */
+export const DEFAULT_MAX_TRANSFERS = 2;
+/** 経路検索のために時刻表を取得する範囲（出発からの時間, 秒） */
+export const MAX_JOURNEY_SEC = 3 * 60 * 60;
+/** 徒歩圏探索用グリッドのセルサイズ（度） */
+const GRID_SIZE = 0.005;
+
+/** 経路検索の条件 */
+export interface JourneyQuery {
+  /** 出発バス停ID（同名のりばをまとめて指定） */
+  originIds: string[];
+  /** 到着バス停ID（同名のりばをまとめて指定） */
+  destinationIds: string[];
+  /** 出発時刻（0時からの秒数） */
+  departureSec: number;
+  /** 検索する日付（省略時は今日） */
+  date?: Date;
+  /** 最大乗り継ぎ回数（既定 DEFAULT_MAX_TRANSFERS） */
+  maxTransfers?: number;
+  /** 返す経路の最大件数（既定 5） */
+  maxResults?: number;
+}
+
+/** 検索日に運行する1便（前日の運行日の深夜便を含む） */
+export interface RunningTrip {
+  routeId: string;
+  tripId: string;
+  trip: TripInfo;
+  /** 検索日から見た運行日のずれ（前日の運行日の便なら -1） */
+  dayOffset: number;
+  /** 各停車地点の時刻（検索日 0 時からの秒数） */
+  secs: number[];
+}
+
+/** 乗車による到着ラベル */
+interface RideLabel {
+  time: number;
+  trip: RunningTrip;
+  boardStopId: string;
+  boardIdx: number;
+  alightIdx: number;
+}
+
+/** 徒歩による到着ラベル */
+interface WalkLabel {
+  time: number;
+  fromStopId: string;
+  meters: number;
+}
+
+/** 検索用に前処理したネットワーク */
+export interface Network {
+  stops: StopsData;
+  tripsByStop: Map<string, { trip: RunningTrip; idx: number }[]>;
+  grid: Map<string, string[]>;
+  walkCache: Map<string, { stopId: string; meters: number }[]>;
+}
+
+export type PlannerData = Pick<
+  AppData,
+  "timetables" | "stops" | "calendar" | "extra"
+>;
+
+function gridKey(lat: number, lng: number): string {
+  return `${Math.floor(lat / GRID_SIZE)}:${Math.floor(lng / GRID_SIZE)}`;
+}
+
+/**
+ * 検索日に運行する便から、バス停ごとの停車便と徒歩圏探索用のグリッドを作る
+ * 前日の運行日の便は、時刻を当日基準に揃えて 0 時以降も走るものを含める
+ */
+export function buildNetwork(data: PlannerData, date: Date): Network {
+  const calendar = getServiceCalendar(data.calendar, data.extra);
+  const days = getActiveServiceDays(date);
+  const tripsByStop: Network["tripsByStop"] = new Map();
+
+  Object.keys(data.timetables).forEach((routeId) => {
+    Object.keys(data.timetables[routeId]).forEach((tripId) => {
+      const trip = data.timetables[routeId][tripId];
+      days.forEach(({ date: serviceDate, dayOffset }) => {
+        const secs = trip.stops.map(
+          (s) => timeToSec(s.time) + dayOffset * DAY_SEC,
+        );
+        if (secs.length === 0 || secs[secs.length - 1] < 0) return;
+        if (!calendar.isRunning(trip.service_id, serviceDate)) return;
+        const running: RunningTrip = {
+          routeId,
+          tripId,
+          trip,
+          dayOffset,
+          secs,
+        };
+        trip.stops.forEach((st, idx) => {
+          if (!tripsByStop.has(st.stop_id)) tripsByStop.set(st.stop_id, []);
+          tripsByStop.get(st.stop_id)!.push({ trip: running, idx });
+        });
+      });
+    });
+  });
+
+  // 徒歩乗り継ぎ候補を探すためのグリッド（便が停車するバス停のみ）
+  const grid: Network["grid"] = new Map();
+  tripsByStop.forEach((_, stopId) => {
+    const s = data.stops[stopId];
+    if (!s) return;
+    const key = gridKey(s.lat, s.lng);
+    if (!grid.has(key)) grid.set(key, []);
+    grid.get(key)!.push(stopId);
+  });
+
+  return { stops: data.stops, tripsByStop, grid, walkCache: new Map() };
+}
+
+/** 指定バス停から徒歩圏内にある他のバス停を返す */
+export function walkNeighbors(
+  network: Network,
+  stopId: string,
+): { stopId: string; meters: number }[] {
+  const cached = network.walkCache.get(stopId);
+  if (cached) return cached;
+
+  const result: { stopId: string; meters: number }[] = [];
+  const s = network.stops[stopId];
+  if (s) {
+    const row = Math.floor(s.lat / GRID_SIZE);
+    const col = Math.floor(s.lng / GRID_SIZE);
+    for (let dr = -1; dr <= 1; dr++) {
+      for (let dc = -1; dc <= 1; dc++) {
+        (network.grid.get(`${row + dr}:${col + dc}`) || []).forEach((id) => {
+          if (id === stopId) return;
+          const o = network.stops[id];
+          const meters = distanceMeters(s.lat, s.lng, o.lat, o.lng);
+          if (meters <= MAX_WALK_METERS) {
+            result.push({ stopId: id, meters: Math.round(meters) });
+          }
+        });
+      }
+    }
+  }
+  network.walkCache.set(stopId, result);
+  return result;
+}
+
+/** 1つの出発時刻について、乗り継ぎ回数ごとの最速経路を求める */
+function searchOnce(
+  network: Network,
+  query: JourneyQuery,
+  departureSec: number,
+  maxTransfers: number,
+): Itinerary[] {
+  const rideLabels: Map<string, RideLabel>[] = [new Map()];
+  const walkLabels: Map<string, WalkLabel>[] = [new Map()];
+  const bestArrival = new Map<string, number>();
+  query.originIds.forEach((id) => bestArrival.set(id, departureSec));
+
+  const arrivalAt = (round: number, stopId: string): number => {
+    if (round === 0) return departureSec;
+    return Math.min(
+      rideLabels[round].get(stopId)?.time ?? Infinity,
+      walkLabels[round].get(stopId)?.time ?? Infinity,
+    );
+  };
+
+  const results: Itinerary[] = [];
+  let bestDestArrival = Infinity;
+  let marked = new Set(query.originIds);
+
+  for (let round = 1; round <= maxTransfers + 1; round++) {
+    // 乗車可能な便ごとに、最も手前で乗れるバス停を求める
+    const boardings = new Map<RunningTrip, { idx: number; stopId: string }>();
+    marked.forEach((stopId) => {
+      const ready =
+        arrivalAt(round - 1, stopId) + (round > 1 ? TRANSFER_MARGIN_SEC : 0);
+      (network.tripsByStop.get(stopId) || []).forEach(({ trip, idx }) => {
+        if (idx >= trip.secs.length - 1 || trip.secs[idx] < ready) return;
+        const prev = boardings.get(trip);
+        if (!prev || idx < prev.idx) boardings.set(trip, { idx, stopId });
+      });
+    });
+
+    // 乗車して到達できるバス停を更新
+    const rides = new Map<string, RideLabel>();
+    boardings.forEach(({ idx, stopId }, trip) => {
+      for (let j = idx + 1; j < trip.secs.length; j++) {
+        const time = trip.secs[j];
+        if (time >= bestDestArrival) break;
+        const target = trip.trip.stops[j].stop_id;
+        if (time < (bestArrival.get(target) ?? Infinity)) {
+          bestArrival.set(target, time);
+          rides.set(target, {
+            time,
+            trip,
+            boardStopId: stopId,
+            boardIdx: idx,
+            alightIdx: j,
+          });
+        }
+      }
+    });
+
+    // 降車したバス停から徒歩で乗り継げるバス停を更新
+    const walks = new Map<string, WalkLabel>();
+    rides.forEach((ride, stopId) => {
+      walkNeighbors(network, stopId).forEach(({ stopId: target, meters }) => {
+        const time = ride.time + Math.ceil(meters / WALK_SPEED);
+        if (time < (bestArrival.get(target) ?? Infinity)) {
+          bestArrival.set(target, time);
+          walks.set(target, { time, fromStopId: stopId, meters });
+        }
+      });
+    });
+
+    rideLabels.push(rides);
+    walkLabels.push(walks);
+
+    // 目的地に乗車で到着した最速の経路を記録
+    let bestDestId: string | null = null;
+    query.destinationIds.forEach((id) => {
+      const ride = rides.get(id);
+      if (ride && ride.time < bestDestArrival) {
+        bestDestArrival = ride.time;
+        bestDestId = id;
+      }
+    });
+    if (bestDestId) {
+      results.push(
+        reconstruct(network, rideLabels, walkLabels, round, bestDestId),
+      );
+    }
+
+    marked = new Set([...rides.keys(), ...walks.keys()]);
+    if (marked.size === 0) break;
+  }
+
+  return results;
+}
+
+/** ラベルを辿って経路を復元する */
+function reconstruct(
+  network: Network,
+  rideLabels: Map<string, RideLabel>[],
+  walkLabels: Map<string, WalkLabel>[],
+  lastRound: number,
+  destId: string,
+): Itinerary {
+  const legs: JourneyLeg[] = [];
+  let stopId = destId;
+
+  for (let round = lastRound; round >= 1; round--) {
+    const ride = rideLabels[round].get(stopId)!;
+    const { trip, dayOffset } = ride.trip;
+    const leg: JourneyLeg = {
+      route_id: ride.trip.routeId,
+      trip_id: ride.trip.tripId,
+      headsign: trip.headsign,
+      via: trip.via,
+      from_stop_id: ride.boardStopId,
+      to_stop_id: stopId,
+      departure: shiftServiceTime(trip.stops[ride.boardIdx].time, dayOffset),
+      arrival: shiftServiceTime(trip.stops[ride.alightIdx].time, dayOffset),
+      walk_meters: 0,
+    };
+    legs.unshift(leg);
+
+    if (round === 1) break;
+    // 乗車バス停に徒歩で来ていれば徒歩区間を反映
+    const prevRide = rideLabels[round - 1].get(ride.boardStopId);
+    const prevWalk = walkLabels[round - 1].get(ride.boardStopId);
+    if (prevWalk && (!prevRide || prevWalk.time < prevRide.time)) {
+      leg.walk_meters = prevWalk.meters;
+      stopId = prevWalk.fromStopId;
+    } else {
+      stopId = ride.boardStopId;
+    }
+  }
+
+  const stops: StopsData = {};
+  legs.forEach((leg) => {
+    [leg.from_stop_id, leg.to_stop_id].forEach((id) => {
+      if (network.stops[id]) stops[id] = network.stops[id];
+    });
+  });
+
+  return {
+    legs,
+    departure: legs[0].departure,
+    arrival: legs[legs.length - 1].arrival,
+    transfers: legs.length - 1,
+    stops,
+  };
+}
+
+/** a が b より良い（遅く出て、早く着き、乗り継ぎが少ない）か */
+function dominates(a: Itinerary, b: Itinerary): boolean {
+  const dep = timeToSec(a.departure) - timeToSec(b.departure);
+  const arr = timeToSec(b.arrival) - timeToSec(a.arrival);
+  const tr = b.transfers - a.transfers;
+  return dep >= 0 && arr >= 0 && tr >= 0 && dep + arr + tr > 0;
+}
+
+/**
+ * 出発バス停から到着バス停までの経路を検索する
+ * 出発時刻をずらしながら繰り返し検索し、到着の早い順に並べて返す
+ */
+export function planJourneys(
+  data: PlannerData,
+  query: JourneyQuery,
+): Itinerary[] {
+  const maxTransfers = query.maxTransfers ?? DEFAULT_MAX_TRANSFERS;
+  const maxResults = query.maxResults ?? 5;
+  const network = buildNetwork(data, query.date ?? new Date());
+
+  const found: Itinerary[] = [];
+  const seen = new Set<string>();
+  let departureSec = query.departureSec;
+
+  for (let i = 0; i < maxResults + 2; i++) {
+    const itineraries = searchOnce(network, query, departureSec, maxTransfers);
+    if (itineraries.length === 0) break;
+
+    itineraries.forEach((it) => {
+      const key = it.legs
+        .map((l) => `${l.trip_id}@${l.from_stop_id}>${l.to_stop_id}`)
+        .join(",");
+      if (seen.has(key)) return;
+      seen.add(key);
+      found.push(it);
+    });
+
+    // 次は今回の最も早い出発の1秒後から検索
+    departureSec =
+      Math.min(...itineraries.map((it) => timeToSec(it.departure))) + 1;
+  }
+
+  // 他の経路に完全に劣る経路は除外
+  const ranked = found.filter(
+    (it) => !found.some((other) => dominates(other, it)),
+  );
+
+  ranked.sort(
+    (a, b) =>
+      timeToSec(a.arrival) - timeToSec(b.arrival) ||
+      a.transfers - b.transfers ||
+      timeToSec(b.departure) - timeToSec(a.departure),
+  );
+  return ranked.slice(0, maxResults);
+}
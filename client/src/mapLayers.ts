@@ -0,0 +1,358 @@
+import type maplibregl from "maplibre-gl";
+import type { FeatureCollection, Point, Polygon } from "geojson";
+import type { BusPosition, StopsData } from "./types";
+import type { UserLocation } from "./geolocation";
+import { formatHeadsign } from "./utils";
+import { t, translateName } from "./i18n";
+import { formatDelay } from "./realtime";
+
+// ============================================================
+// バス停・バスの WebGL レイヤー
+// DOM マーカーの代わりに GeoJSON ソース + circle/symbol レイヤーで描画する
+// ============================================================
+
+export const STOP_SOURCE_ID = "stops";
+export const BUS_SOURCE_ID = "buses";
+export const STOP_CIRCLE_LAYER_ID = "stops-circle";
+export const BUS_ICON_LAYER_ID = "buses-icon";
+export const USER_LOCATION_SOURCE_ID = "user-location";
+export const ISOCHRONE_SOURCE_ID = "isochrone";
+
+/** クリック判定の対象レイヤー（手前にあるものから順に判定） */
+export const CLICKABLE_LAYER_IDS = [BUS_ICON_LAYER_ID, STOP_CIRCLE_LAYER_ID];
+
+/** バスを縮小表示（ラベルなし）にするズームの境界 */
+const COMPACT_ZOOM = 15;
+/** 現在地の精度円の頂点数 */
+const ACCURACY_CIRCLE_STEPS = 64;
+/** アイコン画像の解像度倍率 */
+const PIXEL_RATIO = 2;
+
+const EMPTY_COLLECTION: FeatureCollection<Point> = {
+  type: "FeatureCollection",
+  features: [],
+};
+
+/** lucide の BusFront と同じ形のアイコン画像を生成 */
+function createBusImage(): ImageData {
+  const size = 34 * PIXEL_RATIO;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d")!;
+  ctx.scale(size / 24, size / 24);
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+
+  const paths = [
+    "M4 6 2 7",
+    "M10 6h4",
+    "m22 7-2-1",
+    "M6 3h12a2 2 0 0 1 2 2v12a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2z",
+    "M4 11h16",
+    "M8 15h.01",
+    "M16 15h.01",
+    "M6 19v2",
+    "M18 21v-2",
+  ].map((d) => new Path2D(d));
+
+  // 白い縁取り → 本体の順に描く
+  ctx.strokeStyle = "#ffffff";
+  ctx.lineWidth = 5;
+  paths.forEach((p) => ctx.stroke(p));
+  ctx.strokeStyle = "#00703c";
+  ctx.lineWidth = 2;
+  paths.forEach((p) => ctx.stroke(p));
+
+  return ctx.getImageData(0, 0, size, size);
+}
+
+/** 進行方向を示す矢印画像（上向き）を生成 */
+function createHeadingImage(): ImageData {
+  const size = 52 * PIXEL_RATIO;
+  const canvas = document.createElement("canvas");
+  canvas.width = size;
+  canvas.height = size;
+  const ctx = canvas.getContext("2d")!;
+  ctx.scale(PIXEL_RATIO, PIXEL_RATIO);
+  ctx.beginPath();
+  ctx.moveTo(26, 0);
+  ctx.lineTo(32, 8);
+  ctx.lineTo(20, 8);
+  ctx.closePath();
+  ctx.fillStyle = "#00703c";
+  ctx.strokeStyle = "#ffffff";
+  ctx.lineWidth = 1;
+  ctx.fill();
+  ctx.stroke();
+  return ctx.getImageData(0, 0, size, size);
+}
+
+/**
+ * バス停・バスのソースとレイヤーを追加する（地図の load 後に1度だけ呼ぶ）
+ */
+export function addStopAndBusLayers(map: maplibregl.Map): void {
+  map.addImage("bus", createBusImage(), { pixelRatio: PIXEL_RATIO });
+  map.addImage("bus-heading", createHeadingImage(), {
+    pixelRatio: PIXEL_RATIO,
+  });
+
+  map.addSource(STOP_SOURCE_ID, { type: "geojson", data: EMPTY_COLLECTION });
+  map.addSource(BUS_SOURCE_ID, { type: "geojson", data: EMPTY_COLLECTION });
+
+  // --- バス停 ---
+  map.addLayer({
+    id: STOP_CIRCLE_LAYER_ID,
+    type: "circle",
+    source: STOP_SOURCE_ID,
+    paint: {
+      "circle-radius": 4,
+      "circle-color": "#ffffff",
+      "circle-stroke-width": 4,
+      "circle-stroke-color": "#00703c",
+    },
+  });
+  map.addLayer({
+    id: "stops-label",
+    type: "symbol",
+    source: STOP_SOURCE_ID,
+    filter: ["has", "label"],
+    layout: {
+      "text-field": ["get", "label"],
+      "text-font": ["Open Sans Semibold"],
+      "text-size": 13,
+      "text-anchor": "right",
+      "text-offset": [-1, 0],
+      "text-allow-overlap": true,
+      "text-ignore-placement": true,
+    },
+    paint: {
+      "text-color": "#444444",
+      "text-halo-color": "#ffffff",
+      "text-halo-width": 2,
+    },
+  });
+
+  // --- バス ---
+  map.addLayer({
+    id: "buses-heading",
+    type: "symbol",
+    source: BUS_SOURCE_ID,
+    filter: ["has", "bearing"],
+    layout: {
+      "icon-image": "bus-heading",
+      "icon-rotate": ["get", "bearing"],
+      "icon-rotation-alignment": "map",
+      "icon-size": ["step", ["zoom"], 34 / 52, COMPACT_ZOOM, 1],
+      "icon-allow-overlap": true,
+      "icon-ignore-placement": true,
+    },
+  });
+  map.addLayer({
+    id: BUS_ICON_LAYER_ID,
+    type: "symbol",
+    source: BUS_SOURCE_ID,
+    layout: {
+      "icon-image": "bus",
+      // 縮小表示時は 22px 相当
+      "icon-size": ["step", ["zoom"], 22 / 34, COMPACT_ZOOM, 1],
+      "icon-allow-overlap": true,
+      "icon-ignore-placement": true,
+    },
+  });
+  map.addLayer({
+    id: "buses-label",
+    type: "symbol",
+    source: BUS_SOURCE_ID,
+    minzoom: COMPACT_ZOOM,
+    layout: {
+      "text-field": ["get", "label"],
+      "text-font": ["Open Sans Semibold"],
+      "text-size": 11,
+      "text-offset": [0, -2.8],
+      "text-allow-overlap": true,
+      "text-ignore-placement": true,
+    },
+    paint: {
+      "text-color": "#ffffff",
+      // リアルタイム情報（車両位置）で表示しているバスは青
+      "text-halo-color": ["case", ["has", "realtime"], "#1565c0", "#d32f2f"],
+      "text-halo-width": 3,
+    },
+  });
+}
+
+/**
+ * 表示するバス停の GeoJSON を組み立てる
+ * - ズーム 16.5 未満では同名バス停を1つにまとめる
+ * - ズーム 16.5 以上ではラベルにのりば番号を付ける
+ * - ズーム 13.5 未満では選択中の便の停車バス停のみ表示する
+ */
+export function buildStopFeatures(
+  stops: StopsData,
+  zoom: number,
+  bounds: maplibregl.LngLatBounds,
+  activeTripStops: string[] | null,
+): FeatureCollection<Point> {
+  const seen = new Set<string>();
+  const features: FeatureCollection<Point>["features"] = [];
+
+  Object.keys(stops).forEach((id) => {
+    const stop = stops[id];
+    const isSelectedRouteStop = !!activeTripStops?.includes(id);
+
+    if (activeTripStops && !isSelectedRouteStop) return;
+    if (!bounds.contains([stop.lng, stop.lat]) && !isSelectedRouteStop) return;
+    if (zoom < 13.5 && !isSelectedRouteStop) return;
+
+    if (zoom < 16.5) {
+      if (seen.has(stop.name)) return;
+      seen.add(stop.name);
+    }
+
+    const properties: Record<string, string> = { id };
+    if (zoom >= 13.5 || isSelectedRouteStop) {
+      properties.label =
+        translateName(stop.name) +
+        (zoom >= 16.5 && stop.platform
+          ? ` (${t("platformShort", { platform: stop.platform })})`
+          : "");
+    }
+
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [stop.lng, stop.lat] },
+      properties,
+    });
+  });
+
+  return { type: "FeatureCollection", features };
+}
+
+/** 地図上に表示中の1台分の状態 */
+export interface BusFeatureState {
+  bus: BusPosition;
+  position: [number, number];
+  bearing: number | null;
+}
+
+/**
+ * 表示するバスの GeoJSON を組み立てる
+ * リアルタイム情報で遅れが分かるバスはラベルに遅れ（+3分 など）を付ける
+ */
+export function buildBusFeatures(
+  states: Record<string, BusFeatureState>,
+): FeatureCollection<Point> {
+  return {
+    type: "FeatureCollection",
+    features: Object.keys(states).map((tripId) => {
+      const { bus, position, bearing } = states[tripId];
+      const properties: Record<string, string | number> = {
+        trip_id: tripId,
+        route_id: bus.route_id,
+        label:
+          `[${bus.route_name}] ${formatHeadsign(bus.headsign)}` +
+          (typeof bus.delay === "number" ? ` ${formatDelay(bus.delay)}` : ""),
+      };
+      if (bearing !== null) properties.bearing = bearing;
+      if (bus.realtime) properties.realtime = 1;
+      return {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: position },
+        properties,
+      };
+    }),
+  };
+}
+
+/**
+ * 到達圏（所要時間で色分けしたメッシュ）のソースとレイヤーを追加する（地図の load 後に1度だけ呼ぶ）
+ * バス停・経路より下に描く。色はメッシュの properties.color を使う
+ */
+export function addIsochroneLayers(map: maplibregl.Map): void {
+  map.addSource(ISOCHRONE_SOURCE_ID, {
+    type: "geojson",
+    data: EMPTY_COLLECTION,
+  });
+  map.addLayer(
+    {
+      id: "isochrone-fill",
+      type: "fill",
+      source: ISOCHRONE_SOURCE_ID,
+      paint: {
+        "fill-color": ["get", "color"],
+        "fill-opacity": 0.45,
+        // 隣り合うセルの境目に線が出ないようにする
+        "fill-antialias": false,
+      },
+    },
+    STOP_CIRCLE_LAYER_ID,
+  );
+}
+
+/**
+ * 現在地（精度円と位置）のソースとレイヤーを追加する（地図の load 後に1度だけ呼ぶ）
+ * 精度円はバス停の下、位置はバス停の上に描く
+ */
+export function addUserLocationLayers(map: maplibregl.Map): void {
+  map.addSource(USER_LOCATION_SOURCE_ID, {
+    type: "geojson",
+    data: EMPTY_COLLECTION,
+  });
+  map.addLayer(
+    {
+      id: "user-location-accuracy",
+      type: "fill",
+      source: USER_LOCATION_SOURCE_ID,
+      filter: ["==", ["geometry-type"], "Polygon"],
+      paint: {
+        "fill-color": "#1a73e8",
+        "fill-opacity": 0.12,
+        "fill-outline-color": "#1a73e8",
+      },
+    },
+    STOP_CIRCLE_LAYER_ID,
+  );
+  map.addLayer({
+    id: "user-location-point",
+    type: "circle",
+    source: USER_LOCATION_SOURCE_ID,
+    filter: ["==", ["geometry-type"], "Point"],
+    paint: {
+      "circle-radius": 7,
+      "circle-color": "#1a73e8",
+      "circle-stroke-width": 3,
+      "circle-stroke-color": "#ffffff",
+    },
+  });
+}
+
+/** 現在地の GeoJSON を組み立てる（位置と、精度を半径とする円） */
+export function buildUserLocationFeatures(
+  location: UserLocation | null,
+): FeatureCollection<Point | Polygon> {
+  if (!location) return EMPTY_COLLECTION;
+  const { lat, lng, accuracy } = location;
+  const dLat = accuracy / 111320;
+  const dLng = accuracy / (111320 * Math.cos((lat * Math.PI) / 180));
+  const ring: [number, number][] = [];
+  for (let i = 0; i <= ACCURACY_CIRCLE_STEPS; i++) {
+    const angle = (i / ACCURACY_CIRCLE_STEPS) * 2 * Math.PI;
+    ring.push([lng + dLng * Math.cos(angle), lat + dLat * Math.sin(angle)]);
+  }
+  return {
+    type: "FeatureCollection",
+    features: [
+      {
+        type: "Feature",
+        geometry: { type: "Polygon", coordinates: [ring] },
+        properties: {},
+      },
+      {
+        type: "Feature",
+        geometry: { type: "Point", coordinates: [lng, lat] },
+        properties: {},
+      },
+    ],
+  };
+}
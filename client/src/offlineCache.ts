@@ -0,0 +1,242 @@
+import type {
+  AppData,
+  EssentialData,
+  RouteDetailResponse,
+  StopsData,
+  StopTimetableResponse,
+  TripDetailResponse,
+} from "./types";
+
+// ============================================================
+// オフライン用キャッシュ (IndexedDB)
+// 取得したデータを保存し、通信できないときはここから表示する
+// - responses: 必須データ・時刻表・便詳細・路線詳細・静的 JSON（キー → 値）
+// - stops    : 地図の移動などで取得したバス停（バス停ID → StopInfo）
+// ============================================================
+
+const DB_NAME = "sendai-bus-map";
+const DB_VERSION = 1;
+const RESPONSE_STORE = "responses";
+const STOP_STORE = "stops";
+
+/** 保存した値と保存日時 */
+export interface CachedEntry<T> {
+  value: T;
+  savedAt: number;
+}
+
+/** キャッシュのキー */
+export const cacheKeys = {
+  essential: "essential",
+  allStops: "all-stops",
+  staticFile: (file: string) => `data/${file}`,
+  stopTimetable: (stopId: string) => `timetable/${stopId}`,
+  tripDetails: (routeId: string, tripId: string) => `trip/${routeId}/${tripId}`,
+  routeDetails: (routeId: string) => `route/${routeId}`,
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB を利用できません"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(RESPONSE_STORE);
+        req.result.createObjectStore(STOP_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    }).catch((e) => {
+      // 失敗した場合は次回開き直す
+      dbPromise = null;
+      throw e;
+    });
+  }
+  return dbPromise;
+}
+
+/** IDBRequest の完了を Promise で待つ */
+function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** トランザクションの完了を Promise で待つ */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// 保存のたびに増やし、オフライン用データの作り直しを判断する
+let cacheRevision = 0;
+
+/** 保存した値を取得（なければ null） */
+export async function getCached<T>(
+  key: string,
+): Promise<CachedEntry<T> | null> {
+  const db = await openDb();
+  const store = db.transaction(RESPONSE_STORE).objectStore(RESPONSE_STORE);
+  const entry = await requestToPromise<CachedEntry<T> | undefined>(
+    store.get(key),
+  );
+  return entry ?? null;
+}
+
+/** 値を保存する */
+export async function putCached<T>(key: string, value: T): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(RESPONSE_STORE, "readwrite");
+  const entry: CachedEntry<T> = { value, savedAt: Date.now() };
+  tx.objectStore(RESPONSE_STORE).put(entry, key);
+  await transactionDone(tx);
+  cacheRevision++;
+}
+
+/** バス停をまとめて保存する */
+export async function putCachedStops(stops: StopsData): Promise<void> {
+  const ids = Object.keys(stops);
+  if (ids.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STOP_STORE, "readwrite");
+  const store = tx.objectStore(STOP_STORE);
+  ids.forEach((id) => store.put(stops[id], id));
+  await transactionDone(tx);
+  cacheRevision++;
+}
+
+/** 保存したすべての値を取得 */
+async function getAllCached(): Promise<Map<string, CachedEntry<unknown>>> {
+  const db = await openDb();
+  const store = db.transaction(RESPONSE_STORE).objectStore(RESPONSE_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise<CachedEntry<unknown>[]>(store.getAll()),
+  ]);
+  return new Map(keys.map((k, i) => [String(k), values[i]]));
+}
+
+/** 保存したすべてのバス停を取得 */
+async function getAllCachedStops(): Promise<StopsData> {
+  const db = await openDb();
+  const store = db.transaction(STOP_STORE).objectStore(STOP_STORE);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll()),
+  ]);
+  return Object.fromEntries(keys.map((k, i) => [String(k), values[i]]));
+}
+
+// ==================== オフライン用データ ====================
+
+let snapshot: { revision: number; promise: Promise<AppData | null> } | null =
+  null;
+
+/**
+ * 保存したデータを1つの AppData にまとめる
+ * 時刻表・便詳細・路線詳細の便と経路形状、取得済みのバス停を合わせたもの
+ */
+async function buildSnapshot(): Promise<AppData | null> {
+  const entries = await getAllCached();
+  const essential = entries.get(cacheKeys.essential)?.value as
+    EssentialData | undefined;
+  if (!essential) return null;
+
+  const data: AppData = {
+    ...essential,
+    stops: {
+      ...((entries.get(cacheKeys.allStops)?.value as StopsData) || {}),
+      ...(await getAllCachedStops()),
+    },
+    shapes: {},
+    timetables: {},
+  };
+
+  const mergeTimetables = (timetables: AppData["timetables"]) => {
+    Object.keys(timetables).forEach((rid) => {
+      data.timetables[rid] = { ...data.timetables[rid], ...timetables[rid] };
+    });
+  };
+
+  entries.forEach((entry, key) => {
+    if (key.startsWith("timetable/")) {
+      mergeTimetables((entry.value as StopTimetableResponse).timetables);
+    } else if (key.startsWith("trip/")) {
+      const detail = entry.value as TripDetailResponse;
+      mergeTimetables({ [detail.route_id]: { [detail.trip_id]: detail.trip } });
+      Object.assign(data.stops, detail.stops);
+      if (detail.shape) {
+        const patternKey = detail.trip.stops.map((s) => s.stop_id).join("|");
+        data.shapes[patternKey] = detail.shape;
+      }
+    } else if (key.startsWith("route/")) {
+      const detail = entry.value as RouteDetailResponse;
+      mergeTimetables({ [detail.route_id]: detail.trips });
+      Object.assign(data.stops, detail.stops);
+      Object.assign(data.shapes, detail.shapes);
+    }
+  });
+
+  return data;
+}
+
+/**
+ * オフライン表示用に、保存したデータをまとめた AppData を返す
+ * 必須データが保存されていなければ null
+ */
+export function getOfflineSnapshot(): Promise<AppData | null> {
+  if (!snapshot || snapshot.revision !== cacheRevision) {
+    snapshot = {
+      revision: cacheRevision,
+      promise: buildSnapshot().catch((e) => {
+        console.error("オフライン用データの読み込みに失敗しました:", e);
+        return null;
+      }),
+    };
+  }
+  return snapshot.promise;
+}
+
+// ==================== キャッシュ利用状態 ====================
+
+/** 保存したデータで表示しているか */
+export interface OfflineStatus {
+  usingCache: boolean;
+  /** 表示中のデータを保存した日時（不明なら null） */
+  savedAt: number | null;
+}
+
+let status: OfflineStatus = { usingCache: false, savedAt: null };
+const listeners = new Set<() => void>();
+
+/** 現在のキャッシュ利用状態（useSyncExternalStore 用） */
+export function getOfflineStatus(): OfflineStatus {
+  return status;
+}
+
+/** キャッシュ利用状態の変化を購読する */
+export function subscribeOfflineStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** キャッシュ利用状態を更新する（変化がなければ通知しない） */
+export function setOfflineStatus(next: OfflineStatus): void {
+  if (
+    next.usingCache === status.usingCache &&
+    next.savedAt === status.savedAt
+  ) {
+    return;
+  }
+  status = next;
+  listeners.forEach((l) => l());
+}
@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { RealtimeState } from "./realtime";
+import type { RealtimeStopDelay, RealtimeTripUpdate } from "./gtfsRealtime";
+import type { BusPosition } from "./types";
+import {
+  getRealtimeState,
+  getTripDelay,
+  mergeRealtimePositions,
+  parseRealtimeFeedSource,
+  refreshRealtime,
+} from "./realtime";
+import { pbFloat, pbMessage, pbString } from "./testHelpers";
+
+/** 時刻表に基づくバス位置 */
+const scheduledBus = (tripId: string, routeId: string): BusPosition => ({
+  trip_id: tripId,
+  route_id: routeId,
+  route_name: "F1",
+  headsign: "仙台駅前",
+  position: [140.88, 38.26],
+  color: "ff0000",
+});
+
+/** 車両位置の FeedEntity */
+const vehicleEntity = (tripId: string, routeId: string, lat: number) =>
+  pbMessage(
+    2,
+    pbString(1, tripId),
+    pbMessage(
+      4,
+      pbMessage(1, pbString(1, tripId), pbString(5, routeId)),
+      pbMessage(2, pbFloat(1, lat), pbFloat(2, 140.87)),
+    ),
+  );
+
+describe("フィードの指定", () => {
+  it("<feedId>=<URL> の形式なら事業者を読み取る", () => {
+    expect(
+      parseRealtimeFeedSource("sendai=https://example.com/vp.pb?key=a"),
+    ).toEqual({ url: "https://example.com/vp.pb?key=a", feedId: "sendai" });
+  });
+
+  it("URL のみなら事業者を指定しない", () => {
+    expect(parseRealtimeFeedSource("https://example.com/vp.pb?key=a")).toEqual({
+      url: "https://example.com/vp.pb?key=a",
+      feedId: null,
+    });
+    expect(parseRealtimeFeedSource("/rt/vp.pb")).toEqual({
+      url: "/rt/vp.pb",
+      feedId: null,
+    });
+  });
+});
+
+describe("フィードの取得", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("事業者を指定したフィードの ID を静的データの ID にそろえる", async () => {
+    const bytes = new Uint8Array([
+      ...vehicleEntity("T1", "R1", 38.25),
+      ...vehicleEntity("T9", "R1", 38.26),
+    ]);
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response(bytes)),
+    );
+    await refreshRealtime([{ url: "/rt/vp.pb", feedId: "sendai" }]);
+
+    const realtime = getRealtimeState();
+    expect(Object.keys(realtime.vehicles).sort()).toEqual([
+      "sendai:T1",
+      "sendai:T9",
+    ]);
+
+    const routes = {
+      "sendai:R1": { short_name: "R1", color: "00ff00" },
+    };
+    const merged = mergeRealtimePositions(
+      [scheduledBus("sendai:T1", "sendai:R1")],
+      realtime,
+      routes,
+    );
+    expect(merged[0].realtime).toBe(true);
+    expect(merged[0].position[1]).toBeCloseTo(38.25, 5);
+    // 時刻表にない車両は路線名を行先の代わりに表示する
+    expect(merged[1]).toMatchObject({
+      trip_id: "sendai:T9",
+      route_id: "sendai:R1",
+      headsign: "R1",
+      realtime: true,
+    });
+  });
+});
+
+describe("便の遅れ", () => {
+  const nowSec = Math.floor(Date.now() / 1000);
+  const stopDelays: RealtimeStopDelay[] = [
+    { stopId: "F_1", stopSequence: 1, delay: 60, time: nowSec - 600 },
+    { stopId: "F_3", stopSequence: 3, delay: 180, time: nowSec + 60 },
+    { stopId: "F_4", stopSequence: 5, delay: 300, time: nowSec + 600 },
+  ];
+  const update: RealtimeTripUpdate = {
+    tripId: "F_R1_0",
+    routeId: "F_R1",
+    delay: null,
+    stopDelays,
+    timestamp: null,
+  };
+  const stateWith = (
+    vehicleStop: { stopSequence: number | null; stopId: string } | null,
+  ): RealtimeState => ({
+    vehicles: vehicleStop
+      ? {
+          F_R1_0: {
+            tripId: "F_R1_0",
+            routeId: "F_R1",
+            lat: 38.26,
+            lng: 140.88,
+            bearing: null,
+            timestamp: null,
+            ...vehicleStop,
+          },
+        }
+      : {},
+    tripUpdates: { F_R1_0: update },
+    fetchedAt: Date.now(),
+  });
+
+  it("バス停を指定した場合はそのバス停の遅れ", () => {
+    expect(getTripDelay(stateWith(null), "F_R1_0", "F_4")).toBe(300);
+  });
+
+  it("車両の停車地点から次の停車地点の遅れを求める", () => {
+    // stop_sequence 6 へ向かう車両には、直前の更新 (5) の遅れが引き継がれる
+    const realtime = stateWith({ stopSequence: 6, stopId: "" });
+    expect(getTripDelay(realtime, "F_R1_0")).toBe(300);
+  });
+
+  it("停車地点が分からなければ予定時刻が現在より後の停車地点の遅れ", () => {
+    expect(getTripDelay(stateWith(null), "F_R1_0")).toBe(180);
+  });
+
+  it("通過済みの停車地点の遅れは使わない", () => {
+    const passed: RealtimeState = {
+      ...stateWith(null),
+      tripUpdates: {
+        F_R1_0: { ...update, stopDelays: stopDelays.slice(0, 1) },
+      },
+    };
+    expect(getTripDelay(passed, "F_R1_0")).toBeNull();
+    expect(
+      getTripDelay(
+        {
+          ...passed,
+          tripUpdates: { F_R1_0: { ...passed.tripUpdates.F_R1_0, delay: 120 } },
+        },
+        "F_R1_0",
+      ),
+    ).toBe(120);
+  });
+
+  it("リアルタイム情報のない便は null", () => {
+    expect(getTripDelay(stateWith(null), "F_R2_0")).toBeNull();
+  });
+});
@@ -0,0 +1,263 @@
+import type { BusPosition, RoutesData } from "./types";
+import type {
+  RealtimeFeed,
+  RealtimeStopDelay,
+  RealtimeTripUpdate,
+  RealtimeVehicle,
+} from "./gtfsRealtime";
+import { decodeFeedMessage } from "./gtfsRealtime";
+import { t } from "./i18n";
+
+// ============================================================
+// リアルタイム情報（GTFS-Realtime）
+// 設定したフィード（VehiclePositions / TripUpdates）を取得して保持し、時刻表に基づくバス位置と合わせる
+// リアルタイム情報のない便は、時刻表から計算した位置のまま表示する
+// ============================================================
+
+/** フィードを取得し直す最短の間隔 (ms) */
+const REFRESH_INTERVAL = 10000;
+/** これより古い車両位置は使わない (秒) */
+const MAX_VEHICLE_AGE_SEC = 5 * 60;
+
+/** 取得済みのリアルタイム情報 */
+export interface RealtimeState {
+  /** trip_id → 車両位置 */
+  vehicles: Record<string, RealtimeVehicle>;
+  /** trip_id → 遅れ */
+  tripUpdates: Record<string, RealtimeTripUpdate>;
+  /** 最後に取得できた日時 (ms)。未取得なら null */
+  fetchedAt: number | null;
+}
+
+let state: RealtimeState = { vehicles: {}, tripUpdates: {}, fetchedAt: null };
+const listeners = new Set<() => void>();
+
+/** 現在のリアルタイム情報（useSyncExternalStore 用） */
+export function getRealtimeState(): RealtimeState {
+  return state;
+}
+
+/** リアルタイム情報の更新を購読する */
+export function subscribeRealtime(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/** 取得するフィード */
+export interface RealtimeFeedSource {
+  url: string;
+  /**
+   * 対応する静的データの feedId（複数の事業者をまとめた場合）
+   * 指定すると、フィードの ID を静的データと同じ "<feedId>:<ID>" にする
+   */
+  feedId: string | null;
+}
+
+/** フィードの指定（"<URL>" または "<feedId>=<URL>"）を読む */
+export function parseRealtimeFeedSource(value: string): RealtimeFeedSource {
+  const match = /^([^=:/?#]+)=(.+)$/.exec(value);
+  return match
+    ? { url: match[2], feedId: match[1] }
+    : { url: value, feedId: null };
+}
+
+/** フィードの ID を静的データの ID（"<feedId>:<ID>"）にそろえる */
+function toStaticIds(feed: RealtimeFeed, feedId: string | null): RealtimeFeed {
+  if (!feedId) return feed;
+  const toId = (id: string) => (id ? `${feedId}:${id}` : id);
+  return {
+    ...feed,
+    vehicles: feed.vehicles.map((v) => ({
+      ...v,
+      tripId: toId(v.tripId),
+      routeId: toId(v.routeId),
+      stopId: toId(v.stopId),
+    })),
+    tripUpdates: feed.tripUpdates.map((u) => ({
+      ...u,
+      tripId: toId(u.tripId),
+      routeId: toId(u.routeId),
+      stopDelays: u.stopDelays.map((d) => ({ ...d, stopId: toId(d.stopId) })),
+    })),
+  };
+}
+
+/** 複数のフィードを1つにまとめてリアルタイム情報を更新する */
+function applyFeeds(feeds: RealtimeFeed[]): void {
+  const nowSec = Date.now() / 1000;
+  const vehicles: Record<string, RealtimeVehicle> = {};
+  const tripUpdates: Record<string, RealtimeTripUpdate> = {};
+  feeds.forEach((feed) => {
+    feed.vehicles.forEach((v) => {
+      const timestamp = v.timestamp ?? feed.timestamp;
+      if (timestamp !== null && nowSec - timestamp > MAX_VEHICLE_AGE_SEC) {
+        return;
+      }
+      vehicles[v.tripId] = v;
+    });
+    feed.tripUpdates.forEach((u) => (tripUpdates[u.tripId] = u));
+  });
+  state = { vehicles, tripUpdates, fetchedAt: Date.now() };
+  listeners.forEach((l) => l());
+}
+
+// ==================== 取得 ====================
+
+let lastRefresh = 0;
+let pending: Promise<void> | null = null;
+
+/**
+ * フィードを取得してリアルタイム情報を更新する
+ * 前回の取得から REFRESH_INTERVAL 未満の場合は取得しない。失敗したフィードは無視する
+ */
+export function refreshRealtime(sources: RealtimeFeedSource[]): Promise<void> {
+  if (pending) return pending;
+  if (sources.length === 0 || Date.now() - lastRefresh < REFRESH_INTERVAL) {
+    return Promise.resolve();
+  }
+  lastRefresh = Date.now();
+
+  pending = Promise.all(
+    sources.map(async ({ url, feedId }) => {
+      try {
+        const res = await fetch(url, { cache: "no-store" });
+        if (!res.ok) throw new Error(`GTFS-RT fetch failed (${res.status})`);
+        return toStaticIds(decodeFeedMessage(await res.arrayBuffer()), feedId);
+      } catch (e) {
+        console.error(`リアルタイム情報の取得に失敗しました (${url}):`, e);
+        return null;
+      }
+    }),
+  )
+    .then((feeds) => {
+      const decoded = feeds.filter((f): f is RealtimeFeed => f !== null);
+      // 全て失敗した場合は前回の情報を残す
+      if (decoded.length > 0) applyFeeds(decoded);
+    })
+    .finally(() => {
+      pending = null;
+    });
+  return pending;
+}
+
+// ==================== 遅れ ====================
+
+/**
+ * 次に停車する（または停車中の）地点の遅れ。分からなければ undefined
+ * 車両位置の停車地点があればそれを使い、なければ予定時刻が現在より後の最初の停車地点とする
+ */
+function findUpcomingStopDelay(
+  realtime: RealtimeState,
+  update: RealtimeTripUpdate,
+): RealtimeStopDelay | undefined {
+  const { stopDelays } = update;
+  const vehicle = realtime.vehicles[update.tripId];
+  const current = vehicle?.stopSequence ?? null;
+  if (current !== null) {
+    // 遅れは次の StopTimeUpdate まで後続の停車地点に引き継がれる
+    const reached = stopDelays.filter(
+      (d) => d.stopSequence !== null && d.stopSequence <= current,
+    );
+    const next =
+      reached[reached.length - 1] ??
+      stopDelays.find(
+        (d) => d.stopSequence !== null && d.stopSequence > current,
+      );
+    if (next) return next;
+  }
+  if (vehicle?.stopId) {
+    const atStop = stopDelays.find((d) => d.stopId === vehicle.stopId);
+    if (atStop) return atStop;
+  }
+  const nowSec = Date.now() / 1000;
+  return stopDelays.find((d) => d.time !== null && d.time >= nowSec);
+}
+
+/**
+ * 便の遅れ (秒)。リアルタイム情報がなければ null
+ * stopId を指定した場合はそのバス停の遅れ、なければ次の停車地点の遅れ（分からなければ便全体の遅れ）
+ */
+export function getTripDelay(
+  realtime: RealtimeState,
+  tripId: string,
+  stopId?: string,
+): number | null {
+  const update = realtime.tripUpdates[tripId];
+  if (!update) return null;
+  const stopDelay =
+    (stopId !== undefined
+      ? update.stopDelays.find((d) => d.stopId === stopId)
+      : undefined) ?? findUpcomingStopDelay(realtime, update);
+  return stopDelay?.delay ?? update.delay ?? null;
+}
+
+/** 遅れの表示（例: "+3分"、"定刻"、"1分早発"） */
+export function formatDelay(delaySec: number): string {
+  const minutes = Math.round(delaySec / 60);
+  if (minutes === 0) return t("delay.onTime");
+  return minutes > 0
+    ? t("delay.late", { minutes })
+    : t("delay.early", { minutes: -minutes });
+}
+
+/** 読み上げ用の遅れ（例: "3分遅れ"、"定刻"、"1分早発"） */
+export function describeDelay(delaySec: number): string {
+  const minutes = Math.round(delaySec / 60);
+  if (minutes <= 0) return formatDelay(delaySec);
+  return t("delay.lateSpoken", { minutes });
+}
+
+// ==================== バス位置との統合 ====================
+
+/**
+ * 時刻表に基づくバス位置にリアルタイム情報を合わせる
+ * - 車両位置のある便はその位置にする
+ * - 遅れの分かる便は遅れを付ける
+ * - 時刻表では運行していないが車両位置のある便（遅れて運行中など）は、路線の分かるものを追加する
+ */
+export function mergeRealtimePositions(
+  positions: BusPosition[],
+  realtime: RealtimeState,
+  routes: RoutesData,
+  bounds?: { minLat: number; maxLat: number; minLng: number; maxLng: number },
+): BusPosition[] {
+  const merged = positions.map((bus): BusPosition => {
+    const vehicle = realtime.vehicles[bus.trip_id];
+    const delay = getTripDelay(realtime, bus.trip_id);
+    if (!vehicle && delay === null) return bus;
+    return {
+      ...bus,
+      position: vehicle ? [vehicle.lng, vehicle.lat] : bus.position,
+      realtime: !!vehicle,
+      delay,
+    };
+  });
+
+  const scheduled = new Set(positions.map((bus) => bus.trip_id));
+  Object.values(realtime.vehicles).forEach((vehicle) => {
+    if (scheduled.has(vehicle.tripId)) return;
+    const route = routes[vehicle.routeId];
+    if (!route) return;
+    if (
+      bounds &&
+      (vehicle.lat < bounds.minLat ||
+        vehicle.lat > bounds.maxLat ||
+        vehicle.lng < bounds.minLng ||
+        vehicle.lng > bounds.maxLng)
+    ) {
+      return;
+    }
+    merged.push({
+      trip_id: vehicle.tripId,
+      route_id: vehicle.routeId,
+      route_name: route.short_name,
+      // 行先は時刻表にしかないため、路線名で代用する
+      headsign: route.short_name,
+      position: [vehicle.lng, vehicle.lat],
+      color: route.color,
+      realtime: true,
+      delay: getTripDelay(realtime, vehicle.tripId),
+    });
+  });
+  return merged;
+}
@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import type { StopInfo, StopsData } from "./types";
+import {
+  normalizeSearchText,
+  romajiToHiragana,
+  searchStopGroups,
+} from "./search";
+
+const stop = (
+  name: string,
+  yomi: string,
+  tripCount: number,
+  platform = "",
+): StopInfo => ({
+  name,
+  yomi,
+  lat: 38.26,
+  lng: 140.88,
+  platform,
+  trip_count: tripCount,
+});
+
+const stops: StopsData = {
+  sendai1: stop("仙台駅前", "せんだいえきまえ", 1500, "1"),
+  sendai2: stop("仙台駅前", "せんだいえきまえ", 1500, "2"),
+  sendaiEast: stop("仙台駅東口", "せんだいえきひがしぐち", 200),
+  higashiSendai: stop("東仙台駅", "ひがしせんだいえき", 100),
+  nagamachi: stop("長町", "ながまち", 300),
+  nagamachiMinami: stop("長町南", "ながまちみなみ", 3000),
+  yagiyama: stop("八木山動物公園", "やぎやまどうぶつこうえん", 400),
+  kotsukyoku: stop("交通局大学病院", "こうつうきょくだいがくびょういん", 300),
+  kimachi: stop("木町通・二丁目", "キマチドオリニチョウメ", 50),
+  ss30: stop("ＳＳ３０", "えすえすさんじゅう", 50),
+};
+
+const names = (query: string) =>
+  searchStopGroups(stops, query).map((r) => r.name);
+
+describe("ローマ字", () => {
+  it("ローマ字をひらがなにする", () => {
+    expect(romajiToHiragana("sendaieki")).toBe("せんだいえき");
+    expect(romajiToHiragana("nagamachi")).toBe("ながまち");
+    expect(romajiToHiragana("tutihasi")).toBe("つちはし");
+    expect(romajiToHiragana("kotsukyoku")).toBe("こつきょく");
+  });
+
+  it("促音・撥音を変換する", () => {
+    expect(romajiToHiragana("sapporo")).toBe("さっぽろ");
+    expect(romajiToHiragana("konnichiha")).toBe("こんにちは");
+    expect(romajiToHiragana("shin'osaka")).toBe("しんおさか");
+  });
+
+  it("ローマ字で入力してもバス停が見つかる", () => {
+    expect(names("sendaieki")[0]).toBe("仙台駅前");
+    // 入力途中の子音は除いて比較する
+    expect(names("sendaiek")[0]).toBe("仙台駅前");
+  });
+});
+
+describe("全角半角・カタカナの正規化", () => {
+  it("全角英数字・半角カタカナ・カタカナ・空白を統一する", () => {
+    expect(normalizeSearchText("ＳＥＮＤＡＩ")).toBe("sendai");
+    expect(normalizeSearchText("ｾﾝﾀﾞｲ")).toBe("せんだい");
+    expect(normalizeSearchText("センダイ")).toBe("せんだい");
+    expect(normalizeSearchText("仙台　駅・前")).toBe("仙台駅前");
+  });
+
+  it("どの書き方で入力しても同じバス停が見つかる", () => {
+    ["せんだいえき", "センダイエキ", "ｾﾝﾀﾞｲｴｷ", "ＳＥＮＤＡＩＥＫＩ"].forEach(
+      (query) => expect(names(query)[0]).toBe("仙台駅前"),
+    );
+    expect(names("ss30")).toEqual(["ＳＳ３０"]);
+    expect(names("kimachidoori")).toEqual(["木町通・二丁目"]);
+  });
+});
+
+describe("入力の誤り", () => {
+  it("1〜2文字の打ち間違いを許す", () => {
+    expect(names("やぎやまどおぶつこうえん")).toEqual(["八木山動物公園"]);
+    expect(names("yagiyamadobutukoen")).toEqual(["八木山動物公園"]);
+  });
+
+  it("長音の有無を区別しない", () => {
+    expect(names("kotsukyoku")).toEqual(["交通局大学病院"]);
+  });
+
+  it("短いクエリでは誤りを許さない", () => {
+    expect(names("なか")).toEqual([]);
+  });
+});
+
+describe("順位", () => {
+  it("完全一致・前方一致・部分一致の順に並べる", () => {
+    expect(names("せんだいえき")).toEqual([
+      "仙台駅前",
+      "仙台駅東口",
+      "東仙台駅",
+    ]);
+  });
+
+  it("完全一致は停車する便の多い前方一致より上にする", () => {
+    expect(names("ながまち")).toEqual(["長町", "長町南"]);
+  });
+
+  it("一致の程度が同じなら停車する便の多いバス停を上にする", () => {
+    const swapped: StopsData = {
+      ...stops,
+      sendai1: { ...stops.sendai1, trip_count: 10 },
+      sendai2: { ...stops.sendai2, trip_count: 10 },
+      sendaiEast: { ...stops.sendaiEast, trip_count: 3000 },
+    };
+    expect(
+      searchStopGroups(swapped, "せんだいえき")
+        .slice(0, 2)
+        .map((r) => r.name),
+    ).toEqual(["仙台駅東口", "仙台駅前"]);
+  });
+
+  it("同名バス停は1件にまとめる", () => {
+    const results = searchStopGroups(stops, "仙台駅前");
+    expect(results.filter((r) => r.name === "仙台駅前")).toHaveLength(1);
+    expect(results[0].id).toBe("sendai1");
+  });
+});
+
+describe("一致した範囲", () => {
+  it("名前に一致した範囲を返す", () => {
+    const [result] = searchStopGroups(stops, "駅東");
+    expect(result.nameRanges).toEqual([[2, 4]]);
+    expect(result.yomiRanges).toEqual([]);
+  });
+
+  it("よみ・ローマ字に一致した範囲は元のよみの位置で返す", () => {
+    const [result] = searchStopGroups(stops, "sendai");
+    expect(result.name).toBe("仙台駅前");
+    expect(result.nameRanges).toEqual([]);
+    expect(result.yomiRanges).toEqual([[0, 4]]);
+  });
+
+  it("正規化で除いた文字（中黒）をまたぐ一致は1つの範囲で返す", () => {
+    const [result] = searchStopGroups(stops, "木町通二");
+    expect(result.nameRanges).toEqual([[0, 5]]);
+  });
+
+  it("全角の名前にも元の位置で範囲を返す", () => {
+    const [result] = searchStopGroups(stops, "ss");
+    expect(result.nameRanges).toEqual([[0, 2]]);
+  });
+
+  it("漢字とかなの混在したクエリは一致した文字ごとに返す", () => {
+    const [result] = searchStopGroups(stops, "仙台えきひ");
+    expect(result.name).toBe("仙台駅東口");
+    expect(result.nameRanges).toEqual([[0, 2]]);
+    expect(result.yomiRanges).toEqual([[4, 7]]);
+  });
+});
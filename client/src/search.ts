@@ -0,0 +1,672 @@
+import type { RoutesData, StopsData } from "./types";
+import type { StopGroup } from "./utils";
+import { isRouteVisible, katakanaToHiragana } from "./utils";
+
+// ============================================================
+// 検索（バス停・路線番号・行先）
+// 同名バス停をまとめた検索用の索引を作り、名前・よみへの一致の度合いと
+// バス停の重要度（停車する便の数）で順位を付ける
+// ローマ字入力（sendaieki → せんだいえき）・全角半角の違い・入力の誤りに対応する
+// 路線番号（routes の short_name）と行先・経由地（headsigns）も同じ正規化で探す
+// ============================================================
+
+/** 文字列中の範囲 [開始, 終了) */
+export type TextRange = [number, number];
+
+/** 検索結果の1件（一致した部分の強調表示用の範囲つき） */
+export interface StopSearchResult extends StopGroup {
+  /** name のうち一致した範囲 */
+  nameRanges: TextRange[];
+  /** yomi のうち一致した範囲 */
+  yomiRanges: TextRange[];
+}
+
+/** 路線番号の検索結果の1件 */
+export interface RouteSearchResult {
+  routeId: string;
+  /** short_name のうち一致した範囲 */
+  nameRanges: TextRange[];
+}
+
+/** 行先の検索結果の1件（路線と行先・経由地の組み合わせ） */
+export interface HeadsignSearchResult {
+  routeId: string;
+  headsign: string;
+  via: string;
+  /** headsign のうち一致した範囲 */
+  headsignRanges: TextRange[];
+  /** via のうち一致した範囲 */
+  viaRanges: TextRange[];
+}
+
+/** 正規化した文字列と、各文字の元の文字列での位置 */
+interface SearchText {
+  text: string;
+  map: number[];
+}
+
+/** 索引の1件（同名バス停をまとめたもの） */
+interface IndexEntry {
+  group: StopGroup;
+  name: SearchText;
+  yomi: SearchText;
+  /** 長音を除いたよみ（とうきょう → ときょ） */
+  foldedYomi: SearchText;
+  /** 重要度（停車する便の数。古いデータではのりばの数） */
+  importance: number;
+}
+
+/** 一致の結果 */
+interface MatchResult {
+  score: number;
+  nameRanges: TextRange[];
+  yomiRanges: TextRange[];
+}
+
+/** 一致の種類ごとの基本点 */
+const SCORE_EXACT = 1000;
+const SCORE_PREFIX = 800;
+const SCORE_SUBSTRING = 600;
+/** 長音を除いたよみでの一致は1段下げる */
+const FOLDED_PENALTY = 150;
+const SCORE_FUZZY = 300;
+/** 入力の誤り1文字あたりの減点 */
+const TYPO_PENALTY = 100;
+const SCORE_SUBSEQUENCE = 100;
+/** 重要度（便の数の対数）1あたりの加点 */
+const IMPORTANCE_WEIGHT = 10;
+/** バス停名1文字あたりの減点（同じ一致なら短い名前を優先） */
+const LENGTH_PENALTY = 2;
+
+// ==================== 正規化 ====================
+
+const KANJI_PATTERN = /[一-龯㐀-䶿]/;
+const KANA_PATTERN = /[぀-ゟ゠-ヿ]/;
+/** 検索で無視する文字（空白・中黒） */
+const IGNORED_PATTERN = /[\s・]/;
+/** 濁点・半濁点（結合文字） */
+const VOICED_MARKS = ["゙", "゚"];
+
+/**
+ * 検索用に正規化する（全角半角の統一、小文字化、カタカナ→ひらがな、空白の除去）
+ * 正規化後の各文字が元の文字列のどの位置にあたるかを併せて返す
+ */
+function toSearchText(str: string): SearchText {
+  let text = "";
+  const map: number[] = [];
+  let pos = 0;
+  for (const ch of str) {
+    const normalized = katakanaToHiragana(ch.normalize("NFKC").toLowerCase());
+    for (const c of normalized) {
+      if (IGNORED_PATTERN.test(c)) continue;
+      // 半角カタカナの濁点は直前の文字と合成する（ｾﾞ → ぜ）
+      if (VOICED_MARKS.includes(c) && text) {
+        const composed = (text.slice(-1) + c).normalize("NFC");
+        if (composed.length === 1) {
+          text = text.slice(0, -1) + composed;
+          continue;
+        }
+      }
+      text += c;
+      for (let k = 0; k < c.length; k++) map.push(pos);
+    }
+    pos += ch.length;
+  }
+  return { text, map };
+}
+
+/** 検索用に正規化した文字列 */
+export function normalizeSearchText(str: string): string {
+  return toSearchText(str).text;
+}
+
+/** 母音がお段・う段のかな（長音の判定用） */
+const O_ROW = "おこそとのほもよろをごぞどぼぽょぉ";
+const U_ROW = "うくすつぬふむゆるぐずづぶぷゅぅ";
+
+/**
+ * 長音を除く（とうきょう → ときょ、おおさか → おさか）
+ * ローマ字で長音を省いて入力した場合（tokyo, osaka）も一致させるために使う
+ */
+function foldLongVowels({ text, map }: SearchText): SearchText {
+  let folded = "";
+  const foldedMap: number[] = [];
+  text.split("").forEach((c, i) => {
+    const prev = folded.slice(-1);
+    const isLong =
+      c === "ー" ||
+      (c === "う" && (O_ROW.includes(prev) || U_ROW.includes(prev))) ||
+      (c === "お" && O_ROW.includes(prev));
+    if (isLong && prev) return;
+    folded += c;
+    foldedMap.push(map[i]);
+  });
+  return { text: folded, map: foldedMap };
+}
+
+// ==================== ローマ字 ====================
+
+/** ローマ字とひらがなの対応（ヘボン式・訓令式の両方）。"ローマ字:かな" を空白区切りで並べる */
+const ROMAJI_ROWS = [
+  "a:あ i:い u:う e:え o:お",
+  "ka:か ki:き ku:く ke:け ko:こ kya:きゃ kyu:きゅ kyo:きょ",
+  "sa:さ si:し shi:し su:す se:せ so:そ",
+  "sha:しゃ shu:しゅ sho:しょ she:しぇ sya:しゃ syu:しゅ syo:しょ",
+  "ta:た ti:ち chi:ち tu:つ tsu:つ te:て to:と",
+  "cha:ちゃ chu:ちゅ cho:ちょ che:ちぇ tya:ちゃ tyu:ちゅ tyo:ちょ",
+  "na:な ni:に nu:ぬ ne:ね no:の nya:にゃ nyu:にゅ nyo:にょ",
+  "ha:は hi:ひ hu:ふ fu:ふ he:へ ho:ほ hya:ひゃ hyu:ひゅ hyo:ひょ",
+  "fa:ふぁ fi:ふぃ fe:ふぇ fo:ふぉ",
+  "ma:ま mi:み mu:む me:め mo:も mya:みゃ myu:みゅ myo:みょ",
+  "ya:や yu:ゆ yo:よ wa:わ wo:を",
+  "ra:ら ri:り ru:る re:れ ro:ろ rya:りゃ ryu:りゅ ryo:りょ",
+  "la:ら li:り lu:る le:れ lo:ろ",
+  "ga:が gi:ぎ gu:ぐ ge:げ go:ご gya:ぎゃ gyu:ぎゅ gyo:ぎょ",
+  "za:ざ zi:じ ji:じ zu:ず ze:ぜ zo:ぞ",
+  "ja:じゃ ju:じゅ jo:じょ je:じぇ jya:じゃ jyu:じゅ jyo:じょ",
+  "zya:じゃ zyu:じゅ zyo:じょ",
+  "da:だ di:ぢ du:づ de:で do:ど",
+  "ba:ば bi:び bu:ぶ be:べ bo:ぼ bya:びゃ byu:びゅ byo:びょ",
+  "pa:ぱ pi:ぴ pu:ぷ pe:ぺ po:ぽ pya:ぴゃ pyu:ぴゅ pyo:ぴょ",
+  "-:ー",
+];
+
+/** ローマ字 → ひらがな */
+const ROMAJI_TABLE: Record<string, string> = Object.fromEntries(
+  ROMAJI_ROWS.flatMap((row) => row.split(" ").map((pair) => pair.split(":"))),
+);
+
+const VOWELS = "aiueo";
+
+/**
+ * ローマ字をひらがなに変換する（sendaieki → せんだいえき）
+ * 変換できない文字はそのまま残す
+ */
+export function romajiToHiragana(str: string): string {
+  let result = "";
+  let i = 0;
+  while (i < str.length) {
+    const c = str[i];
+    const next = str[i + 1];
+
+    // 促音（子音の重なり、tch）
+    if (
+      /[a-z]/.test(c) &&
+      !VOWELS.includes(c) &&
+      c !== "n" &&
+      (next === c || (c === "t" && next === "c"))
+    ) {
+      result += "っ";
+      i++;
+      continue;
+    }
+
+    // 撥音（n の後が母音・y 以外、nn、n'）
+    if (c === "n" && !(next !== undefined && (VOWELS + "y").includes(next))) {
+      result += "ん";
+      const afterNext = str[i + 2];
+      // nn の後が母音なら2つ目の n は次の音（konnichi → こんにち）
+      const isDouble =
+        next === "'" ||
+        (next === "n" &&
+          !(afterNext !== undefined && (VOWELS + "y").includes(afterNext)));
+      i += isDouble ? 2 : 1;
+      continue;
+    }
+
+    const len = [3, 2, 1].find((l) => ROMAJI_TABLE[str.slice(i, i + l)]);
+    if (len) {
+      result += ROMAJI_TABLE[str.slice(i, i + len)];
+      i += len;
+    } else {
+      result += c;
+      i++;
+    }
+  }
+  return result;
+}
+
+// ==================== 一致の判定 ====================
+
+/** 正規化後の範囲を元の文字列の範囲にする（隣り合う範囲はまとめる） */
+function toOriginalRanges(
+  { map }: SearchText,
+  source: string,
+  ranges: TextRange[],
+): TextRange[] {
+  const result: TextRange[] = [];
+  ranges.forEach(([start, end]) => {
+    if (start >= end) return;
+    const from = map[start];
+    const lastPos = map[end - 1];
+    const to = lastPos + (source.codePointAt(lastPos)! > 0xffff ? 2 : 1);
+    const last = result[result.length - 1];
+    if (last && last[1] >= from) last[1] = Math.max(last[1], to);
+    else result.push([from, to]);
+  });
+  return result;
+}
+
+/** 許容する入力の誤りの文字数（短いクエリでは誤りを許さない） */
+function maxTypos(queryLength: number): number {
+  if (queryLength < 3) return 0;
+  return queryLength < 6 ? 1 : 2;
+}
+
+/**
+ * 編集距離が最小になる target の部分文字列を探す
+ * 見つかった範囲と距離を返す（maxDistance を超える場合は null）
+ */
+function fuzzySubstring(
+  query: string,
+  target: string,
+  maxDistance: number,
+): { distance: number; range: TextRange } | null {
+  const q = query.split("");
+  const t = target.split("");
+  // prev[j], start[j]: target の j 文字目で終わる部分文字列との距離と、その開始位置
+  let prev = t.map(() => 0).concat(0);
+  let prevStart = prev.map((_, j) => j);
+  for (let i = 1; i <= q.length; i++) {
+    const cur = [i];
+    const curStart = [0];
+    for (let j = 1; j <= t.length; j++) {
+      const substitute = prev[j - 1] + (q[i - 1] === t[j - 1] ? 0 : 1);
+      const remove = prev[j] + 1;
+      const insert = cur[j - 1] + 1;
+      if (substitute <= remove && substitute <= insert) {
+        cur.push(substitute);
+        curStart.push(prevStart[j - 1]);
+      } else if (remove <= insert) {
+        cur.push(remove);
+        curStart.push(prevStart[j]);
+      } else {
+        cur.push(insert);
+        curStart.push(curStart[j - 1]);
+      }
+    }
+    prev = cur;
+    prevStart = curStart;
+  }
+
+  let best = -1;
+  prev.forEach((d, j) => {
+    if (j > 0 && (best === -1 || d < prev[best])) best = j;
+  });
+  if (best === -1 || prev[best] > maxDistance) return null;
+  return { distance: prev[best], range: [prevStart[best], best] };
+}
+
+/** 1つの文字列への一致（完全一致・前方一致・部分一致・誤りを許した一致） */
+function matchText(
+  query: string,
+  target: SearchText,
+  allowTypos: boolean,
+): { score: number; range: TextRange } | null {
+  const { text } = target;
+  if (!query || !text) return null;
+  if (text === query) {
+    return { score: SCORE_EXACT, range: [0, text.length] };
+  }
+  if (text.startsWith(query)) {
+    return { score: SCORE_PREFIX, range: [0, query.length] };
+  }
+  const index = text.indexOf(query);
+  if (index !== -1) {
+    return { score: SCORE_SUBSTRING, range: [index, index + query.length] };
+  }
+  if (!allowTypos) return null;
+  const fuzzy = fuzzySubstring(query, text, maxTypos(query.length));
+  if (!fuzzy) return null;
+  return {
+    score: SCORE_FUZZY - fuzzy.distance * TYPO_PENALTY,
+    range: fuzzy.range,
+  };
+}
+
+/**
+ * 漢字とかなの混在したクエリを、漢字は名前・かなはよみから順に探す（仙台えき など）
+ * 一致した文字の位置を返す
+ */
+function matchMixed(
+  query: string,
+  name: SearchText,
+  yomi: SearchText,
+): { name: number[]; yomi: number[] } | null {
+  const positions = { name: [] as number[], yomi: [] as number[] };
+  let namePos = 0;
+  let yomiPos = 0;
+  for (const char of query) {
+    const inName = name.text.indexOf(char, namePos);
+    const inYomi = yomi.text.indexOf(char, yomiPos);
+    if (
+      KANJI_PATTERN.test(char) ||
+      (!KANA_PATTERN.test(char) && inYomi === -1)
+    ) {
+      if (inName === -1) return null;
+      positions.name.push(inName);
+      namePos = inName + 1;
+    } else {
+      if (inYomi === -1) return null;
+      positions.yomi.push(inYomi);
+      yomiPos = inYomi + 1;
+    }
+  }
+  return positions;
+}
+
+/** クエリの各形（正規化・ローマ字からの変換・長音の除去） */
+interface SearchQuery {
+  text: string;
+  kana: string;
+  foldedKana: string;
+}
+
+function toSearchQuery(query: string): SearchQuery {
+  const text = normalizeSearchText(query);
+  let kana = text;
+  if (/[a-z]/.test(text)) {
+    // 入力途中の子音（sendaiek の k）は除いて比較する
+    const converted = romajiToHiragana(text);
+    const trimmed = converted.replace(/[a-z]+$/, "");
+    kana = trimmed || converted;
+  }
+  const folded = foldLongVowels({
+    text: kana,
+    map: kana.split("").map((_, i) => i),
+  });
+  return { text, kana, foldedKana: folded.text };
+}
+
+/** 索引の1件とクエリとの最も良い一致 */
+function matchEntry(entry: IndexEntry, query: SearchQuery): MatchResult | null {
+  const { group } = entry;
+  const candidates: MatchResult[] = [];
+  const addName = (match: ReturnType<typeof matchText>) => {
+    if (!match) return;
+    candidates.push({
+      score: match.score,
+      nameRanges: toOriginalRanges(entry.name, group.name, [match.range]),
+      yomiRanges: [],
+    });
+  };
+  const addYomi = (
+    target: SearchText,
+    match: ReturnType<typeof matchText>,
+    penalty = 0,
+  ) => {
+    if (!match) return;
+    candidates.push({
+      score: match.score - penalty,
+      nameRanges: [],
+      yomiRanges: toOriginalRanges(target, group.yomi, [match.range]),
+    });
+  };
+
+  addName(matchText(query.text, entry.name, false));
+  addYomi(entry.yomi, matchText(query.kana, entry.yomi, false));
+  addYomi(
+    entry.foldedYomi,
+    matchText(query.foldedKana, entry.foldedYomi, false),
+    FOLDED_PENALTY,
+  );
+
+  // 一致がなければ、入力の誤りを許して探す
+  if (candidates.length === 0) {
+    addName(matchText(query.text, entry.name, true));
+    addYomi(entry.yomi, matchText(query.kana, entry.yomi, true));
+  }
+  if (candidates.length > 0) {
+    return candidates.reduce((best, c) => (c.score > best.score ? c : best));
+  }
+
+  // 漢字とかなの混在したクエリ
+  const mixed = matchMixed(query.text, entry.name, entry.yomi);
+  if (!mixed) return null;
+  const toRanges = (positions: number[]): TextRange[] =>
+    positions.map((p) => [p, p + 1]);
+  return {
+    score: SCORE_SUBSEQUENCE,
+    nameRanges: toOriginalRanges(entry.name, group.name, toRanges(mixed.name)),
+    yomiRanges: toOriginalRanges(entry.yomi, group.yomi, toRanges(mixed.yomi)),
+  };
+}
+
+// ==================== 索引 ====================
+
+/** StopsData ごとの索引（同じデータで何度も検索するため保持する） */
+const indexCache = new WeakMap<StopsData, IndexEntry[]>();
+
+/** バス停名でまとめた検索用の索引を作る */
+function getSearchIndex(stops: StopsData): IndexEntry[] {
+  const cached = indexCache.get(stops);
+  if (cached) return cached;
+
+  const entries = new Map<string, IndexEntry>();
+  Object.keys(stops).forEach((id) => {
+    const s = stops[id];
+    const entry = entries.get(s.name);
+    // 停車する便の数がないデータでは、のりばの数を重要度とする
+    const weight = s.trip_count ?? 1;
+    if (entry) {
+      entry.importance += weight;
+      if (!entry.group.yomi && s.yomi) {
+        entry.group.yomi = s.yomi;
+        entry.yomi = toSearchText(s.yomi);
+        entry.foldedYomi = foldLongVowels(entry.yomi);
+      }
+      return;
+    }
+    const yomi = toSearchText(s.yomi);
+    entries.set(s.name, {
+      group: { id, name: s.name, yomi: s.yomi, lat: s.lat, lng: s.lng },
+      name: toSearchText(s.name),
+      yomi,
+      foldedYomi: foldLongVowels(yomi),
+      importance: weight,
+    });
+  });
+
+  const index = [...entries.values()];
+  indexCache.set(stops, index);
+  return index;
+}
+
+/**
+ * バス停名でグループ化したうえでクエリに一致するバス停を検索する
+ * 一致の度合い（完全一致 > 前方一致 > 部分一致 > 誤りを許した一致）と重要度の高い順に並べる
+ */
+export function searchStopGroups(
+  stops: StopsData,
+  query: string,
+  limit = 10,
+): StopSearchResult[] {
+  const searchQuery = toSearchQuery(query);
+  if (!searchQuery.text) return [];
+
+  const results: { result: StopSearchResult; score: number }[] = [];
+  getSearchIndex(stops).forEach((entry) => {
+    const match = matchEntry(entry, searchQuery);
+    if (!match) return;
+    const score =
+      match.score +
+      Math.log2(1 + entry.importance) * IMPORTANCE_WEIGHT -
+      [...entry.group.name].length * LENGTH_PENALTY;
+    results.push({
+      score,
+      result: {
+        ...entry.group,
+        nameRanges: match.nameRanges,
+        yomiRanges: match.yomiRanges,
+      },
+    });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.result.name.localeCompare(b.result.name, "ja"),
+    )
+    .slice(0, limit)
+    .map((r) => r.result);
+}
+
+// ==================== 路線・行先 ====================
+
+/** 路線番号の索引の1件 */
+interface RouteIndexEntry {
+  routeId: string;
+  shortName: string;
+  name: SearchText;
+}
+
+/** 行先の索引の1件 */
+interface HeadsignIndexEntry {
+  routeId: string;
+  headsign: string;
+  via: string;
+  headsignText: SearchText;
+  viaText: SearchText;
+}
+
+/** 経由地での一致は、行先でのどの一致よりも下に並べる */
+const VIA_PENALTY = SCORE_EXACT;
+
+/** RoutesData ごとの索引 */
+const routeIndexCache = new WeakMap<
+  RoutesData,
+  { routes: RouteIndexEntry[]; headsigns: HeadsignIndexEntry[] }
+>();
+
+/** 路線番号と行先の索引を作る */
+function getRouteIndex(routes: RoutesData) {
+  const cached = routeIndexCache.get(routes);
+  if (cached) return cached;
+
+  const index = {
+    routes: [] as RouteIndexEntry[],
+    headsigns: [] as HeadsignIndexEntry[],
+  };
+  Object.keys(routes).forEach((routeId) => {
+    const route = routes[routeId];
+    const shortName = route.short_name || routeId;
+    index.routes.push({ routeId, shortName, name: toSearchText(shortName) });
+    (route.headsigns || []).forEach(({ headsign, via }) => {
+      index.headsigns.push({
+        routeId,
+        headsign,
+        via,
+        headsignText: toSearchText(headsign),
+        viaText: toSearchText(via),
+      });
+    });
+  });
+  routeIndexCache.set(routes, index);
+  return index;
+}
+
+/** 路線番号の順に比べる（J3 < J10） */
+function compareShortName(routes: RoutesData, a: string, b: string): number {
+  return (routes[a].short_name || a).localeCompare(
+    routes[b].short_name || b,
+    "ja",
+    { numeric: true },
+  );
+}
+
+/**
+ * 路線番号（short_name）がクエリに一致する路線を検索する
+ * 完全一致・前方一致・部分一致の順に、同じ程度なら路線番号の順に並べる
+ */
+export function searchRoutes(
+  routes: RoutesData,
+  query: string,
+  hiddenAgencyIds: string[] = [],
+  limit = 5,
+): RouteSearchResult[] {
+  const text = normalizeSearchText(query);
+  if (!text) return [];
+
+  const results: { result: RouteSearchResult; score: number }[] = [];
+  getRouteIndex(routes).routes.forEach((entry) => {
+    if (!isRouteVisible(entry.routeId, routes, hiddenAgencyIds)) return;
+    const match = matchText(text, entry.name, false);
+    if (!match) return;
+    results.push({
+      score: match.score,
+      result: {
+        routeId: entry.routeId,
+        nameRanges: toOriginalRanges(entry.name, entry.shortName, [
+          match.range,
+        ]),
+      },
+    });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        compareShortName(routes, a.result.routeId, b.result.routeId),
+    )
+    .slice(0, limit)
+    .map((r) => r.result);
+}
+
+/**
+ * 行先・経由地がクエリに一致する路線を検索する
+ * 行先での一致を経由地での一致より上に、同じ程度なら路線番号の順に並べる
+ */
+export function searchHeadsigns(
+  routes: RoutesData,
+  query: string,
+  hiddenAgencyIds: string[] = [],
+  limit = 5,
+): HeadsignSearchResult[] {
+  const { text, kana } = toSearchQuery(query);
+  if (!text) return [];
+
+  // ローマ字で入力した場合は、かなに変換したものでも探す（行先がかなの場合）
+  const bestMatch = (target: SearchText) => {
+    const byText = matchText(text, target, false);
+    const byKana = kana !== text ? matchText(kana, target, false) : null;
+    return byKana && (!byText || byKana.score > byText.score) ? byKana : byText;
+  };
+
+  const results: { result: HeadsignSearchResult; score: number }[] = [];
+  getRouteIndex(routes).headsigns.forEach((entry) => {
+    if (!isRouteVisible(entry.routeId, routes, hiddenAgencyIds)) return;
+    const headsignMatch = bestMatch(entry.headsignText);
+    const viaMatch = bestMatch(entry.viaText);
+    const viaScore = viaMatch ? viaMatch.score - VIA_PENALTY : -Infinity;
+    if (!headsignMatch && !viaMatch) return;
+    const byHeadsign = !!headsignMatch && headsignMatch.score >= viaScore;
+    results.push({
+      score: byHeadsign ? headsignMatch.score : viaScore,
+      result: {
+        routeId: entry.routeId,
+        headsign: entry.headsign,
+        via: entry.via,
+        headsignRanges: byHeadsign
+          ? toOriginalRanges(entry.headsignText, entry.headsign, [
+              headsignMatch.range,
+            ])
+          : [],
+        viaRanges:
+          !byHeadsign && viaMatch
+            ? toOriginalRanges(entry.viaText, entry.via, [viaMatch.range])
+            : [],
+      },
+    });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        compareShortName(routes, a.result.routeId, b.result.routeId) ||
+        a.result.headsign.localeCompare(b.result.headsign, "ja"),
+    )
+    .slice(0, limit)
+    .map((r) => r.result);
+}
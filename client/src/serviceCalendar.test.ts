@@ -0,0 +1,226 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { CalendarData, ExtraData, TripInfo } from "./types";
+import {
+  EXPIRED_FALLBACK_MIN_DAYS,
+  createServiceCalendar,
+  getActiveServiceDays,
+  toTokyoDateTime,
+  ymdToDate,
+} from "./serviceCalendar";
+import { getTripServiceDay } from "./utils";
+import { jst } from "./testHelpers";
+
+const WEEKDAYS = ["1", "1", "1", "1", "1", "0", "0"];
+const SUNDAYS = ["0", "0", "0", "0", "0", "0", "1"];
+
+// 平日ダイヤ（年末年始は運休）と日曜祝日ダイヤ（元日は追加運行）
+const calendar: CalendarData = {
+  weekday: { days: WEEKDAYS, start: "20250401", end: "20260331" },
+  holiday: { days: SUNDAYS, start: "20250401", end: "20260331" },
+};
+const extra: ExtraData = {
+  offices: {},
+  calendar_dates: [
+    { service_id: "weekday", date: "20260101", exception_type: "2" },
+    { service_id: "weekday", date: "20260102", exception_type: "2" },
+    { service_id: "holiday", date: "20260101", exception_type: "1" },
+  ],
+};
+
+describe("例外日", () => {
+  const serviceCalendar = createServiceCalendar(calendar, extra);
+
+  it("曜日パターンで運行する日", () => {
+    expect(serviceCalendar.explain("weekday", jst("2025-12-31T12:00"))).toBe(
+      "calendar",
+    );
+    expect(serviceCalendar.explain("holiday", jst("2025-12-31T12:00"))).toBe(
+      "none",
+    );
+  });
+
+  it("祝日は平日ダイヤを運休し、日曜祝日ダイヤを追加運行する", () => {
+    const newYear = jst("2026-01-01T12:00");
+    expect(serviceCalendar.explain("weekday", newYear)).toBe("none");
+    expect(serviceCalendar.explain("holiday", newYear)).toBe("exception");
+    expect(serviceCalendar.getServicesOn(newYear)).toEqual(["holiday"]);
+  });
+
+  it("例外日のないサービスは曜日パターンのまま", () => {
+    const other = createServiceCalendar(calendar, {
+      offices: {},
+      calendar_dates: [],
+    });
+    expect(other.isRunning("weekday", jst("2026-01-01T12:00"))).toBe(true);
+  });
+});
+
+describe("年末年始をまたぐ判定", () => {
+  const serviceCalendar = createServiceCalendar(calendar, extra);
+
+  it("12/31 23:59 と 1/1 0:00 で運行日が切り替わる", () => {
+    expect(serviceCalendar.isRunning("weekday", jst("2025-12-31T23:59"))).toBe(
+      true,
+    );
+    expect(serviceCalendar.isRunning("weekday", jst("2026-01-01T00:00"))).toBe(
+      false,
+    );
+  });
+
+  it("次の運行日は運休日と週末を飛ばして翌年になる", () => {
+    expect(
+      serviceCalendar.getNextServiceDate("weekday", jst("2026-01-01T08:00")),
+    ).toEqual(ymdToDate("20260105"));
+    expect(
+      serviceCalendar.getNextServiceDate("holiday", jst("2025-12-29T08:00")),
+    ).toEqual(ymdToDate("20260101"));
+  });
+
+  it("当日に運行すれば当日を返し、maxDays 日以内になければ null", () => {
+    expect(
+      serviceCalendar.getNextServiceDate("weekday", jst("2025-12-31T23:00")),
+    ).toEqual(ymdToDate("20251231"));
+    expect(
+      serviceCalendar.getNextServiceDate("weekday", jst("2026-01-01T08:00"), 3),
+    ).toBeNull();
+  });
+
+  it("深夜は前日の運行日も含める", () => {
+    const [today, yesterday] = getActiveServiceDays(jst("2026-01-01T00:30"));
+    expect(today.date).toEqual(ymdToDate("20260101"));
+    expect(today.nowSec).toBe(30 * 60);
+    expect(yesterday.date).toEqual(ymdToDate("20251231"));
+    expect(yesterday.nowSec).toBe(24 * 3600 + 30 * 60);
+  });
+});
+
+describe("期限切れ後の扱い", () => {
+  const shortDays = EXPIRED_FALLBACK_MIN_DAYS - 1;
+  const data: CalendarData = {
+    ...calendar,
+    // 有効期間がちょうど EXPIRED_FALLBACK_MIN_DAYS 日の通年ダイヤと、それより短い臨時ダイヤ
+    regular: {
+      days: WEEKDAYS,
+      start: "20260301",
+      end: String(20260301 + EXPIRED_FALLBACK_MIN_DAYS),
+    },
+    temporary: {
+      days: WEEKDAYS,
+      start: "20260301",
+      end: String(20260301 + shortDays),
+    },
+  };
+  const afterExpiry = jst("2026-04-06T12:00"); // 月曜日
+
+  it("通年ダイヤは期限切れ後も曜日パターンで運行するとみなす", () => {
+    const serviceCalendar = createServiceCalendar(data, extra);
+    expect(serviceCalendar.explain("weekday", afterExpiry)).toBe(
+      "expired_fallback",
+    );
+    expect(serviceCalendar.explain("regular", afterExpiry)).toBe(
+      "expired_fallback",
+    );
+    expect(serviceCalendar.explain("holiday", afterExpiry)).toBe("none");
+  });
+
+  it("短期間の臨時ダイヤは期限切れ後は運行しない", () => {
+    const serviceCalendar = createServiceCalendar(data, extra);
+    expect(serviceCalendar.explain("temporary", afterExpiry)).toBe("none");
+  });
+
+  it("expiredFallback: false なら期限切れ後は運行しない", () => {
+    const serviceCalendar = createServiceCalendar(data, extra, {
+      expiredFallback: false,
+    });
+    expect(serviceCalendar.explain("weekday", afterExpiry)).toBe("none");
+  });
+
+  it("有効期間を過ぎたことは getValidity で分かる", () => {
+    const validity = createServiceCalendar(calendar, extra).getValidity(
+      afterExpiry,
+    );
+    expect(validity.validUntil).toBe("20260331");
+    expect(validity.isExpired).toBe(true);
+    expect(validity.isOutOfRange).toBe(true);
+  });
+});
+
+describe("便の運行日", () => {
+  const data: CalendarData = {
+    ...calendar,
+    daily: { days: Array(7).fill("1"), start: "20250401", end: "20260331" },
+  };
+  const trip = (serviceId: string, first: string, last: string): TripInfo => ({
+    headsign: "",
+    service_id: serviceId,
+    office_id: "",
+    via: "",
+    stops: [
+      { time: first, stop_id: "a" },
+      { time: last, stop_id: "b" },
+    ],
+  });
+  const dayOffset = (t: TripInfo, now: string) =>
+    getTripServiceDay(t, data, extra, jst(now)).dayOffset;
+  const lateTrip = trip("daily", "23:40:00", "24:20:00");
+
+  it("0 時過ぎに走行中の深夜便は前日の運行日", () => {
+    expect(dayOffset(lateTrip, "2026-01-07T00:10")).toBe(-1);
+  });
+
+  it("前日と当日の両方に運行する便は、表示時刻に近い回を選ぶ", () => {
+    // 前日の回は 0:20 に到着済みで、当日の回は 23:40 発
+    expect(dayOffset(lateTrip, "2026-01-07T22:00")).toBe(0);
+    expect(dayOffset(lateTrip, "2026-01-07T00:30")).toBe(-1);
+    expect(
+      dayOffset(trip("daily", "06:00:00", "06:30:00"), "2026-01-07T00:10"),
+    ).toBe(0);
+  });
+
+  it("前日に運行しないサービスの便は当日", () => {
+    const weekdayTrip = trip("weekday", "23:40:00", "24:20:00");
+    // 日曜日の翌日（月曜日）は前日の回がない
+    expect(dayOffset(weekdayTrip, "2026-01-05T00:10")).toBe(0);
+    // 金曜日の翌日（土曜日）は前日の回が走行中
+    expect(dayOffset(weekdayTrip, "2026-01-10T00:10")).toBe(-1);
+  });
+});
+
+// 端末のタイムゾーンによらず日本時間で判定する
+describe.each(["Asia/Tokyo", "UTC", "America/Los_Angeles"])(
+  "端末のタイムゾーンが %s の場合",
+  (timeZone) => {
+    beforeAll(() => {
+      vi.stubEnv("TZ", timeZone);
+    });
+    afterAll(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("日付と曜日は日本時間で求める", () => {
+      // 日本時間 1/1 0:30 は UTC・米国西海岸ではまだ 12/31
+      const date = jst("2026-01-01T00:30");
+      expect(date.getDate()).toBe(timeZone === "Asia/Tokyo" ? 1 : 31);
+      expect(toTokyoDateTime(date)).toEqual({
+        ymd: "20260101",
+        dayIndex: 3,
+        hours: 0,
+        minutes: 30,
+        seconds: 0,
+      });
+      expect(ymdToDate("20260101").toISOString()).toBe(
+        "2025-12-31T15:00:00.000Z",
+      );
+    });
+
+    it("運行判定も日本時間の日付で行う", () => {
+      const serviceCalendar = createServiceCalendar(calendar, extra);
+      expect(
+        serviceCalendar.isRunning("weekday", jst("2026-01-01T00:30")),
+      ).toBe(false);
+      expect(
+        serviceCalendar.isRunning("holiday", jst("2026-01-01T00:30")),
+      ).toBe(true);
+    });
+  },
+);
@@ -0,0 +1,298 @@
+import type { CalendarData, CalendarEntry, ExtraData } from "./types";
+
+// ============================================================
+// 運行カレンダー
+// calendar.json と extra.json の例外日から、日付ごとの運行サービスを判定する
+// 日付・曜日は端末のタイムゾーンによらず日本時間 (Asia/Tokyo) で扱う
+// ============================================================
+
+/** 日本時間の UTC からのオフセット (ms)。夏時間はない */
+const TOKYO_OFFSET_MS = 9 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 期限切れフォールバックの対象とする最短の有効期間（日）
+ * 通年ダイヤ（有効期間が長いもの）は期限切れ後も同じ曜日パターンで運行しているとみなす。
+ * 臨時ダイヤなど短期間のサービスは期限切れ後は運行しないものとして扱う
+ */
+export const EXPIRED_FALLBACK_MIN_DAYS = 20;
+
+/** 日本時間での日付と時刻 */
+export interface TokyoDateTime {
+  /** YYYYMMDD */
+  ymd: string;
+  /** GTFS の曜日インデックス（月=0 〜 日=6） */
+  dayIndex: number;
+  hours: number;
+  minutes: number;
+  seconds: number;
+}
+
+/** Date を日本時間の日付・時刻に変換 */
+export function toTokyoDateTime(date: Date): TokyoDateTime {
+  const t = new Date(date.getTime() + TOKYO_OFFSET_MS);
+  return {
+    ymd:
+      t.getUTCFullYear() +
+      String(t.getUTCMonth() + 1).padStart(2, "0") +
+      String(t.getUTCDate()).padStart(2, "0"),
+    dayIndex: (t.getUTCDay() + 6) % 7,
+    hours: t.getUTCHours(),
+    minutes: t.getUTCMinutes(),
+    seconds: t.getUTCSeconds(),
+  };
+}
+
+/** YYYYMMDD を日本時間 0:00 の Date に変換 */
+export function ymdToDate(ymd: string): Date {
+  return new Date(
+    Date.UTC(
+      Number(ymd.slice(0, 4)),
+      Number(ymd.slice(4, 6)) - 1,
+      Number(ymd.slice(6, 8)),
+    ) - TOKYO_OFFSET_MS,
+  );
+}
+
+/** YYYYMMDD を "YYYY/M/D" 形式に変換 */
+export function formatYmd(ymd: string): string {
+  return `${ymd.slice(0, 4)}/${Number(ymd.slice(4, 6))}/${Number(ymd.slice(6, 8))}`;
+}
+
+/** 日付の判定結果の理由 */
+export type ServiceDayReason =
+  | "exception" // 例外日（追加運行・運休）
+  | "calendar" // 有効期間内の曜日パターン
+  | "expired_fallback" // 期限切れ後の曜日パターン
+  | "none"; // 運行しない
+
+/** カレンダーデータの有効期間 */
+export interface CalendarValidity {
+  /**
+   * 有効期間の開始日 (YYYYMMDD)。データセットの情報がなければ全サービスのうち最も早い運行開始日
+   * データがなければ null
+   */
+  validFrom: string | null;
+  /**
+   * 有効期間の終了日 (YYYYMMDD)。データセットの情報がなければ全サービスのうち最も遅い運行終了日
+   * データがなければ null
+   */
+  validUntil: string | null;
+  /** 指定日が有効期間を過ぎているか */
+  isExpired: boolean;
+  /** 指定日が有効期間の開始前か */
+  isNotYetValid: boolean;
+  /** 指定日がどのサービスの運行期間にも含まれないか（例外日は考慮しない） */
+  isOutOfRange: boolean;
+  /** データの版。データセットの情報がなければ null */
+  feedVersion: string | null;
+  /** データの生成日時 (ISO 8601)。データセットの情報がなければ null */
+  generatedAt: string | null;
+  /**
+   * ダイヤ改正日 (YYYYMMDD)。通年ダイヤのうち最も遅い運行開始日
+   * 表示中のデータの版として使う。データがなければ null
+   */
+  revisedOn: string | null;
+}
+
+export interface ServiceCalendarOptions {
+  /** 期限切れのサービスを曜日パターンで運行しているとみなすか（既定: true） */
+  expiredFallback?: boolean;
+}
+
+export interface ServiceCalendar {
+  /** 指定日にサービスが運行するか */
+  isRunning(serviceId: string, date: Date): boolean;
+  /** 指定日の判定理由 */
+  explain(serviceId: string, date: Date): ServiceDayReason;
+  /** 指定日に運行する全サービス */
+  getServicesOn(date: Date): string[];
+  /** from 以降（当日を含む）で次にサービスが運行する日。maxDays 日以内になければ null */
+  getNextServiceDate(
+    serviceId: string,
+    from: Date,
+    maxDays?: number,
+  ): Date | null;
+  /** 指定日がカレンダーデータの有効期間内か */
+  getValidity(date: Date): CalendarValidity;
+}
+
+/** 曜日パターンで運行するか */
+function runsOnDay(entry: CalendarEntry, dayIndex: number): boolean {
+  return entry.days[dayIndex] === "1";
+}
+
+/** サービスの有効期間（日） */
+function durationDays(entry: CalendarEntry): number {
+  return (
+    (ymdToDate(entry.end).getTime() - ymdToDate(entry.start).getTime()) / DAY_MS
+  );
+}
+
+/**
+ * 運行カレンダーを作成する
+ * 例外日は日付 → サービス → 例外タイプで索引化し、判定ごとの線形探索を避ける
+ */
+export function createServiceCalendar(
+  calendar: CalendarData,
+  extra: ExtraData,
+  options: ServiceCalendarOptions = {},
+): ServiceCalendar {
+  const expiredFallback = options.expiredFallback ?? true;
+
+  const exceptions = new Map<string, Map<string, string>>();
+  (extra.calendar_dates || []).forEach((d) => {
+    if (!exceptions.has(d.date)) exceptions.set(d.date, new Map());
+    exceptions.get(d.date)!.set(d.service_id, d.exception_type);
+  });
+
+  const entries = Object.values(calendar);
+  const dataset = extra.dataset;
+  const validFrom =
+    dataset?.valid_from ||
+    entries.reduce<string | null>(
+      (min, entry) => (min === null || entry.start < min ? entry.start : min),
+      null,
+    );
+  const validUntil =
+    dataset?.valid_to ||
+    entries.reduce<string | null>(
+      (max, entry) => (max === null || entry.end > max ? entry.end : max),
+      null,
+    );
+  const revisedOn = entries
+    .filter((entry) => durationDays(entry) >= EXPIRED_FALLBACK_MIN_DAYS)
+    .reduce<string | null>(
+      (max, entry) => (max === null || entry.start > max ? entry.start : max),
+      null,
+    );
+
+  const explainDay = (
+    serviceId: string,
+    ymd: string,
+    dayIndex: number,
+  ): ServiceDayReason => {
+    const exception = exceptions.get(ymd)?.get(serviceId);
+    if (exception) return exception === "1" ? "exception" : "none";
+
+    const entry = calendar[serviceId];
+    if (!entry) return "none";
+
+    if (ymd >= entry.start && ymd <= entry.end) {
+      return runsOnDay(entry, dayIndex) ? "calendar" : "none";
+    }
+
+    if (
+      expiredFallback &&
+      ymd > entry.end &&
+      durationDays(entry) >= EXPIRED_FALLBACK_MIN_DAYS &&
+      runsOnDay(entry, dayIndex)
+    ) {
+      return "expired_fallback";
+    }
+
+    return "none";
+  };
+
+  const explain = (serviceId: string, date: Date) => {
+    const { ymd, dayIndex } = toTokyoDateTime(date);
+    return explainDay(serviceId, ymd, dayIndex);
+  };
+
+  return {
+    isRunning(serviceId, date) {
+      return explain(serviceId, date) !== "none";
+    },
+
+    explain,
+
+    getServicesOn(date) {
+      const { ymd, dayIndex } = toTokyoDateTime(date);
+      const ids = new Set([
+        ...Object.keys(calendar),
+        ...(exceptions.get(ymd)?.keys() || []),
+      ]);
+      return [...ids].filter(
+        (sid) => explainDay(sid, ymd, dayIndex) !== "none",
+      );
+    },
+
+    getNextServiceDate(serviceId, from, maxDays = 366) {
+      for (let i = 0; i <= maxDays; i++) {
+        const date = new Date(from.getTime() + i * DAY_MS);
+        if (explain(serviceId, date) !== "none") {
+          return ymdToDate(toTokyoDateTime(date).ymd);
+        }
+      }
+      return null;
+    },
+
+    getValidity(date) {
+      const { ymd } = toTokyoDateTime(date);
+      return {
+        validFrom,
+        validUntil,
+        isExpired: validUntil !== null && ymd > validUntil,
+        isNotYetValid: validFrom !== null && ymd < validFrom,
+        isOutOfRange:
+          entries.length > 0 &&
+          !entries.some((entry) => ymd >= entry.start && ymd <= entry.end),
+        revisedOn,
+        feedVersion: dataset?.feed_version || null,
+        generatedAt: dataset?.generated_at || null,
+      };
+    },
+  };
+}
+
+// 同じデータに対する索引の作り直しを避けるためのキャッシュ
+const calendarCache = new WeakMap<
+  CalendarData,
+  { extra: ExtraData; calendar: ServiceCalendar }
+>();
+
+/** データに対応する運行カレンダーを返す（同じデータなら作成済みのものを再利用） */
+export function getServiceCalendar(
+  calendar: CalendarData,
+  extra: ExtraData,
+): ServiceCalendar {
+  const cached = calendarCache.get(calendar);
+  if (cached && cached.extra === extra) return cached.calendar;
+  const created = createServiceCalendar(calendar, extra);
+  calendarCache.set(calendar, { extra, calendar: created });
+  return created;
+}
+
+// ============================================================
+// 運行日
+// GTFS の時刻は運行日 0:00 からの経過時間で、深夜便は 24:00 以降の時刻を持つ
+// 0 時を過ぎても前日の運行日の便はまだ走っているため、両方の運行日を見る
+// ============================================================
+
+/** 1日の秒数 */
+export const DAY_SEC = 24 * 60 * 60;
+
+/** 表示中の日時から見た運行日 */
+export interface ServiceDay {
+  /** 運行日（日本時間 0:00） */
+  date: Date;
+  /** 表示日から見た運行日のずれ（前日の運行日なら -1） */
+  dayOffset: number;
+  /** 運行日 0:00 から数えた表示時刻の秒数（前日の運行日では 24 時以降） */
+  nowSec: number;
+}
+
+/** 指定時刻に便が走りうる運行日（当日と前日） */
+export function getActiveServiceDays(date: Date): ServiceDay[] {
+  const { ymd, hours, minutes, seconds } = toTokyoDateTime(date);
+  const today = ymdToDate(ymd);
+  const nowSec = hours * 3600 + minutes * 60 + seconds;
+  return [
+    { date: today, dayOffset: 0, nowSec },
+    {
+      date: new Date(today.getTime() - DAY_MS),
+      dayOffset: -1,
+      nowSec: nowSec + DAY_SEC,
+    },
+  ];
+}
@@ -0,0 +1,11 @@
+// ============================================================
+// Service Worker の登録（public/sw.js。ビルド時に事前キャッシュの一覧と版を書き込む）
+// 開発サーバーではキャッシュが変更の反映を妨げるため、本番ビルドのみ登録する
+// ============================================================
+
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  navigator.serviceWorker.register("/sw.js").catch((e) => {
+    console.error("Service Worker の登録に失敗しました:", e);
+  });
+}
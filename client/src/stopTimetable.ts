@@ -0,0 +1,232 @@
+import type { CalendarData, CalendarEntry, TimetablesData } from "./types";
+import type { MessageKey } from "./i18n";
+import { t } from "./i18n";
+import { formatHeadsign, timeToSec } from "./utils";
+import { toTokyoDateTime } from "./serviceCalendar";
+
+// ============================================================
+// バス停時刻表（紙の時刻表形式）
+// 時 × 分 の表を平日・土曜・日曜祝日ごとに組み立てる
+// ============================================================
+
+/** 時刻表の曜日区分 */
+export type DayType = "weekday" | "saturday" | "holiday";
+
+export const DAY_TYPES: DayType[] = ["weekday", "saturday", "holiday"];
+
+/** 曜日区分の表示名の文言キー */
+export const DAY_TYPE_LABELS: Record<DayType, MessageKey> = {
+  weekday: "timetable.weekday",
+  saturday: "timetable.saturday",
+  holiday: "timetable.holiday",
+};
+
+/** 曜日区分ごとに参照する days のインデックス（月=0 〜 日=6） */
+const DAY_TYPE_INDICES: Record<DayType, number[]> = {
+  weekday: [0, 1, 2, 3, 4],
+  saturday: [5],
+  holiday: [6],
+};
+
+/** 無印以外の系統・行先に付ける記号 */
+const MARKERS = "アイウエオカキクケコサシスセソタチツテトナニヌネノ".split("");
+
+/** 時刻表の1エントリ（1便） */
+export interface GridEntry {
+  minute: string;
+  marker: string;
+  routeId: string;
+  tripId: string;
+  /** 実際に停車するのりば */
+  stopId: string;
+}
+
+/** 時刻表の1行（1時間分） */
+export interface GridRow {
+  hour: number;
+  entries: GridEntry[];
+}
+
+/** 記号の凡例 */
+export interface GridLegendItem {
+  /** 空文字は無印 */
+  marker: string;
+  routeId: string;
+  headsign: string;
+  via: string;
+  count: number;
+}
+
+export interface TimetableGrid {
+  rows: GridRow[];
+  legend: GridLegendItem[];
+}
+
+/** サービスが運行する曜日区分を calendar の days から求める */
+export function getServiceDayTypes(entry: CalendarEntry): DayType[] {
+  return DAY_TYPES.filter((type) =>
+    DAY_TYPE_INDICES[type].some((i) => entry.days[i] === "1"),
+  );
+}
+
+/** 指定したバス停に停車する便がある曜日区分（タブに表示するもの） */
+export function getAvailableDayTypes(
+  timetables: TimetablesData,
+  stopIds: string[],
+  calendar: CalendarData,
+): DayType[] {
+  const types = new Set<DayType>();
+  Object.values(timetables).forEach((trips) =>
+    Object.values(trips).forEach((trip) => {
+      const entry = calendar[trip.service_id];
+      if (!entry || !trip.stops.some((s) => stopIds.includes(s.stop_id))) {
+        return;
+      }
+      getServiceDayTypes(entry).forEach((t) => types.add(t));
+    }),
+  );
+  return DAY_TYPES.filter((t) => types.has(t));
+}
+
+/**
+ * 曜日区分の時刻表を組み立てる
+ * ダイヤ改正前後のサービスが重複しないよう、date が有効期間内のサービスを優先する
+ */
+export function buildTimetableGrid(
+  timetables: TimetablesData,
+  stopIds: string[],
+  calendar: CalendarData,
+  dayType: DayType,
+  date: Date,
+): TimetableGrid {
+  const { ymd } = toTokyoDateTime(date);
+
+  const serviceIds = Object.keys(calendar).filter((sid) =>
+    getServiceDayTypes(calendar[sid]).includes(dayType),
+  );
+  const currentIds = serviceIds.filter(
+    (sid) => calendar[sid].start <= ymd && ymd <= calendar[sid].end,
+  );
+  const services = new Set(currentIds.length > 0 ? currentIds : serviceIds);
+
+  // 停車便を収集（終点での到着は除く）
+  const departures: {
+    time: string;
+    routeId: string;
+    tripId: string;
+    stopId: string;
+    headsign: string;
+    via: string;
+  }[] = [];
+  Object.keys(timetables).forEach((routeId) => {
+    Object.keys(timetables[routeId]).forEach((tripId) => {
+      const trip = timetables[routeId][tripId];
+      if (!services.has(trip.service_id)) return;
+      const st = trip.stops
+        .slice(0, -1)
+        .find((s) => stopIds.includes(s.stop_id));
+      if (!st) return;
+      departures.push({
+        time: st.time,
+        routeId,
+        tripId,
+        stopId: st.stop_id,
+        headsign: trip.headsign,
+        via: trip.via,
+      });
+    });
+  });
+  departures.sort((a, b) => timeToSec(a.time) - timeToSec(b.time));
+
+  // 系統・行先ごとの便数を数え、最も多いものを無印、それ以外に記号を付ける
+  const legendMap = new Map<string, GridLegendItem>();
+  departures.forEach((d) => {
+    const key = `${d.routeId}|${d.headsign}|${d.via}`;
+    const item = legendMap.get(key);
+    if (item) {
+      item.count++;
+    } else {
+      legendMap.set(key, {
+        marker: "",
+        routeId: d.routeId,
+        headsign: d.headsign,
+        via: d.via,
+        count: 1,
+      });
+    }
+  });
+  const legend = [...legendMap.values()].sort((a, b) => b.count - a.count);
+  legend.forEach((item, i) => {
+    item.marker = i === 0 ? "" : MARKERS[i - 1] || String(i);
+  });
+
+  const rowMap = new Map<number, GridRow>();
+  departures.forEach((d) => {
+    // "8:15:00" のように桁がそろわない時刻もあるため秒数から求める
+    const sec = timeToSec(d.time);
+    const hour = Math.floor(sec / 3600);
+    const marker = legendMap.get(`${d.routeId}|${d.headsign}|${d.via}`)!.marker;
+    if (!rowMap.has(hour)) rowMap.set(hour, { hour, entries: [] });
+    rowMap.get(hour)!.entries.push({
+      minute: String(Math.floor((sec % 3600) / 60)).padStart(2, "0"),
+      marker,
+      routeId: d.routeId,
+      tripId: d.tripId,
+      stopId: d.stopId,
+    });
+  });
+
+  return {
+    rows: [...rowMap.values()].sort((a, b) => a.hour - b.hour),
+    legend,
+  };
+}
+
+/** 時の見出し（24 時以降の深夜便は "翌0" のように表示） */
+export function formatGridHour(hour: number): string {
+  return hour >= 24 ? t("time.nextDay", { time: hour - 24 }) : String(hour);
+}
+
+/** CSV の1セルをエスケープ */
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * 時刻表を CSV に変換する（1行 = 1時間、記号は分の前に付ける）
+ * 凡例は表の後ろに続ける
+ */
+export function timetableGridToCsv(
+  grid: TimetableGrid,
+  title: string,
+  routeNames: Record<string, string>,
+): string {
+  const lines: string[][] = [
+    [title],
+    [t("timetable.hour"), t("timetable.minute")],
+  ];
+  grid.rows.forEach((row) => {
+    lines.push([
+      formatGridHour(row.hour),
+      ...row.entries.map((e) => `${e.marker}${e.minute}`),
+    ]);
+  });
+  lines.push(
+    [],
+    [
+      t("timetable.marker"),
+      t("timetable.route"),
+      t("timetable.headsign"),
+      t("timetable.via"),
+    ],
+  );
+  grid.legend.forEach((item) => {
+    lines.push([
+      item.marker || t("timetable.noMarker"),
+      routeNames[item.routeId] || item.routeId,
+      formatHeadsign(item.headsign),
+      item.via,
+    ]);
+  });
+  return lines.map((cells) => cells.map(csvCell).join(",")).join("\r\n");
+}
@@ -0,0 +1,53 @@
+// ============================================================
+// テスト用の補助関数（*.test.ts から使う）
+// ============================================================
+
+/** 日本時間の日時 ("YYYY-MM-DDTHH:MM") */
+export const jst = (dateTime: string) => new Date(`${dateTime}:00+09:00`);
+
+// ==================== Protocol Buffers ====================
+// GTFS-Realtime のテストで FeedMessage を組み立てる（各関数はフィールド1つ分のバイト列を返す）
+
+/** varint（負の値は 64 bit の2の補数で 10 バイトになる） */
+function varintBytes(value: number | bigint): number[] {
+  let v = BigInt.asUintN(64, BigInt(value));
+  const bytes: number[] = [];
+  while (v >= 0x80n) {
+    bytes.push(Number(v & 0x7fn) | 0x80);
+    v >>= 7n;
+  }
+  bytes.push(Number(v));
+  return bytes;
+}
+
+/** ワイヤータイプ 0 (varint) のフィールド */
+export function pbVarint(field: number, value: number | bigint): number[] {
+  return [...varintBytes(field * 8), ...varintBytes(value)];
+}
+
+/** ワイヤータイプ 5 (fixed32) の float のフィールド */
+export function pbFloat(field: number, value: number): number[] {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setFloat32(0, value, true);
+  return [...varintBytes(field * 8 + 5), ...bytes];
+}
+
+/** ワイヤータイプ 2 (length-delimited) の文字列のフィールド */
+export function pbString(field: number, value: string): number[] {
+  const bytes = new TextEncoder().encode(value);
+  return [
+    ...varintBytes(field * 8 + 2),
+    ...varintBytes(bytes.length),
+    ...bytes,
+  ];
+}
+
+/** ワイヤータイプ 2 (length-delimited) の埋め込みメッセージのフィールド */
+export function pbMessage(field: number, ...fields: number[][]): number[] {
+  const bytes = fields.flat();
+  return [
+    ...varintBytes(field * 8 + 2),
+    ...varintBytes(bytes.length),
+    ...bytes,
+  ];
+}
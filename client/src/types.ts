@@ -30,14 +30,46 @@ export interface CalendarDateException {
   exception_type: string;
 }
 
+/** データセットの版と有効期間 */
+export interface DatasetMetadata {
+  /** データの版（feed_info.txt の feed_version、なければ有効期間の開始日） */
+  feed_version: string;
+  /** 有効期間の開始日 (YYYYMMDD) */
+  valid_from: string;
+  /** 有効期間の終了日 (YYYYMMDD) */
+  valid_to: string;
+  /** データの生成日時 (ISO 8601) */
+  generated_at: string;
+}
+
+/** 1事業者の情報 */
+export interface AgencyInfo {
+  /** 事業者名 */
+  name: string;
+  /** 事業者の色（HEX、# なし）。路線カラーのない路線や絞り込みの表示に使う */
+  color: string;
+}
+
+/** 事業者ID → AgencyInfo */
+export type AgenciesData = Record<string, AgencyInfo>;
+
 /** extra.json 全体 */
 export interface ExtraData {
   /** 営業所情報: office_id → 営業所名 */
   offices: Record<string, string>;
   /** カレンダー例外日一覧 */
   calendar_dates: CalendarDateException[];
+  /** データセットの版と有効期間（古いデータには含まれない） */
+  dataset?: DatasetMetadata;
+  /** 事業者ごとの情報（古いデータには含まれない） */
+  agencies?: AgenciesData;
+  /** バス停名・行先の訳（translations.txt から作る。古いデータには含まれない） */
+  translations?: NameTranslations;
 }
 
+/** バス停名・行先の訳: 元の名前 → 言語コード（GTFS の language）→ 訳 */
+export type NameTranslations = Record<string, Record<string, string>>;
+
 // --- routes.json ---
 
 /** 1路線の基本情報 */
@@ -46,6 +78,20 @@ export interface RouteInfo {
   short_name: string;
   /** 路線カラー（HEX、# なし） */
   color: string;
+  /** 営業所ID（静的 JSON のみ。API では省略） */
+  office_id?: string;
+  /** 事業者ID（extra.json の agencies キーに対応。古いデータには含まれない） */
+  agency_id?: string;
+  /** 行先・経由地の一覧（行先での検索に使う。古いデータには含まれない） */
+  headsigns?: RouteHeadsign[];
+}
+
+/** 路線の行先と経由地の組み合わせ */
+export interface RouteHeadsign {
+  /** 行先表示 */
+  headsign: string;
+  /** 経由地（空文字の場合あり） */
+  via: string;
 }
 
 /** routes.json 全体: route_id → RouteInfo */
@@ -65,6 +111,13 @@ export interface StopInfo {
   lng: number;
   /** のりば番号（空文字の場合あり） */
   platform: string;
+  /**
+   * 停車する便の事業者ID（古いデータには含まれない）
+   * 複数のデータで同じ場所の同名バス停はまとめるため、複数になることがある
+   */
+  agency_ids?: string[];
+  /** 停車する便の数（全運行日の合計。検索の順位付けに使う。古いデータには含まれない） */
+  trip_count?: number;
 }
 
 /** stops.json 全体: stop_id → StopInfo */
@@ -105,6 +158,8 @@ export interface TripInfo {
   via: string;
   /** 停車バス停の時刻リスト */
   stops: TripStop[];
+  /** 事業者ID（古いデータには含まれない） */
+  agency_id?: string;
 }
 
 /** timetables.json 全体: route_id → trip_id → TripInfo */
@@ -139,6 +194,15 @@ export interface BusPosition {
   headsign: string;
   position: [number, number]; // [lng, lat]
   color: string;
+  /**
+   * 経路形状のキー（停車バス停IDを "|" でつないだもの。shapes.json のキー）
+   * 時刻表にない、リアルタイム情報のみの車両にはない
+   */
+  shape_key?: string;
+  /** 遅れ (秒)。リアルタイム情報（GTFS-RT）で分かる場合のみ */
+  delay?: number | null;
+  /** 位置がリアルタイム情報（車両位置）によるものか */
+  realtime?: boolean;
 }
 
 /** サーバーから返される便詳細情報（全停車バス停情報を含む） */
@@ -153,6 +217,16 @@ export interface TripDetailResponse {
   office_name: string;
 }
 
+/** サーバーから返される路線詳細情報（全便・停車バス停・経路形状） */
+export interface RouteDetailResponse {
+  route_id: string;
+  route_name: string;
+  route_color: string;
+  trips: Record<string, TripInfo>; // trip_id → TripInfo
+  stops: StopsData; // いずれかの便が停車する全バス停情報
+  shapes: ShapesData; // この路線の全経路パターン
+}
+
 /** サーバーから返されるバス停時刻表情報 */
 export interface StopTimetableResponse {
   stop_id: string;
@@ -160,6 +234,36 @@ export interface StopTimetableResponse {
   timetables: TimetablesData; // このバス停に停車する便のみ
 }
 
+/** 経路検索結果の1乗車区間 */
+export interface JourneyLeg {
+  route_id: string;
+  trip_id: string;
+  headsign: string;
+  via: string;
+  /** 乗車バス停ID */
+  from_stop_id: string;
+  /** 降車バス停ID */
+  to_stop_id: string;
+  /** 乗車時刻 (HH:MM:SS) */
+  departure: string;
+  /** 降車時刻 (HH:MM:SS) */
+  arrival: string;
+  /** 乗車前に歩く距離 (m)。同じのりばでの乗り継ぎは 0 */
+  walk_meters: number;
+}
+
+/** 経路検索結果の1経路（乗り継ぎを含む） */
+export interface Itinerary {
+  legs: JourneyLeg[];
+  /** 出発時刻 (HH:MM:SS) */
+  departure: string;
+  /** 到着時刻 (HH:MM:SS) */
+  arrival: string;
+  /** 乗り継ぎ回数 */
+  transfers: number;
+  stops: StopsData; // この経路に登場する全バス停情報
+}
+
 // --- 全データをまとめた型 ---
 
 /** アプリケーション全体で使用するデータの集合 */
@@ -171,3 +275,6 @@ export interface AppData {
   routes: RoutesData;
   extra: ExtraData;
 }
+
+/** 起動時に読み込む必須データ */
+export type EssentialData = Pick<AppData, "calendar" | "routes" | "extra">;
@@ -0,0 +1,107 @@
+import type { PanelTrip } from "./types";
+
+// ============================================================
+// URL と表示状態の同期
+// ?stop=<stopId>                     : バス停の時刻表
+// ?trip=<routeId>/<tripId>&from=<id> : 便詳細（from はハイライトするバス停）
+// ?board=<stopId>                    : 発車案内板のキオスク表示
+// #<zoom>/<lat>/<lng>                : 地図の表示位置
+// ============================================================
+
+/** 地図の表示位置 */
+export interface MapView {
+  center: [number, number];
+  zoom: number;
+}
+
+/** URL から復元する表示状態 */
+export interface UrlState {
+  stopId: string | null;
+  trip: PanelTrip | null;
+  view: MapView | null;
+  /** 発車案内板をキオスク表示するか（stopId のバス停を表示） */
+  kiosk: boolean;
+}
+
+/** 選択状態を表すクエリパラメータ（それ以外の ?source= などは保持する） */
+const SELECTION_PARAMS = ["stop", "trip", "from"];
+
+/** #zoom/lat/lng を解析（不正な値なら null） */
+function parseMapView(hash: string): MapView | null {
+  const parts = hash.replace(/^#/, "").split("/").map(Number);
+  if (parts.length !== 3 || parts.some((v) => !Number.isFinite(v))) {
+    return null;
+  }
+  const [zoom, lat, lng] = parts;
+  return { center: [lng, lat], zoom };
+}
+
+/** 現在の URL から表示状態を読み取る */
+export function readUrlState(): UrlState {
+  const params = new URLSearchParams(window.location.search);
+  const view = parseMapView(window.location.hash);
+
+  const boardParam = params.get("board");
+  if (boardParam) {
+    return { stopId: boardParam, trip: null, view, kiosk: true };
+  }
+
+  const tripParam = params.get("trip");
+  const slash = tripParam ? tripParam.indexOf("/") : -1;
+  if (tripParam && slash > 0) {
+    return {
+      stopId: null,
+      trip: {
+        routeId: tripParam.substring(0, slash),
+        tripId: tripParam.substring(slash + 1),
+        highlightId: params.get("from"),
+      },
+      view,
+      kiosk: false,
+    };
+  }
+
+  return { stopId: params.get("stop"), trip: null, view, kiosk: false };
+}
+
+/**
+ * 選択状態を URL に反映する
+ * 選択が変わった場合のみ履歴に追加する（戻る・進むで直前の選択に戻れるように）
+ */
+export function writeSelection(
+  stopId: string | null,
+  trip: PanelTrip | null,
+): void {
+  const params = new URLSearchParams(window.location.search);
+  SELECTION_PARAMS.forEach((key) => params.delete(key));
+
+  if (trip) {
+    params.set("trip", `${trip.routeId}/${trip.tripId}`);
+    if (trip.highlightId) params.set("from", trip.highlightId);
+  } else if (stopId) {
+    params.set("stop", stopId);
+  }
+
+  const query = params.toString();
+  const search = query ? `?${query}` : "";
+  if (search === window.location.search) return;
+
+  window.history.pushState(
+    null,
+    "",
+    `${window.location.pathname}${search}${window.location.hash}`,
+  );
+}
+
+/** 地図の表示位置を URL のハッシュに反映する（履歴は増やさない） */
+export function writeMapView(view: MapView): void {
+  const [lng, lat] = view.center;
+  const hash = `#${view.zoom.toFixed(2)}/${lat.toFixed(5)}/${lng.toFixed(5)}`;
+  if (hash === window.location.hash) return;
+
+  window.history.replaceState(
+    window.history.state,
+    "",
+    `${window.location.pathname}${window.location.search}${hash}`,
+  );
+}
@@ -1,4 +1,22 @@
-import type { CalendarData, ExtraData, ShapesData } from "./types";
+import type {
+  AppData,
+  Arrival,
+  CalendarData,
+  ExtraData,
+  RoutesData,
+  ShapesData,
+  StopInfo,
+  StopsData,
+  TripInfo,
+} from "./types";
+import type { ServiceDay } from "./serviceCalendar";
+import { t, translateName } from "./i18n";
+import {
+  DAY_SEC,
+  getActiveServiceDays,
+  getServiceCalendar,
+  toTokyoDateTime,
+} from "./serviceCalendar";
 
 // ==================== ユーティリティ ====================
 
@@ -9,58 +27,139 @@ export function timeToSec(t: string): number {
   return parts[0] * 3600 + parts[1] * 60 + (parts[2] || 0);
 }
 
-/** 行先表示のフォーマット */
+/** 秒数を "HH:MM" 形式の時刻文字列に変換 */
+export function secToTime(sec: number): string {
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  return String(h).padStart(2, "0") + ":" + String(m).padStart(2, "0");
+}
+
+/** 2地点間の距離 (m) を計算（ハバーサイン公式） */
+export function distanceMeters(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number,
+): number {
+  const R = 6371000;
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+/** 行先表示のフォーマット（表示言語に合わせ、訳があれば訳した行先にする） */
 export function formatHeadsign(headsign: string): string {
-  if (headsign.includes("循環")) return headsign;
-  return headsign + "行";
+  if (headsign.includes("循環")) return translateName(headsign);
+  return t("headsign", { name: translateName(headsign) });
+}
+
+// ==================== 表示時刻 ====================
+
+/**
+ * 表示中の日時を返す
+ * timeOffset はタイムトラベルで指定した日時と実時刻との差 (ms)。0 なら現在時刻
+ */
+export function getDisplayNow(timeOffset: number): Date {
+  return new Date(Date.now() + timeOffset);
+}
+
+/** Date を日本時間の "HH:MM:SS" 形式の時刻文字列に変換 */
+export function toTimeString(date: Date): string {
+  const { hours, minutes, seconds } = toTokyoDateTime(date);
+  return [hours, minutes, seconds]
+    .map((v) => String(v).padStart(2, "0"))
+    .join(":");
+}
+
+/** Date を日本時間の 0時からの秒数に変換 */
+export function dateToSec(date: Date): number {
+  const { hours, minutes, seconds } = toTokyoDateTime(date);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+/**
+ * GTFS 時刻を表示用の "HH:MM" に変換
+ * 24 時以降（運行日の翌日）の時刻は表示言語に合わせて "翌1:10"（英語は "1:10 (+1)"）のように表示する
+ */
+export function formatServiceTime(time: string): string {
+  // "8:15:00" のように桁がそろわない時刻もあるため秒数から求める
+  const sec = timeToSec(time);
+  const m = String(Math.floor((sec % 3600) / 60)).padStart(2, "0");
+  if (sec < DAY_SEC) {
+    return `${String(Math.floor(sec / 3600)).padStart(2, "0")}:${m}`;
+  }
+  const h = Math.floor((sec - DAY_SEC) / 3600);
+  return t("time.nextDay", { time: `${h}:${m}` });
+}
+
+/** 日付（日本時間）を表示言語に合わせた "M/D(曜)" 形式に変換 */
+export function formatMonthDay(date: Date): string {
+  const { ymd, dayIndex } = toTokyoDateTime(date);
+  return t("date.monthDay", {
+    month: Number(ymd.slice(4, 6)),
+    day: Number(ymd.slice(6, 8)),
+    weekday: t("date.weekdays").split(",")[dayIndex],
+  });
+}
+
+/**
+ * GTFS 時刻を days 日ずらした運行日基準の "HH:MM:SS" に変換
+ * 前日の運行日の深夜便を当日基準で扱う場合は -1
+ */
+export function shiftServiceTime(time: string, days: number): string {
+  const sec = timeToSec(time) + days * DAY_SEC;
+  return [Math.floor(sec / 3600), Math.floor((sec % 3600) / 60), sec % 60]
+    .map((v) => String(v).padStart(2, "0"))
+    .join(":");
 }
 
 // ==================== サービス判定 ====================
 
+/**
+ * 指定日（省略時は今日）にサービスが運行するか判定
+ * タイムトラベル表示中は表示中の日時を渡す
+ * 判定の詳細（例外日・期限切れの扱い）は serviceCalendar.ts を参照
+ * 期限切れ後も曜日パターンで運行するとみなすため、有効期間外であることは
+ * DataValidityBanner で別途知らせる
+ */
 export function isServiceRunningToday(
   serviceId: string,
   calendarData: CalendarData,
   extraData: ExtraData,
+  now: Date = new Date(),
 ): boolean {
-  const now = new Date();
-  const ymd =
-    now.getFullYear() +
-    String(now.getMonth() + 1).padStart(2, "0") +
-    String(now.getDate()).padStart(2, "0");
-
-  const exception = (extraData.calendar_dates || []).find(
-    (d) => d.date === ymd && d.service_id === serviceId,
-  );
-  if (exception) return exception.exception_type === "1";
-
-  const cal = calendarData[serviceId];
-  if (!cal) return false;
-
-  if (ymd >= cal.start && ymd <= cal.end) {
-    const gtfsDayIdx = (now.getDay() + 6) % 7;
-    return cal.days[gtfsDayIdx] === "1";
-  }
+  return getServiceCalendar(calendarData, extraData).isRunning(serviceId, now);
+}
 
-  // 期限切れフォールバック
-  const startDate = new Date(
-    Number(cal.start.slice(0, 4)),
-    Number(cal.start.slice(4, 6)) - 1,
-    Number(cal.start.slice(6, 8)),
+/**
+ * 便が属する運行日
+ * 当日と前日の運行日のうち便が運行するもので、表示時刻に最も近い回（走行中ならその回）を選ぶ
+ * どちらの運行日にも運行しなければ当日
+ */
+export function getTripServiceDay(
+  trip: TripInfo,
+  calendarData: CalendarData,
+  extraData: ExtraData,
+  now: Date,
+): ServiceDay {
+  const firstSec = timeToSec(trip.stops[0]?.time);
+  const lastSec = timeToSec(trip.stops[trip.stops.length - 1]?.time);
+  const calendar = getServiceCalendar(calendarData, extraData);
+  // 走行中なら 0、それ以外は発車までの時間または到着してからの時間
+  const distance = (day: ServiceDay) =>
+    Math.max(firstSec - day.nowSec, day.nowSec - lastSec, 0);
+  const days = getActiveServiceDays(now);
+  const running = days.filter((day) =>
+    calendar.isRunning(trip.service_id, day.date),
   );
-  const endDate = new Date(
-    Number(cal.end.slice(0, 4)),
-    Number(cal.end.slice(4, 6)) - 1,
-    Number(cal.end.slice(6, 8)),
+  if (running.length === 0) return days[0];
+  return running.reduce((best, day) =>
+    distance(day) < distance(best) ? day : best,
   );
-  const durationDays =
-    (endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24);
-
-  if (durationDays >= 20) {
-    const gtfsDayIdx = (now.getDay() + 6) % 7;
-    return cal.days[gtfsDayIdx] === "1";
-  }
-
-  return false;
 }
 
 // ==================== バス位置計算 ====================
@@ -91,6 +190,115 @@ export function calculateBusPos(
   return null;
 }
 
+// ==================== バス停検索 ====================
+
+/** 同名バス停をまとめた検索結果の1件 */
+export interface StopGroup {
+  /** 代表バス停ID */
+  id: string;
+  name: string;
+  yomi: string;
+  lat: number;
+  lng: number;
+}
+
+/** カタカナをひらがなに変換 */
+export function katakanaToHiragana(str: string): string {
+  return str.replace(/[\u30A1-\u30F6]/g, (match) => {
+    const chr = match.charCodeAt(0) - 0x60;
+    return String.fromCharCode(chr);
+  });
+}
+
+/** 指定したバス停と同じ名前を持つ全バス停（のりば）のIDを返す */
+export function getSameNameStopIds(stops: StopsData, name: string): string[] {
+  return Object.keys(stops).filter((id) => stops[id].name === name);
+}
+
+/** 近くのバス停（同名バス停をまとめたもの） */
+export interface NearbyStopGroup extends StopGroup {
+  /** 最も近いのりばまでの直線距離 (m) */
+  meters: number;
+}
+
+/**
+ * 指定地点に近い順にバス停を返す（同名バス停は最も近いのりばで代表する）
+ */
+export function getNearbyStopGroups(
+  stops: StopsData,
+  lat: number,
+  lng: number,
+  limit = 5,
+): NearbyStopGroup[] {
+  const groups: Record<string, NearbyStopGroup> = {};
+  Object.keys(stops).forEach((id) => {
+    const s = stops[id];
+    const meters = distanceMeters(lat, lng, s.lat, s.lng);
+    if (!groups[s.name] || meters < groups[s.name].meters) {
+      groups[s.name] = {
+        id,
+        name: s.name,
+        yomi: s.yomi,
+        lat: s.lat,
+        lng: s.lng,
+        meters,
+      };
+    }
+  });
+  return Object.values(groups)
+    .sort((a, b) => a.meters - b.meters)
+    .slice(0, limit);
+}
+
+// ==================== 発車予定 ====================
+
+/**
+ * 指定したバス停（のりば）から now 以降に発車する便を時刻順に返す
+ * match を指定した場合はその条件に合う便のみ
+ */
+export function getUpcomingDepartures(
+  data: Pick<AppData, "timetables" | "calendar" | "extra" | "stops">,
+  stopIds: string[],
+  now: Date,
+  limit = 3,
+  match?: (routeId: string, trip: TripInfo) => boolean,
+): Arrival[] {
+  const calendar = getServiceCalendar(data.calendar, data.extra);
+  const days = getActiveServiceDays(now);
+  const result: Arrival[] = [];
+
+  Object.keys(data.timetables).forEach((rid) => {
+    Object.keys(data.timetables[rid]).forEach((tid) => {
+      const trip = data.timetables[rid][tid];
+      if (match && !match(rid, trip)) return;
+      // 終点では乗車できないため、最後の停車バス停は除く
+      const st = trip.stops
+        .slice(0, -1)
+        .find((s) => stopIds.includes(s.stop_id));
+      if (!st) return;
+      // 前日の運行日の深夜便も含め、時刻は当日基準に揃える
+      days.forEach((day) => {
+        if (timeToSec(st.time) < day.nowSec) return;
+        if (!calendar.isRunning(trip.service_id, day.date)) return;
+        result.push({
+          time: shiftServiceTime(st.time, day.dayOffset),
+          route_id: rid,
+          trip_id: tid,
+          headsign: trip.headsign,
+          via: trip.via,
+          platform: data.stops[st.stop_id]?.platform || "",
+          actual_stop_id: st.stop_id,
+          is_past: false,
+        });
+      });
+    });
+  });
+
+  return result
+    .sort((a, b) => timeToSec(a.time) - timeToSec(b.time))
+    .slice(0, limit);
+}
+
 // ==================== 検索履歴管理 ====================
 
 const HISTORY_KEY = "bus_search_history";
@@ -115,3 +323,138 @@ export function removeFromSearchHistory(stopId: string): void {
   history = history.filter((id) => id !== stopId);
   localStorage.setItem(HISTORY_KEY, JSON.stringify(history));
 }
+
+// ==================== お気に入り管理 ====================
+
+const FAVORITES_KEY = "bus_favorites";
+
+/** お気に入りのバス停（同名バス停単位） */
+export interface FavoriteStop {
+  type: "stop";
+  /** 代表バス停ID */
+  stopId: string;
+  name: string;
+}
+
+/** お気に入りの系統（系統 + 行先 + 乗車バス停） */
+export interface FavoriteRoute {
+  type: "route";
+  routeId: string;
+  headsign: string;
+  /** 乗車する代表バス停ID */
+  stopId: string;
+  name: string;
+}
+
+export type Favorite = FavoriteStop | FavoriteRoute;
+
+/** お気に入りを一意に識別するキー */
+export function getFavoriteKey(fav: Favorite): string {
+  return fav.type === "stop"
+    ? `stop:${fav.name}`
+    : `route:${fav.routeId}:${fav.headsign}:${fav.name}`;
+}
+
+export function getFavorites(): Favorite[] {
+  try {
+    return JSON.parse(localStorage.getItem(FAVORITES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+/** お気に入りに登録済みなら解除し、未登録なら追加する。更新後の一覧を返す */
+export function toggleFavorite(fav: Favorite): Favorite[] {
+  const key = getFavoriteKey(fav);
+  const favorites = getFavorites();
+  const next = favorites.some((f) => getFavoriteKey(f) === key)
+    ? favorites.filter((f) => getFavoriteKey(f) !== key)
+    : [...favorites, fav];
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(next));
+  return next;
+}
+
+export function removeFavorite(fav: Favorite): void {
+  const key = getFavoriteKey(fav);
+  const next = getFavorites().filter((f) => getFavoriteKey(f) !== key);
+  localStorage.setItem(FAVORITES_KEY, JSON.stringify(next));
+}
+
+// ==================== 系統フィルタ管理 ====================
+
+const ROUTE_FILTER_KEY = "bus_stop_route_filters";
+
+/** バス停時刻表の絞り込み条件（空配列は「すべて」） */
+export interface StopRouteFilter {
+  routeIds: string[];
+  headsigns: string[];
+}
+
+const EMPTY_ROUTE_FILTER: StopRouteFilter = { routeIds: [], headsigns: [] };
+
+function getAllStopRouteFilters(): Record<string, StopRouteFilter> {
+  try {
+    return JSON.parse(localStorage.getItem(ROUTE_FILTER_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** バス停ごとに保存した絞り込み条件を取得 */
+export function getStopRouteFilter(stopKey: string): StopRouteFilter {
+  return getAllStopRouteFilters()[stopKey] || EMPTY_ROUTE_FILTER;
+}
+
+/** バス停ごとの絞り込み条件を保存（条件なしの場合は削除） */
+export function saveStopRouteFilter(
+  stopKey: string,
+  filter: StopRouteFilter,
+): void {
+  const filters = getAllStopRouteFilters();
+  if (filter.routeIds.length === 0 && filter.headsigns.length === 0) {
+    delete filters[stopKey];
+  } else {
+    filters[stopKey] = filter;
+  }
+  localStorage.setItem(ROUTE_FILTER_KEY, JSON.stringify(filters));
+}
+
+// ==================== 事業者フィルタ管理 ====================
+
+const HIDDEN_AGENCIES_KEY = "bus_hidden_agencies";
+
+/** 地図・路線一覧に表示しない事業者ID */
+export function getHiddenAgencyIds(): string[] {
+  try {
+    return JSON.parse(localStorage.getItem(HIDDEN_AGENCIES_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+/** 表示しない事業者を保存する */
+export function saveHiddenAgencyIds(agencyIds: string[]): void {
+  localStorage.setItem(HIDDEN_AGENCIES_KEY, JSON.stringify(agencyIds));
+}
+
+/** 路線を表示するか（事業者の分からない路線は常に表示） */
+export function isRouteVisible(
+  routeId: string,
+  routes: RoutesData,
+  hiddenAgencyIds: string[],
+): boolean {
+  const agencyId = routes[routeId]?.agency_id;
+  return !agencyId || !hiddenAgencyIds.includes(agencyId);
+}
+
+/** バス停を表示するか（表示する事業者の便が1つでも停車すれば表示） */
+export function isStopVisible(
+  stop: StopInfo,
+  hiddenAgencyIds: string[],
+): boolean {
+  const agencyIds = stop.agency_ids || [];
+  return (
+    agencyIds.length === 0 ||
+    agencyIds.some((id) => !hiddenAgencyIds.includes(id))
+  );
+}
@@ -0,0 +1,14 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** データソースの種類: "api"（既定） | "static" | "fixture" */
+  readonly VITE_DATA_SOURCE?: string;
+  /** api データソースの API ベース URL */
+  readonly VITE_API_BASE?: string;
+  /** GTFS-Realtime フィード（VehiclePositions / TripUpdates）の URL（カンマ区切り） */
+  readonly VITE_GTFS_RT_URLS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
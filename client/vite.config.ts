@@ -1,7 +1,47 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readFileSync, writeFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+/**
+ * Service Worker（public/sw.js）にビルドの情報を書き込む
+ * 出力したファイルを事前キャッシュの一覧に入れ、ファイル名から求めたハッシュをキャッシュ名の版にする
+ */
+function serviceWorkerBuildInfo(): Plugin {
+  return {
+    name: 'service-worker-build-info',
+    apply: 'build',
+    writeBundle(options, bundle) {
+      // public/sw.js は出力先にコピー済み
+      const swPath = join(options.dir!, 'sw.js')
+      const assets = Object.keys(bundle)
+        .filter((file) => file !== 'index.html' && !file.endsWith('.map'))
+        .sort()
+      const version = createHash('sha256')
+        .update(Object.keys(bundle).sort().join('\n'))
+        .digest('hex')
+        .slice(0, 12)
+      const replacements: [string, string][] = [
+        ['const BUILD_VERSION = "dev";', `const BUILD_VERSION = "${version}";`],
+        [
+          'const BUILD_ASSETS = [];',
+          `const BUILD_ASSETS = ${JSON.stringify(assets.map((file) => `/${file}`))};`,
+        ],
+      ]
+      let source = readFileSync(swPath, 'utf-8')
+      replacements.forEach(([from, to]) => {
+        if (!source.includes(from)) {
+          throw new Error(`sw.js に "${from}" がありません`)
+        }
+        source = source.replace(from, to)
+      })
+      writeFileSync(swPath, source)
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorkerBuildInfo()],
 })
@@ -2,6 +2,7 @@ package main
 
 import (
 	"encoding/json"
+	"fmt"
 	"log"
 	"math"
 	"net/http"
@@ -22,6 +23,10 @@ type StopInfo struct {
 	Lat      float64 `json:"lat"`
 	Lng      float64 `json:"lng"`
 	Platform string  `json:"platform"`
+	// 停車する便の事業者（複数の事業者のデータを読み込んだ場合）
+	AgencyIDs []string `json:"agency_ids,omitempty"`
+	// 停車する便の数（バス停検索の順位付けに使う）
+	TripCount int `json:"trip_count,omitempty"`
 }
 
 // StopsData は stop_id → StopInfo のマップ
@@ -40,6 +45,7 @@ type TripInfo struct {
 	OfficeID  string     `json:"office_id"`
 	Via       string     `json:"via"`
 	Stops     []TripStop `json:"stops"`
+	AgencyID  string     `json:"agency_id,omitempty"`
 }
 
 // TimetablesData は route_id → trip_id → TripInfo のマップ
@@ -71,16 +77,45 @@ type CalendarDateException struct {
 	ExceptionType string `json:"exception_type"`
 }
 
+// DatasetMetadata はデータセットの版と有効期間
+type DatasetMetadata struct {
+	FeedVersion string `json:"feed_version"`
+	ValidFrom   string `json:"valid_from"`
+	ValidTo     string `json:"valid_to"`
+	GeneratedAt string `json:"generated_at"`
+}
+
+// AgencyInfo は1事業者の情報
+type AgencyInfo struct {
+	Name  string `json:"name"`
+	Color string `json:"color"`
+}
+
 // ExtraData は extra.json の構造
 type ExtraData struct {
 	Offices       map[string]string       `json:"offices"`
 	CalendarDates []CalendarDateException `json:"calendar_dates"`
+	// 事業者ごとの情報（古い extra.json には含まれない）
+	Agencies map[string]AgencyInfo `json:"agencies,omitempty"`
+	// 古い extra.json には含まれないため省略可
+	Dataset *DatasetMetadata `json:"dataset,omitempty"`
+	// バス停名・行先の訳: 元の名前 → 言語コード → 訳（古い extra.json には含まれない）
+	Translations map[string]map[string]string `json:"translations,omitempty"`
 }
 
 // RouteInfo は1路線の基本情報
 type RouteInfo struct {
 	ShortName string `json:"short_name"`
 	Color     string `json:"color"`
+	AgencyID  string `json:"agency_id,omitempty"`
+	// 行先・経由地の一覧（行先での検索に使う）
+	Headsigns []RouteHeadsign `json:"headsigns,omitempty"`
+}
+
+// RouteHeadsign は路線の行先と経由地の組み合わせ
+type RouteHeadsign struct {
+	Headsign string `json:"headsign"`
+	Via      string `json:"via"`
 }
 
 // RoutesData は route_id → RouteInfo のマップ
@@ -98,6 +133,16 @@ type TripDetailResponse struct {
 	OfficeName string     `json:"office_name"`
 }
 
+// RouteDetailResponse はクライアントに返す路線詳細情報（全便・停車バス停・経路形状）
+type RouteDetailResponse struct {
+	RouteID    string              `json:"route_id"`
+	RouteName  string              `json:"route_name"`
+	RouteColor string              `json:"route_color"`
+	Trips      map[string]TripInfo `json:"trips"`
+	Stops      StopsData           `json:"stops"`
+	Shapes     ShapesData          `json:"shapes"` // パターンキー -> ShapeData
+}
+
 // StopTimetableResponse はバス停の時刻表情報
 type StopTimetableResponse struct {
 	StopID     string                         `json:"stop_id"`
@@ -113,8 +158,13 @@ type BusPosition struct {
 	Headsign  string    `json:"headsign"`
 	Position  []float64 `json:"position"` // [lng, lat]
 	Color     string    `json:"color"`
+	// 経路形状のキー（停車バス停IDを | でつないだもの）
+	ShapeKey string `json:"shape_key"`
 }
 
+// /api/shapes で1回に受け付ける経路形状のキーの最大数
+const maxShapeKeys = 100
+
 // グローバル変数でデータをキャッシュ
 var (
 	stopsCache      StopsData
@@ -230,9 +280,8 @@ func timeToSec(t string) int {
 	return hours*3600 + minutes*60 + seconds
 }
 
-// 現在のサービスが運行中かチェック
-func isServiceRunningToday(serviceID string) bool {
-	now := time.Now()
+// 指定時刻の日付でサービスが運行中かチェック
+func isServiceRunningToday(serviceID string, now time.Time) bool {
 	ymd := now.Format("20060102")
 
 	// 例外日チェック
@@ -271,6 +320,21 @@ func isServiceRunningToday(serviceID string) bool {
 	return false
 }
 
+// 運行日と、その運行日 0 時から数えた現在時刻の秒数
+type serviceDay struct {
+	date   time.Time
+	nowSec int
+}
+
+// 指定時刻が属しうる運行日（当日と、24 時以降の深夜便が残っている前日）
+func activeServiceDays(now time.Time) []serviceDay {
+	nowSec := now.Hour()*3600 + now.Minute()*60 + now.Second()
+	return []serviceDay{
+		{date: now, nowSec: nowSec},
+		{date: now.AddDate(0, 0, -1), nowSec: nowSec + 24*3600},
+	}
+}
+
 // バス位置を計算
 func calculateBusPosition(trip TripInfo, nowSec int, patternKey string) []float64 {
 	shape, ok := shapesCache[patternKey]
@@ -299,30 +363,33 @@ func calculateBusPosition(trip TripInfo, nowSec int, patternKey string) []float6
 	return nil
 }
 
-// 現在運行中のバス位置を全て計算
-func calculateAllBusPositions() []BusPosition {
-	now := time.Now()
-	nowSec := now.Hour()*3600 + now.Minute()*60 + now.Second()
+// 指定時刻に運行中のバス位置を全て計算
+func calculateAllBusPositions(now time.Time) []BusPosition {
+	days := activeServiceDays(now)
 
 	result := []BusPosition{}
 
 	for routeID, trips := range timetablesCache {
 		for tripID, trip := range trips {
-			// サービス運行チェック
-			if !isServiceRunningToday(trip.ServiceID) {
-				continue
-			}
-
 			stops := trip.Stops
 			if len(stops) < 2 {
 				continue
 			}
 
-			// 運行時間内かチェック
+			// 運行時間内かチェック（前日の運行日の深夜便も含む）
 			startSec := timeToSec(stops[0].Time)
 			endSec := timeToSec(stops[len(stops)-1].Time)
 
-			if nowSec >= startSec && nowSec <= endSec {
+			for _, day := range days {
+				nowSec := day.nowSec
+				if nowSec < startSec || nowSec > endSec {
+					continue
+				}
+				// サービス運行チェック
+				if !isServiceRunningToday(trip.ServiceID, day.date) {
+					continue
+				}
+
 				// パターンキーを生成
 				stopIDs := make([]string, len(stops))
 				for i, stop := range stops {
@@ -341,6 +408,7 @@ func calculateAllBusPositions() []BusPosition {
 						Headsign:  trip.Headsign,
 						Position:  pos,
 						Color:     routeInfo.Color,
+						ShapeKey:  patternKey,
 					})
 				}
 			}
@@ -351,29 +419,32 @@ func calculateAllBusPositions() []BusPosition {
 }
 
 // 範囲内の運行中バス位置のみを計算
-func calculateBusPositionsInBounds(minLat, maxLat, minLng, maxLng float64) []BusPosition {
-	now := time.Now()
-	nowSec := now.Hour()*3600 + now.Minute()*60 + now.Second()
+func calculateBusPositionsInBounds(minLat, maxLat, minLng, maxLng float64, now time.Time) []BusPosition {
+	days := activeServiceDays(now)
 
 	result := []BusPosition{}
 
 	for routeID, trips := range timetablesCache {
 		for tripID, trip := range trips {
-			// サービス運行チェック
-			if !isServiceRunningToday(trip.ServiceID) {
-				continue
-			}
-
 			stops := trip.Stops
 			if len(stops) < 2 {
 				continue
 			}
 
-			// 運行時間内かチェック
+			// 運行時間内かチェック（前日の運行日の深夜便も含む）
 			startSec := timeToSec(stops[0].Time)
 			endSec := timeToSec(stops[len(stops)-1].Time)
 
-			if nowSec >= startSec && nowSec <= endSec {
+			for _, day := range days {
+				nowSec := day.nowSec
+				if nowSec < startSec || nowSec > endSec {
+					continue
+				}
+				// サービス運行チェック
+				if !isServiceRunningToday(trip.ServiceID, day.date) {
+					continue
+				}
+
 				// パターンキーを生成
 				stopIDs := make([]string, len(stops))
 				for i, stop := range stops {
@@ -396,6 +467,7 @@ func calculateBusPositionsInBounds(minLat, maxLat, minLng, maxLng float64) []Bus
 							Headsign:  trip.Headsign,
 							Position:  pos,
 							Color:     routeInfo.Color,
+							ShapeKey:  patternKey,
 						})
 					}
 				}
@@ -406,6 +478,43 @@ func calculateBusPositionsInBounds(minLat, maxLat, minLng, maxLng float64) []Bus
 	return result
 }
 
+// 指定時刻から durationSec 秒の間に運行する便の時刻表（前日の運行日の深夜便も含む）
+func filterActiveTimetables(now time.Time, durationSec int) (map[string]map[string]TripInfo, int) {
+	days := activeServiceDays(now)
+
+	result := make(map[string]map[string]TripInfo)
+	count := 0
+
+	for routeID, trips := range timetablesCache {
+		for tripID, trip := range trips {
+			stops := trip.Stops
+			if len(stops) < 2 {
+				continue
+			}
+
+			startSec := timeToSec(stops[0].Time)
+			endSec := timeToSec(stops[len(stops)-1].Time)
+
+			for _, day := range days {
+				if endSec < day.nowSec || startSec > day.nowSec+durationSec {
+					continue
+				}
+				if !isServiceRunningToday(trip.ServiceID, day.date) {
+					continue
+				}
+				if result[routeID] == nil {
+					result[routeID] = make(map[string]TripInfo)
+				}
+				result[routeID][tripID] = trip
+				count++
+				break
+			}
+		}
+	}
+
+	return result, count
+}
+
 func main() {
 	// 起動時に全データを読み込み
 	if err := loadAllData(); err != nil {
@@ -479,6 +588,19 @@ func main() {
 		minLngStr := c.Query("minLng")
 		maxLngStr := c.Query("maxLng")
 
+		// 表示時刻の指定（UNIX 秒）。省略時は現在時刻
+		now := time.Now()
+		if atStr := c.Query("at"); atStr != "" {
+			at, err := strconv.ParseInt(atStr, 10, 64)
+			if err != nil {
+				c.JSON(http.StatusBadRequest, gin.H{
+					"error": "at パラメータは UNIX 秒である必要があります",
+				})
+				return
+			}
+			now = time.Unix(at, 0)
+		}
+
 		var buses []BusPosition
 
 		// 範囲指定がある場合はフィルタリング
@@ -502,19 +624,19 @@ func main() {
 				return
 			}
 
-			buses = calculateBusPositionsInBounds(minLat, maxLat, minLng, maxLng)
+			buses = calculateBusPositionsInBounds(minLat, maxLat, minLng, maxLng, now)
 
 			// デバッグログ: 受け取った範囲と返却数を出力
 			log.Printf("/api/buses bounds received: minLat=%f maxLat=%f minLng=%f maxLng=%f -> returned=%d\n", minLat, maxLat, minLng, maxLng, len(buses))
 		} else {
 			// 範囲指定なしの場合は全バスを返す
-			buses = calculateAllBusPositions()
+			buses = calculateAllBusPositions(now)
 		}
 
 		c.JSON(http.StatusOK, gin.H{
 			"count":     len(buses),
 			"buses":     buses,
-			"timestamp": time.Now().Unix(),
+			"timestamp": now.Unix(),
 		})
 	})
 
@@ -612,6 +734,72 @@ func main() {
 		c.JSON(http.StatusOK, response)
 	})
 
+	// 経路形状をキー（停車バス停IDを | でつないだもの）でまとめて返すエンドポイント
+	// キーが長くなるため POST の JSON で受け取る
+	r.POST("/api/shapes", func(c *gin.Context) {
+		var req struct {
+			Keys []string `json:"keys"`
+		}
+		if err := c.ShouldBindJSON(&req); err != nil {
+			c.JSON(http.StatusBadRequest, gin.H{
+				"error": "keys（経路形状のキーの配列）が必要です",
+			})
+			return
+		}
+		if len(req.Keys) > maxShapeKeys {
+			c.JSON(http.StatusBadRequest, gin.H{
+				"error": fmt.Sprintf("keys は %d 件までです", maxShapeKeys),
+			})
+			return
+		}
+
+		shapes := make(ShapesData)
+		for _, key := range req.Keys {
+			if shape, exists := shapesCache[key]; exists {
+				shapes[key] = shape
+			}
+		}
+
+		c.JSON(http.StatusOK, shapes)
+	})
+
+	// 指定時刻から一定時間内に運行する全便の時刻表を返すエンドポイント（経路検索・到達圏用）
+	r.GET("/api/timetables", func(c *gin.Context) {
+		// 表示時刻の指定（UNIX 秒）。省略時は現在時刻
+		now := time.Now()
+		if atStr := c.Query("at"); atStr != "" {
+			at, err := strconv.ParseInt(atStr, 10, 64)
+			if err != nil {
+				c.JSON(http.StatusBadRequest, gin.H{
+					"error": "at パラメータは UNIX 秒である必要があります",
+				})
+				return
+			}
+			now = time.Unix(at, 0)
+		}
+
+		// 期間（秒）。省略時は 3 時間、最大 6 時間
+		durationSec := 3 * 3600
+		if durationStr := c.Query("duration"); durationStr != "" {
+			duration, err := strconv.Atoi(durationStr)
+			if err != nil || duration <= 0 || duration > 6*3600 {
+				c.JSON(http.StatusBadRequest, gin.H{
+					"error": "duration パラメータは 1〜21600 の秒数である必要があります",
+				})
+				return
+			}
+			durationSec = duration
+		}
+
+		timetables, count := filterActiveTimetables(now, durationSec)
+
+		c.JSON(http.StatusOK, gin.H{
+			"count":      count,
+			"timetables": timetables,
+			"timestamp":  now.Unix(),
+		})
+	})
+
 	// カレンダーデータを返すエンドポイント
 	r.GET("/api/calendar", func(c *gin.Context) {
 		c.JSON(http.StatusOK, calendarCache)
@@ -622,6 +810,48 @@ func main() {
 		c.JSON(http.StatusOK, routesCache)
 	})
 
+	// 路線詳細（全便・停車バス停・経路形状）を返すエンドポイント
+	r.GET("/api/routes/:routeId", func(c *gin.Context) {
+		routeID := c.Param("routeId")
+
+		routeTrips, ok := timetablesCache[routeID]
+		if !ok {
+			c.JSON(http.StatusNotFound, gin.H{
+				"error": "指定された路線が見つかりません",
+			})
+			return
+		}
+
+		// 全便が停車するバス停と経路パターンを収集
+		routeStops := make(StopsData)
+		routeShapes := make(ShapesData)
+		for _, trip := range routeTrips {
+			stopIDs := make([]string, len(trip.Stops))
+			for i, ts := range trip.Stops {
+				stopIDs[i] = ts.StopID
+				if stop, exists := stopsCache[ts.StopID]; exists {
+					routeStops[ts.StopID] = stop
+				}
+			}
+			patternKey := strings.Join(stopIDs, "|")
+			if shape, exists := shapesCache[patternKey]; exists {
+				routeShapes[patternKey] = shape
+			}
+		}
+
+		routeInfo := routesCache[routeID]
+		response := RouteDetailResponse{
+			RouteID:    routeID,
+			RouteName:  routeInfo.ShortName,
+			RouteColor: routeInfo.Color,
+			Trips:      routeTrips,
+			Stops:      routeStops,
+			Shapes:     routeShapes,
+		}
+
+		c.JSON(http.StatusOK, response)
+	})
+
 	// 拡張データを返すエンドポイント
 	r.GET("/api/extra", func(c *gin.Context) {
 		c.JSON(http.StatusOK, extraCache)
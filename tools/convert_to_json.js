@@ -1,139 +1,88 @@
 const fs = require("fs");
-const { parse } = require("csv-parse/sync");
 const axios = require("axios");
 const path = require("path");
+const { pathToFileURL } = require("url");
 
 // フォルダパスの設定
 const inputDir = "gtfs_raw";
 const outputDir = "data";
 
+// client/src/gtfsParser.ts を直接読み込むため、型注釈をそのまま実行できる Node.js が必要
+const MIN_NODE_VERSION = [22, 18];
+
 async function start() {
+  const [major, minor] = process.versions.node.split(".").map(Number);
+  if (
+    major < MIN_NODE_VERSION[0] ||
+    (major === MIN_NODE_VERSION[0] && minor < MIN_NODE_VERSION[1])
+  ) {
+    console.error(
+      `Error: Node.js ${MIN_NODE_VERSION.join(".")} 以降で実行してください（現在: ${process.versions.node}）。`,
+    );
+    process.exitCode = 1;
+    return;
+  }
   if (!fs.existsSync(outputDir)) {
     fs.mkdirSync(outputDir);
   }
   console.log("GTFSデータの解析およびジオメトリ生成プロセスを開始します...");
 
-  const read = (file) => {
-    const filePath = path.join(inputDir, file);
-    if (!fs.existsSync(filePath)) return [];
-    return parse(fs.readFileSync(filePath, "utf-8"), {
-      columns: true,
-      skip_empty_lines: true,
+  // GTFS の解析はブラウザでの zip 読み込みと共通の実装（client/src/gtfsParser.ts）を使う
+  const { GTFS_FILE_NAMES, mergeFeeds, parseGtfs } = await import(
+    pathToFileURL(path.join(__dirname, "../client/src/gtfsParser.ts")).href
+  );
+
+  const readFeed = (dir) => {
+    const files = {};
+    GTFS_FILE_NAMES.forEach((file) => {
+      const filePath = path.join(dir, file);
+      if (fs.existsSync(filePath)) {
+        files[file] = fs.readFileSync(filePath, "utf-8");
+      }
     });
+    return files;
   };
 
-  const calendar = read("calendar.txt");
-  const calendarDates = read("calendar_dates.txt");
-  const offices = read("office_jp.txt");
-  const patterns = read("pattern_jp.txt");
-  const routes = read("routes.txt");
-  const stopTimes = read("stop_times.txt");
-  const translations = read("translations.txt");
-  const stops = read("stops.txt");
-  const trips = read("trips.txt");
-
-  if (routes.length === 0) {
-    console.error("Error: gtfs_raw フォルダにデータがありません。");
-    return;
-  }
-
-  // 全ての Route ID を取得
-  const targetRouteIds = routes.map((r) => r.route_id);
-
-  const stopYomiMap = {};
-  translations.forEach((t) => {
-    if (
-      t.table_name === "stops" &&
-      t.field_name === "stop_name" &&
-      t.language === "ja-Hrkt"
-    ) {
-      // field_value が元の名前（漢字など）、translation がひらがな
-      stopYomiMap[t.field_value] = t.translation;
-    }
-  });
-
-  const stopsJson = {};
-  stops.forEach((s) => {
-    stopsJson[s.stop_id] = {
-      name: s.stop_name,
-      yomi: stopYomiMap[s.stop_name] || "",
-      lat: parseFloat(s.stop_lat),
-      lng: parseFloat(s.stop_lon),
-      platform: s.platform_code || "",
-    };
-  });
-
-  const routesJson = {};
-  routes.forEach((r) => {
-    routesJson[r.route_id] = {
-      short_name: r.route_short_name,
-      color: r.route_color || "00703c",
-      office_id: r.jp_office_id,
-    };
-  });
-
-  const officeMap = {};
-  offices.forEach((o) => (officeMap[o.office_id] = o.office_name));
-
-  const patternMap = {};
-  patterns.forEach((p) => {
-    patternMap[p.jp_pattern_id] = p.via_stop || "";
-  });
-
-  const calendarJson = {};
-  calendar.forEach((c) => {
-    calendarJson[c.service_id] = {
-      days: [
-        c.monday,
-        c.tuesday,
-        c.wednesday,
-        c.thursday,
-        c.friday,
-        c.saturday,
-        c.sunday,
-      ],
-      start: c.start_date,
-      end: c.end_date,
-    };
-  });
-
-  const stopTimesMap = new Map();
-  stopTimes.forEach((st) => {
-    if (!stopTimesMap.has(st.trip_id)) stopTimesMap.set(st.trip_id, []);
-    stopTimesMap.get(st.trip_id).push(st);
-  });
-
-  const timetablesJson = {};
-  const shapesToGenerate = new Map();
-  const validTrips = trips.filter((t) => targetRouteIds.includes(t.route_id));
-
-  validTrips.forEach((trip) => {
-    const routeId = trip.route_id;
-    if (!timetablesJson[routeId]) timetablesJson[routeId] = {};
-    const myStopTimes = (stopTimesMap.get(trip.trip_id) || []).sort(
-      (a, b) => parseInt(a.stop_sequence) - parseInt(b.stop_sequence),
+  // 複数の事業者のデータは gtfs_raw/<フォルダ名>/ に分けて置く（フォルダ名で ID を区別する）
+  const feedDirs = fs.existsSync(inputDir)
+    ? fs
+        .readdirSync(inputDir, { withFileTypes: true })
+        .filter(
+          (d) =>
+            d.isDirectory() &&
+            fs.existsSync(path.join(inputDir, d.name, "routes.txt")),
+        )
+        .map((d) => d.name)
+        .sort()
+    : [];
+
+  let gtfs;
+  if (feedDirs.length > 0) {
+    console.log(
+      `${feedDirs.length} 件のデータを統合します: ${feedDirs.join(", ")}`,
     );
-    if (myStopTimes.length < 2) return;
-
-    timetablesJson[routeId][trip.trip_id] = {
-      headsign: trip.trip_headsign,
-      service_id: trip.service_id,
-      office_id: trip.jp_office_id,
-      via: patternMap[trip.jp_pattern_id] || "",
-      stops: myStopTimes.map((st) => ({
-        time: st.departure_time,
-        stop_id: st.stop_id,
-      })),
-    };
-    const patternKey = myStopTimes.map((s) => s.stop_id).join("|");
-    if (!shapesToGenerate.has(patternKey)) {
-      shapesToGenerate.set(patternKey, {
-        route_id: routeId,
-        headsign: trip.trip_headsign,
-        stops: myStopTimes,
-      });
+    gtfs = mergeFeeds(
+      feedDirs.map((dir) =>
+        parseGtfs(readFeed(path.join(inputDir, dir)), { feedId: dir }),
+      ),
+    );
+  } else {
+    const files = readFeed(inputDir);
+    if (!files["routes.txt"]) {
+      console.error("Error: gtfs_raw フォルダにデータがありません。");
+      return;
     }
-  });
+    gtfs = parseGtfs(files);
+  }
+
+  const {
+    stops: stopsJson,
+    routes: routesJson,
+    timetables: timetablesJson,
+    calendar: calendarJson,
+    extra: extraJson,
+    patterns: shapesToGenerate,
+  } = gtfs;
 
   // 手動修正データの読み込み
   const manualShapesPath = path.join(__dirname, "manual_shapes.json");
@@ -150,18 +99,19 @@ async function start() {
   }
 
   const shapesJson = {};
+  const patternCount = Object.keys(shapesToGenerate).length;
   console.log(
-    `${shapesToGenerate.size} 個の運行パターンについて、道路形状（ジオメトリ）の整合性を確認しています...`,
+    `${patternCount} 個の運行パターンについて、道路形状（ジオメトリ）の整合性を確認しています...`,
   );
   let counter = 1;
   let reusedCount = 0;
   let manualCount = 0;
   let generatedCount = 0;
 
-  for (const [patternKey, info] of shapesToGenerate) {
+  for (const [patternKey, info] of Object.entries(shapesToGenerate)) {
     if (manualShapes[patternKey]) {
       process.stdout.write(
-        `\r   [${counter}/${shapesToGenerate.size}] [MANUAL] ${info.headsign}...      `,
+        `\r   [${counter}/${patternCount}] [MANUAL] ${info.headsign}...      `,
       );
       shapesJson[patternKey] = manualShapes[patternKey];
       manualCount++;
@@ -171,7 +121,7 @@ async function start() {
 
     if (existingShapes[patternKey]) {
       process.stdout.write(
-        `\r   [${counter}/${shapesToGenerate.size}] [REUSED] ${info.headsign}...      `,
+        `\r   [${counter}/${patternCount}] [REUSED] ${info.headsign}...      `,
       );
       shapesJson[patternKey] = existingShapes[patternKey];
       reusedCount++;
@@ -181,10 +131,10 @@ async function start() {
 
     generatedCount++;
     process.stdout.write(
-      `\r   [${counter}/${shapesToGenerate.size}] [GENERATED] ${info.headsign}...      `,
+      `\r   [${counter}/${patternCount}] [GENERATED] ${info.headsign}...      `,
     );
-    const stopCoords = info.stops
-      .map((st) => stopsJson[st.stop_id])
+    const stopCoords = info.stop_ids
+      .map((id) => stopsJson[id])
       .filter((c) => c);
 
     if (stopCoords.length < 2) {
@@ -313,7 +263,10 @@ async function start() {
     finalShapes[patternKey] = current;
   });
 
-  const extraJson = { offices: officeMap, calendar_dates: calendarDates };
+  const { dataset } = extraJson;
+  console.log(
+    `データセット: 版 ${dataset.feed_version}（有効期間 ${dataset.valid_from}〜${dataset.valid_to}）`,
+  );
 
   const write = (name, data) =>
     fs.writeFileSync(path.join(outputDir, name), JSON.stringify(data));